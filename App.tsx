@@ -1,13 +1,60 @@
 import React, { useState, useMemo, useRef, useEffect } from 'react';
 import { 
-  filterData, calculateKPIs, getCascadingOptions,
-  getSectorPivotData,
+  filterData, calculateKPIs, calculateBaselineKPIs, calcTrend, getCascadingOptions, getFilterOptionLabels,
+  getSectorPivotData, getMonthlyEvolution, getSectorMonthlyEvolution,
   getNetworkStats, getClientStats, getProductStats, getSupplierStats, getRepStats, getGeoStats,
-  parseCSV, fetchGoogleSheetsData
+  parseCSVWithReport, getBusinessDayPace, getPeriodBusinessDays
 } from './services/dataService';
-import { FilterState, SaleRecord, KPIStats, EntityStats, ProductStats, TopItem } from './types';
+import {
+  DEFAULT_PERIOD_SELECTION, BASELINE_MODE_LABELS, resolveReferencePeriod, getAvailableMonths, getPeriodMonths, getPeriodRange,
+  formatMonthShort, formatMonthLong, isDateInRange
+} from './services/periodService';
+import {
+  detectCSVHeaders, loadMappingProfiles, saveMappingProfile, deleteMappingProfile, getActiveProfileName, setActiveProfileName
+} from './services/columnMapping';
+import {
+  loadDataSources, saveDataSources, getActiveSourceId, setActiveSourceId, loadDataSource, registerLocalDataset, createSourceId
+} from './services/dataSources';
+import { detectMonthOverlaps, mergeDatasets } from './services/datasetMerge';
+import { syncGoogleSheet } from './services/sheetSync';
+import { getEntityDetail, getEntityName } from './services/entityService';
+import { getRepScorecards, buildRepScorecardsTableCSV } from './services/repService';
+import { buildTableCSV, downloadCSV } from './services/csvExport';
+import { getChurnAnalysis, buildCallListCSV } from './services/churnService';
+import { loadSalesGoals, saveSalesGoal, deleteSalesGoal, importSalesGoalsCSV, getGoalForFilters, getGoalsByTarget, getGoalAttainment, getRemainingBusinessDays } from './services/goalService';
+import { getMonthForecast } from './services/forecastService';
+import { loadCalendarSettings, saveCalendarSettings } from './services/calendarService';
+import { loadKpiRules, saveKpiRules, loadCustomMetrics, saveCustomMetrics, evaluateCustomMetric, formatMetricValue, buildSectorPivotCSV } from './services/metricService';
+import { getAnomalyAlerts, loadAlertSettings, saveAlertSettings, loadDismissedAlerts, saveDismissedAlerts } from './services/alertService';
+import { getAbcAnalysis, getBaselineRevenueBy, loadAbcThresholds, saveAbcThresholds } from './services/abcService';
+import { getAssociationRules, getCrossSellOpportunities } from './services/basketService';
+import { getPaymentTermsBreakdown, getUnparsedPaymentTerms } from './services/paymentTerms';
+import { getReturnsBreakdown, linkReturnsToSales, getReturnRate, getReturnRateThreshold, setReturnRateThreshold } from './services/returnsService';
+import {
+  loadFilterPresets, saveFilterPreset, renameFilterPreset, deleteFilterPreset, getDefaultPresetName, setDefaultPresetName, getDefaultPreset, importFilterPresets
+} from './services/presetService';
+import { createEmptyFilters, getFilterDimensions, getFilterExclusions, buildDashboardQuery, parseDashboardUrl, hasValidSetupSelection } from './services/urlState';
+import { saveCachedDataset, loadCachedDataset, deleteCachedDataset, saveCachedSession, loadCachedSession } from './services/cacheService';
+import { FilterState, SaleRecord, KPIStats, EntityStats, ProductStats, TopItem, PeriodSelection, ReferencePeriod, BaselineMode, ColumnMapping, ColumnMappingProfile, ImportReport, ImportResult, DataSourceConfig, DataSourceState, MonthConflictResolution, CachedSession, SheetSyncState, DashboardTab, DashboardUrlState, FilterPreset, FilterDimension, FilterMode, EntityRef, RepScorecard, ChurnClient, ChurnStatus, ReturnsView, EntityType, BasketKey, MixView, AbcClass, AbcThresholds, SalesGoal, GoalMetric, ForecastMetric, CalendarSettings, AlertSettings, AnomalyAlert, KpiRules, CustomMetric, PaymentTermsRow, PaymentTermKind, AssociationRule } from './types';
 import { StatCard } from './components/StatCard';
 import { InsightsPanel } from './components/InsightsPanel';
+import { ColumnMappingModal } from './components/ColumnMappingModal';
+import { ImportReportPanel, countReportIssues } from './components/ImportReportPanel';
+import { DataSourcesPanel } from './components/DataSourcesPanel';
+import { MergeDialog } from './components/MergeDialog';
+import { PresetsPanel } from './components/PresetsPanel';
+import { EntityDetailView } from './components/EntityDetailView';
+import { RepScorecardPanel } from './components/RepScorecardPanel';
+import { ChurnPanel } from './components/ChurnPanel';
+import { ReturnsPanel } from './components/ReturnsPanel';
+import { MixPanel } from './components/MixPanel';
+import { AbcPanel, ABC_CLASS_STYLES } from './components/AbcPanel';
+import { EvolutionChart } from './components/EvolutionChart';
+import { GoalsPanel } from './components/GoalsPanel';
+import { CalendarPanel } from './components/CalendarPanel';
+import { AlertsPanel } from './components/AlertsPanel';
+import { MetricsPanel } from './components/MetricsPanel';
+import { PaymentTermsPanel } from './components/PaymentTermsPanel';
 import SalesHeatmap from './components/SalesHeatmap';
 
 // --- ICONS ---
@@ -40,10 +87,19 @@ interface MultiSelectProps {
     selected: string[];
     onChange: (selected: string[]) => void;
     disabled?: boolean;
+    // Com onModeChange, a lista ganha o seletor "Incluir / Excluir"
+    mode?: FilterMode;
+    onModeChange?: (mode: FilterMode) => void;
+    optionLabels?: Record<string, string>;
 }
 
-const MultiSelectDropdown: React.FC<MultiSelectProps> = ({ label, options, selected, onChange, disabled }) => {
+// Acima disso a lista ganha busca e renderiza só parte das opções (clientes e produtos chegam a milhares)
+const SEARCHABLE_THRESHOLD = 15;
+const MAX_VISIBLE_OPTIONS = 200;
+
+const MultiSelectDropdown: React.FC<MultiSelectProps> = ({ label, options, selected, onChange, disabled, mode = 'include', onModeChange, optionLabels }) => {
     const [isOpen, setIsOpen] = useState(false);
+    const [query, setQuery] = useState('');
     const dropdownRef = useRef<HTMLDivElement>(null);
 
     useEffect(() => {
@@ -64,21 +120,37 @@ const MultiSelectDropdown: React.FC<MultiSelectProps> = ({ label, options, selec
         }
     };
 
+    const labelFor = (option: string) => optionLabels?.[option] || option;
+    const isSearchable = options.length > SEARCHABLE_THRESHOLD;
+    const filteredOptions = useMemo(() => {
+        const term = query.trim().toLowerCase();
+        return term ? options.filter(o => (optionLabels?.[o] || o).toLowerCase().includes(term)) : options;
+    }, [options, optionLabels, query]);
+    const visibleOptions = filteredOptions.slice(0, MAX_VISIBLE_OPTIONS);
+
     const toggleAll = () => {
-        if (selected.length === options.length) {
+        if (query.trim()) {
+            // Com busca ativa, marca só os resultados
+            onChange(Array.from(new Set([...selected, ...filteredOptions])));
+        } else if (selected.length === options.length) {
             onChange([]);
         } else {
             onChange(options);
         }
     };
 
-    const displayText = selected.length === 0 
-        ? 'Selecione...' 
-        : selected.length === options.length 
-            ? 'Todos selecionados' 
-            : selected.length === 1 
-                ? selected[0] 
-                : `${selected.length} selecionados`;
+    const isExclude = mode === 'exclude';
+    const displayText = isExclude
+        ? selected.length === 0
+            ? 'Nenhum excluído'
+            : `Todos exceto ${selected.length === 1 ? labelFor(selected[0]) : `${selected.length} itens`}`
+        : selected.length === 0 
+            ? 'Selecione...' 
+            : selected.length === options.length 
+                ? 'Todos selecionados' 
+                : selected.length === 1 
+                    ? labelFor(selected[0]) 
+                    : `${selected.length} selecionados`;
 
     return (
         <div className="relative" ref={dropdownRef}>
@@ -98,27 +170,47 @@ const MultiSelectDropdown: React.FC<MultiSelectProps> = ({ label, options, selec
 
             {isOpen && (
                 <div className="absolute z-50 w-full mt-1 bg-card border border-white/10 rounded-lg shadow-xl max-h-60 overflow-y-auto custom-scrollbar">
-                    <div className="p-2 border-b border-white/5 sticky top-0 bg-card z-10">
+                    <div className="p-2 border-b border-white/5 sticky top-0 bg-card z-10 space-y-1">
+                         {onModeChange && (
+                            <div className="flex bg-background rounded-md border border-white/10 overflow-hidden">
+                                {([['include', 'Incluir'], ['exclude', 'Excluir']] as [FilterMode, string][]).map(([value, text]) => (
+                                    <button key={value} onClick={() => onModeChange(value)} className={`flex-1 px-2 py-1 text-[10px] font-bold uppercase tracking-wider transition-colors ${mode === value ? (value === 'exclude' ? 'bg-danger text-white' : 'bg-primary text-background') : 'text-text-dim hover:text-white'}`}>{text}</button>
+                                ))}
+                            </div>
+                         )}
+                         {isSearchable && (
+                            <input type="text" autoFocus placeholder={`Buscar em ${options.length.toLocaleString('pt-BR')}...`} className="w-full bg-background border border-white/10 text-white text-xs rounded-md px-2 py-1.5 outline-none focus:border-primary" value={query} onChange={(e) => setQuery(e.target.value)} />
+                         )}
+                         {isExclude ? (
+                            selected.length > 0 && <button onClick={() => onChange([])} className="w-full text-left px-2 py-1.5 text-xs font-bold text-primary hover:bg-white/5 rounded transition-colors">Limpar exclusões</button>
+                         ) : (
                          <button 
                             onClick={toggleAll}
                             className="w-full text-left px-2 py-1.5 text-xs font-bold text-primary hover:bg-white/5 rounded transition-colors"
                          >
-                            {selected.length === options.length ? 'Desmarcar Todos' : 'Selecionar Todos'}
+                            {query.trim() ? `Selecionar resultados (${filteredOptions.length})` : selected.length === options.length ? 'Desmarcar Todos' : 'Selecionar Todos'}
                          </button>
+                         )}
                     </div>
                     <div className="p-2 space-y-1">
-                        {options.map(option => (
+                        {visibleOptions.map(option => (
                             <div 
                                 key={option} 
                                 onClick={() => toggleOption(option)}
                                 className="flex items-center gap-3 px-2 py-2 hover:bg-white/5 rounded cursor-pointer group transition-colors"
                             >
-                                <div className={`w-4 h-4 rounded border flex items-center justify-center transition-colors ${selected.includes(option) ? 'bg-primary border-primary' : 'border-text-dim group-hover:border-primary'}`}>
-                                    {selected.includes(option) && <svg className="w-3 h-3 text-background font-bold" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M5 13l4 4L19 7" /></svg>}
+                                <div className={`w-4 h-4 rounded border flex items-center justify-center transition-colors ${selected.includes(option) ? (isExclude ? 'bg-danger border-danger' : 'bg-primary border-primary') : 'border-text-dim group-hover:border-primary'}`}>
+                                    {selected.includes(option) && (isExclude
+                                        ? <svg className="w-3 h-3 text-white font-bold" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M6 18L18 6M6 6l12 12" /></svg>
+                                        : <svg className="w-3 h-3 text-background font-bold" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M5 13l4 4L19 7" /></svg>)}
                                 </div>
-                                <span className={`text-sm ${selected.includes(option) ? 'text-white font-medium' : 'text-text-dim'}`}>{option}</span>
+                                <span className={`text-sm ${selected.includes(option) ? (isExclude ? 'text-danger line-through' : 'text-white font-medium') : 'text-text-dim'}`}>{labelFor(option)}</span>
                             </div>
                         ))}
+                        {filteredOptions.length > MAX_VISIBLE_OPTIONS && (
+                            <p className="px-2 py-1 text-[10px] text-text-dim">Exibindo {MAX_VISIBLE_OPTIONS} de {filteredOptions.length.toLocaleString('pt-BR')}. Refine a busca.</p>
+                        )}
+                        {filteredOptions.length === 0 && <p className="px-2 py-1 text-[10px] text-text-dim">Nenhuma opção encontrada.</p>}
                     </div>
                 </div>
             )}
@@ -126,6 +218,73 @@ const MultiSelectDropdown: React.FC<MultiSelectProps> = ({ label, options, selec
     );
 };
 
+interface PeriodSelectorProps {
+    selection: PeriodSelection;
+    availableMonths: string[];
+    period: ReferencePeriod;
+    onChange: (selection: PeriodSelection) => void;
+}
+
+const PeriodSelector: React.FC<PeriodSelectorProps> = ({ selection, availableMonths, period, onChange }) => {
+    const monthValue = selection.mode === 'auto' ? 'auto' : selection.month;
+    const selectClass = "bg-background border border-white/10 text-white text-[10px] font-bold uppercase tracking-wider rounded-md py-2 pl-3 focus:border-primary focus:ring-1 focus:ring-primary outline-none appearance-none";
+
+    return (
+        <div className="hidden lg:flex items-center gap-2">
+            <select
+                className={selectClass}
+                value={monthValue}
+                onChange={(e) => onChange(e.target.value === 'auto'
+                    ? { ...selection, mode: 'auto', month: '' }
+                    : { ...selection, mode: 'manual', month: e.target.value })}
+                title="Mês de referência"
+            >
+                <option value="auto">Automático ({formatMonthShort(period.currentMonth)})</option>
+                {[...availableMonths].reverse().map(m => <option key={m} value={m}>{formatMonthLong(m)}</option>)}
+            </select>
+            <select
+                className={selectClass}
+                value={selection.baselineMode}
+                onChange={(e) => onChange({ ...selection, baselineMode: e.target.value as BaselineMode })}
+                title="Base de comparação"
+            >
+                {(Object.keys(BASELINE_MODE_LABELS) as BaselineMode[]).map(mode => <option key={mode} value={mode}>{BASELINE_MODE_LABELS[mode]}</option>)}
+            </select>
+            <select
+                className={selectClass}
+                value={selection.closedMonths}
+                onChange={(e) => onChange({ ...selection, closedMonths: parseInt(e.target.value, 10) })}
+                title="Meses fechados exibidos (e usados na média móvel)"
+            >
+                {[1, 2, 3, 4, 5, 6, 12].map(n => <option key={n} value={n}>{n} {n === 1 ? 'mês' : 'meses'}</option>)}
+            </select>
+            {selection.baselineMode === 'customRange' && (
+                <>
+                    <input type="date" className={selectClass} value={selection.customStart} onChange={(e) => onChange({ ...selection, customStart: e.target.value })} title="Início do intervalo" />
+                    <input type="date" className={selectClass} value={selection.customEnd} onChange={(e) => onChange({ ...selection, customEnd: e.target.value })} title="Fim do intervalo" />
+                </>
+            )}
+        </div>
+    );
+};
+
+// Filtros do painel "Filtros Adicionais" (canal/região/divisão vêm da tela de configuração)
+const ADDITIONAL_FILTERS: { key: FilterDimension, label: string, optionsKey: keyof ReturnType<typeof getCascadingOptions> }[] = [
+    { key: 'sector', label: 'Setor', optionsKey: 'sectors' },
+    { key: 'salesRep', label: 'Representante', optionsKey: 'reps' },
+    { key: 'supplier', label: 'Fornecedor', optionsKey: 'suppliers' },
+    { key: 'networkName', label: 'Rede', optionsKey: 'networks' },
+    { key: 'cnpj', label: 'Cliente', optionsKey: 'clients' },
+    { key: 'productCode', label: 'Produto', optionsKey: 'products' },
+    { key: 'state', label: 'UF', optionsKey: 'states' },
+    { key: 'city', label: 'Cidade', optionsKey: 'cities' },
+    { key: 'paymentTerms', label: 'Prazo de Pagamento', optionsKey: 'paymentTerms' }
+];
+
+const RETURN_VIEW_ENTITIES: Partial<Record<ReturnsView, EntityType>> = { product: 'product', supplier: 'supplier', client: 'client', rep: 'rep' };
+
+const TAB_LABELS: Record<DashboardTab, string> = { clients: 'Clientes', products: 'Produtos', suppliers: 'Fornecedores', redes: 'Redes', reps: 'Representantes', churn: 'Churn', returns: 'Devoluções', mix: 'Mix / Cross-sell', terms: 'Condições' };
+
 // --- MAIN APP COMPONENT ---
 
 function App() {
@@ -137,37 +296,245 @@ function App() {
   const [selectedRegions, setSelectedRegions] = useState<string[]>([]);
   const [selectedDivisions, setSelectedDivisions] = useState<string[]>([]);
 
-  const [filters, setFilters] = useState<FilterState>({
-    division: [],
-    region: [],
-    sector: [],
-    salesRep: [],
-    channel: [],
-    supplier: [],
-    startMonth: '2025-08',
-    endMonth: '2025-11'
-  });
+  const [filters, setFilters] = useState<FilterState>(createEmptyFilters);
+
+  const [periodSelection, setPeriodSelection] = useState<PeriodSelection>(DEFAULT_PERIOD_SELECTION);
+  const availableMonths = useMemo(() => getAvailableMonths(allData), [allData]);
+  const period = useMemo(() => resolveReferencePeriod(allData, periodSelection), [allData, periodSelection]);
+
+  // Keep the loaded month range aligned with the reference period
+  useEffect(() => {
+      const { startMonth, endMonth } = getPeriodRange(period);
+      setFilters(prev => (prev.startMonth === startMonth && prev.endMonth === endMonth) ? prev : { ...prev, startMonth, endMonth });
+  }, [period]);
 
   const [isFiltersOpen, setIsFiltersOpen] = useState(false);
-  const [activeTab, setActiveTab] = useState<'clients' | 'products' | 'suppliers' | 'redes'>('clients');
+  const [activeTab, setActiveTab] = useState<DashboardTab>('clients');
+  // Drill-down: cada clique numa linha empilha uma entidade; o breadcrumb volta níveis
+  const [detailStack, setDetailStack] = useState<EntityRef[]>([]);
   const [searchTerm, setSearchTerm] = useState('');
   const [currentPage, setCurrentPage] = useState(1);
   const ITEMS_PER_PAGE = 30;
 
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  // Upload pendente aguardando confirmação do mapeamento de colunas
+  const [pendingUpload, setPendingUpload] = useState<{ fileName: string, text: string, headers: string[] } | null>(null);
+  // Upload já mapeado aguardando a escolha entre substituir ou somar à base atual
+  const [pendingMerge, setPendingMerge] = useState<{ fileName: string, result: ImportResult, profileName: string } | null>(null);
+  const [mappingProfiles, setMappingProfiles] = useState<ColumnMappingProfile[]>(() => loadMappingProfiles());
+
+  const [importReport, setImportReport] = useState<ImportReport | null>(null);
+  const [isReportOpen, setIsReportOpen] = useState(false);
+
+  // --- DATA SOURCES ---
+  const [dataSources, setDataSources] = useState<DataSourceConfig[]>(() => loadDataSources());
+  const [activeSourceId, setActiveSource] = useState<string>(() => getActiveSourceId(loadDataSources()));
+  const [sourceStates, setSourceStates] = useState<Record<string, DataSourceState>>({});
+  const [isSourcesOpen, setIsSourcesOpen] = useState(false);
+  // --- FILTER PRESETS ---
+  const [filterPresets, setFilterPresets] = useState<FilterPreset[]>(() => loadFilterPresets());
+  const [defaultPresetName, setDefaultPreset] = useState<string>(() => getDefaultPresetName());
+  const [isPresetsOpen, setIsPresetsOpen] = useState(false);
+
+  // Data (ISO) do cache exibido enquanto a atualização em segundo plano não conclui
+  const [staleSince, setStaleSince] = useState<string | null>(null);
+
+  const activeSource = dataSources.find(s => s.id === activeSourceId);
+
+  useEffect(() => { saveDataSources(dataSources); }, [dataSources]);
+  useEffect(() => { setActiveSourceId(activeSourceId); }, [activeSourceId]);
+
+  const updateSourceState = (id: string, patch: Partial<DataSourceState>) => {
+    setSourceStates(prev => ({ ...prev, [id]: { ...(prev[id] || { status: 'idle' }), ...patch } }));
+  };
+
+  const resetSetup = () => {
+    setIsSetupComplete(false);
+    setSelectedChannels([]);
+    setSelectedRegions([]);
+    setSelectedDivisions([]);
+  };
+
+  const applyImport = (result: ImportResult) => {
+    setAllData(result.records);
+    setImportReport(result.report);
+    setStaleSince(null);
+  };
+
+  // Falha no cache não impede o uso do painel; apenas perde a abertura instantânea
+  const persistDataset = (source: DataSourceConfig, result: ImportResult, sync?: SheetSyncState) => {
+    saveCachedDataset({ sourceId: source.id, source, records: result.records, report: result.report, savedAt: new Date().toISOString(), sync })
+      .catch(error => console.warn('Não foi possível salvar a base no cache local:', error));
+  };
+
+  // Retorna o resultado em caso de sucesso; falhas ficam registradas no status da fonte
+  const syncSource = async (source: DataSourceConfig): Promise<ImportResult | null> => {
+    updateSourceState(source.id, { status: 'loading', error: undefined });
+    try {
+      let result: ImportResult;
+      let sync: SheetSyncState | undefined;
+      if (source.kind === 'googleSheets') {
+        // Planilhas já em cache só trazem os meses novos (e os antigos que mudaram)
+        const cached = await loadCachedDataset(source.id).catch(() => undefined);
+        ({ result, sync } = await syncGoogleSheet(source, cached));
+      } else {
+        result = await loadDataSource(source);
+      }
+      updateSourceState(source.id, { status: 'ready', lastSyncAt: new Date().toISOString(), recordCount: result.records.length });
+      persistDataset(source, result, sync);
+      return result;
+    } catch (error) {
+      console.error(`Error loading data source "${source.name}":`, error);
+      updateSourceState(source.id, { status: 'error', error: error instanceof Error ? error.message : String(error) });
+      return null;
+    }
+  };
+
+  const handleSyncSource = async (id: string) => {
+    const source = dataSources.find(s => s.id === id);
+    if (!source) return;
+    const result = await syncSource(source);
+    if (result && id === activeSourceId) applyImport(result);
+  };
+
+  const handleActivateSource = async (id: string) => {
+    const source = dataSources.find(s => s.id === id);
+    if (!source) return;
+    const result = await syncSource(source);
+    if (!result) return;
+    setActiveSource(id);
+    applyImport(result);
+    resetSetup();
+  };
+
+  const handleSaveSource = (source: DataSourceConfig) => {
+    setDataSources(prev => prev.some(s => s.id === source.id) ? prev.map(s => s.id === source.id ? source : s) : [...prev, source]);
+  };
+
+  const handleRemoveSource = (id: string) => {
+    setDataSources(prev => prev.filter(s => s.id !== id));
+    deleteCachedDataset(id).catch(error => console.warn('Não foi possível remover a base do cache local:', error));
+    setSourceStates(prev => {
+      const { [id]: _, ...rest } = prev;
+      return rest;
+    });
+  };
+
+  const restoreSession = (session: CachedSession | undefined) => {
+    if (!session?.isSetupComplete) return;
+    const { channel, region, division } = session.filters;
+    if (channel.length === 0 || region.length === 0 || division.length === 0) return;
+    setFilters(prev => ({ ...prev, ...session.filters }));
+    setSelectedChannels(channel);
+    setSelectedRegions(region);
+    setSelectedDivisions(division);
+    setIsSetupComplete(true);
+  };
+
+  // Chave do que volta a lista para a página 1 (o intervalo de meses é derivado do período e fica de fora)
+  const buildPageResetKey = (tab: DashboardTab, search: string, dims: DashboardUrlState['filters'], exclude: DashboardUrlState['exclude'], selection: PeriodSelection) =>
+    JSON.stringify([tab, search, dims, exclude, selection]);
+
+  // Aplica um link compartilhado; false quando canal/região/divisão não existem na base
+  const applyUrlState = (state: DashboardUrlState, data: SaleRecord[]): boolean => {
+    if (!hasValidSetupSelection(state.filters, data)) return false;
+    setFilters(prev => ({ ...prev, ...state.filters, exclude: state.exclude }));
+    setSelectedChannels(state.filters.channel);
+    setSelectedRegions(state.filters.region);
+    setSelectedDivisions(state.filters.division);
+    setIsSetupComplete(true);
+    setActiveTab(state.tab);
+    setDetailStack(state.detail);
+    setSearchTerm(state.search);
+    setPeriodSelection(state.period);
+    setCurrentPage(state.page);
+    lastPageResetKey.current = buildPageResetKey(state.tab, state.search, state.filters, state.exclude, state.period);
+    historyKey.current = buildDashboardQuery({ ...state, search: '' });
+    return true;
+  };
+
+  // Preset = link sem busca/página/período: mantém o período escolhido
+  const applyPreset = (preset: FilterPreset, data: SaleRecord[]): boolean =>
+    applyUrlState({ filters: preset.filters, exclude: preset.exclude, tab: preset.tab, detail: [], search: '', page: 1, period: periodSelection }, data);
+
+  // Prioridade: link compartilhado > preset padrão > sessão salva
+  const restoreState = (data: SaleRecord[], session: CachedSession | undefined) => {
+    const urlState = parseDashboardUrl(window.location.search);
+    if (urlState && applyUrlState(urlState, data)) return;
+    const defaultPreset = getDefaultPreset();
+    if (defaultPreset && applyPreset(defaultPreset, data)) return;
+    restoreSession(session);
+  };
+
+  const handleApplyPreset = (preset: FilterPreset) => {
+    if (!applyPreset(preset, allData)) {
+      alert(`O preset "${preset.name}" usa canal, região ou divisão que não existem na base atual.`);
+      return;
+    }
+    setIsPresetsOpen(false);
+  };
+
+  const handleImportPresets = (json: string) => {
+    try {
+      const { presets, imported } = importFilterPresets(json);
+      setFilterPresets(presets);
+      alert(`${imported} preset(s) importado(s).`);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : String(error));
+    }
+  };
+
   useEffect(() => {
+    const readCache = <T,>(promise: Promise<T>): Promise<T | undefined> =>
+      promise.catch(error => { console.warn('Cache local indisponível:', error); return undefined; });
+
     const initData = async () => {
       setLoading(true);
-      const data = await fetchGoogleSheetsData();
-      if (data.length > 0) {
-        setAllData(data);
+      // Arquivos carregados só existem no cache: registra todos para que continuem ativáveis após recarregar
+      await Promise.all(dataSources.filter(s => s.kind === 'localFile').map(async source => {
+        const cached = await readCache(loadCachedDataset(source.id));
+        if (!cached) return;
+        registerLocalDataset(source.id, cached);
+        updateSourceState(source.id, { status: 'ready', lastSyncAt: cached.savedAt, recordCount: cached.records.length });
+      }));
+      if (!activeSource) {
+        setLoading(false);
+        return;
+      }
+
+      const [cached, session] = await Promise.all([readCache(loadCachedDataset(activeSource.id)), readCache(loadCachedSession())]);
+      if (cached) {
+        // Abre imediatamente com o cache e atualiza fontes remotas em segundo plano
+        setAllData(cached.records);
+        setImportReport(cached.report);
+        restoreState(cached.records, session);
+        setLoading(false);
+        if (activeSource.kind === 'localFile') return;
+        setStaleSince(cached.savedAt);
+        const result = await syncSource(activeSource);
+        if (result) applyImport(result);
+        return;
+      }
+
+      const result = await syncSource(activeSource);
+      if (result) {
+        applyImport(result);
+        restoreState(result.records, session);
       }
       setLoading(false);
     };
     initData();
+    // Só na abertura do painel: depois disso, fontes são sincronizadas ou trocadas pelos botões da tela de fontes
   }, []);
 
+  // Persiste filtros após a restauração inicial para não sobrescrever a sessão salva
+  useEffect(() => {
+    if (loading) return;
+    saveCachedSession({ filters, isSetupComplete, savedAt: new Date().toISOString() })
+      .catch(error => console.warn('Não foi possível salvar a sessão no cache local:', error));
+  }, [filters, isSetupComplete, loading]);
+
   const availableChannels = useMemo(() => Array.from(new Set(allData.map(r => r.channel).filter(Boolean))).sort(), [allData]);
   
   const availableRegions = useMemo(() => {
@@ -184,90 +551,382 @@ function App() {
       return Array.from(new Set(data.map(r => r.division).filter(Boolean))).sort();
   }, [allData, selectedRegions, selectedChannels]);
 
+  // --- INDICADORES ---
+  const [kpiRules, setKpiRules] = useState<KpiRules>(() => loadKpiRules());
+  const [customMetrics, setCustomMetrics] = useState<CustomMetric[]>(() => loadCustomMetrics());
+  const [isMetricsOpen, setIsMetricsOpen] = useState(false);
+
   // --- KPI LOGIC ---
   const currentMonthData = useMemo(() => {
-      const novFilter = { ...filters, startMonth: '2025-11', endMonth: '2025-11' };
-      return filterData(allData, novFilter);
-  }, [allData, filters]);
-
-  const currentMonthKPIs = useMemo(() => calculateKPIs(currentMonthData), [currentMonthData]);
-
-  const avgHistoryKPIs = useMemo(() => {
-      const statsByMonth: KPIStats[] = [];
-      ['2025-08', '2025-09', '2025-10'].forEach(month => {
-          const monthFilter = { ...filters, startMonth: month, endMonth: month };
-          const d = filterData(allData, monthFilter);
-          statsByMonth.push(calculateKPIs(d));
-      });
-      const avg: any = {};
-      const keys = Object.keys(statsByMonth[0] || {}) as (keyof KPIStats)[];
-      keys.forEach(k => {
-          const sum = statsByMonth.reduce((acc, curr) => acc + curr[k], 0);
-          avg[k] = sum / 3;
-      });
-      return avg as KPIStats;
-  }, [allData, filters]);
+      const currentFilter = { ...filters, startMonth: period.currentMonth, endMonth: period.currentMonth };
+      return filterData(allData, currentFilter);
+  }, [allData, filters, period]);
+
+  const currentMonthKPIs = useMemo(() => calculateKPIs(currentMonthData, kpiRules), [currentMonthData, kpiRules]);
 
   const fullPeriodData = useMemo(() => filterData(allData, filters), [allData, filters]);
+  // Histórico completo até o mês de referência (mesmos filtros de dimensão): churn, vínculo de devoluções e projeção
+  const historyData = useMemo(() => filterData(allData, { ...filters, startMonth: '0000-00', endMonth: period.currentMonth }), [allData, filters, period]);
+
+  const baselineKPIs = useMemo(() => calculateBaselineKPIs(fullPeriodData, period.baseline, kpiRules), [fullPeriodData, period, kpiRules]);
+  const cardMetrics = customMetrics.filter(m => m.showCard);
   
-  const pivotData = useMemo(() => getSectorPivotData(fullPeriodData), [fullPeriodData]);
+  const pivotData = useMemo(() => getSectorPivotData(fullPeriodData, period, kpiRules), [fullPeriodData, period, kpiRules]);
+
+  // --- CALENDÁRIO DE DIAS ÚTEIS ---
+  const [calendarSettings, setCalendarSettings] = useState<CalendarSettings>(() => loadCalendarSettings());
+  const [isCalendarOpen, setIsCalendarOpen] = useState(false);
+  const handleCalendarChange = (settings: CalendarSettings) => {
+      setCalendarSettings(settings);
+      saveCalendarSettings(settings);
+  };
+  // Corte do mês em aberto: última venda da base inteira, não do recorte filtrado
+  const forecastAsOf = useMemo(() => allData.reduce((max, r) => r.date.startsWith(period.currentMonth) && r.date > max ? r.date : max, ''), [allData, period]);
+  const businessDayPace = useMemo(() => getBusinessDayPace(fullPeriodData, period, forecastAsOf, calendarSettings, kpiRules), [fullPeriodData, period, forecastAsOf, calendarSettings, kpiRules]);
+  const pivotBusinessDays = useMemo(() => getPeriodBusinessDays(period, forecastAsOf, calendarSettings), [period, forecastAsOf, calendarSettings]);
+
+  // --- METAS ---
+  const [salesGoals, setSalesGoals] = useState<SalesGoal[]>(() => loadSalesGoals());
+  const [isGoalsOpen, setIsGoalsOpen] = useState(false);
+  const goalOptions = useMemo(() => ({
+      rep: Array.from(new Set(allData.map(r => r.salesRep).filter(Boolean))).sort(),
+      sector: Array.from(new Set(allData.map(r => r.sector).filter(Boolean))).sort(),
+      region: Array.from(new Set(allData.map(r => r.region).filter(Boolean))).sort()
+  }), [allData]);
+  // Dias úteis restantes contam a partir da última venda da base, não do recorte filtrado
+  const remainingWorkdays = useMemo(() => getRemainingBusinessDays(allData, period.currentMonth, calendarSettings), [allData, period, calendarSettings]);
+  const goalTotals = useMemo(() => {
+      const totalFor = (metric: GoalMetric) => getGoalForFilters(salesGoals, period.currentMonth, metric, filters, fullPeriodData);
+      return { totalRevenue: totalFor('totalRevenue'), positivacao: totalFor('positivacao'), skuPerPdv: totalFor('skuPerPdv') };
+  }, [salesGoals, period, filters, fullPeriodData]);
+  const goalAttainments = useMemo(() => {
+      const attainmentFor = (metric: GoalMetric) => {
+          const target = goalTotals[metric];
+          return target === undefined ? undefined : getGoalAttainment(target, currentMonthKPIs[metric], remainingWorkdays);
+      };
+      return { totalRevenue: attainmentFor('totalRevenue'), positivacao: attainmentFor('positivacao'), skuPerPdv: attainmentFor('skuPerPdv') };
+  }, [goalTotals, currentMonthKPIs, remainingWorkdays]);
+  const sectorGoals = useMemo(() => ({
+      totalRevenue: getGoalsByTarget(salesGoals, period.currentMonth, 'sector', 'totalRevenue'),
+      positivacao: getGoalsByTarget(salesGoals, period.currentMonth, 'sector', 'positivacao'),
+      skuPerPdv: getGoalsByTarget(salesGoals, period.currentMonth, 'sector', 'skuPerPdv')
+  }), [salesGoals, period]);
+
+  const handleImportGoals = (csv: string) => {
+      try {
+          const { goals, imported, skipped } = importSalesGoalsCSV(csv);
+          setSalesGoals(goals);
+          alert(`${imported} meta(s) importada(s).${skipped > 0 ? ` ${skipped} linha(s) ignorada(s) por dados inválidos.` : ''}`);
+      } catch (error) {
+          alert(error instanceof Error ? error.message : String(error));
+      }
+  };
+
+  // --- PROJEÇÃO DE FECHAMENTO ---
+  const monthForecast = useMemo(() => getMonthForecast(historyData, period, forecastAsOf, baselineKPIs, calendarSettings, kpiRules), [historyData, period, forecastAsOf, baselineKPIs, calendarSettings, kpiRules]);
+  const isMonthInProgress = monthForecast.metrics.totalRevenue.method !== 'closed';
+
+  const monthlyEvolution = useMemo(() => getMonthlyEvolution(fullPeriodData, kpiRules), [fullPeriodData, kpiRules]);
+  const sectorMonthlyEvolution = useMemo(() => getSectorMonthlyEvolution(fullPeriodData, kpiRules), [fullPeriodData, kpiRules]);
   const filterOptions = useMemo(() => getCascadingOptions(allData, filters), [allData, filters]);
+  const filterOptionLabels = useMemo(() => getFilterOptionLabels(allData), [allData]);
 
   // Geo Data
   const geoStats = useMemo(() => getGeoStats(fullPeriodData), [fullPeriodData]);
 
   // Rep Stats for AI
-  const repStats = useMemo(() => getRepStats(fullPeriodData), [fullPeriodData]);
+  const repStats = useMemo(() => getRepStats(fullPeriodData, period, kpiRules), [fullPeriodData, period, kpiRules]);
   const topReps = useMemo(() => repStats.slice(0, 10).map(r => ({ id: r.id, name: r.name, value: r.revenue, subValue: r.orders })), [repStats]);
 
-  const calcTrend = (current: number, avg: number) => {
-      if (avg === 0) return current > 0 ? 100 : 0;
-      return ((current - avg) / avg) * 100;
-  };
-
   const trends = useMemo(() => ({
-      revenue: calcTrend(currentMonthKPIs.totalRevenue, avgHistoryKPIs.totalRevenue),
-      positivacao: calcTrend(currentMonthKPIs.positivacao, avgHistoryKPIs.positivacao),
-      ticket: calcTrend(currentMonthKPIs.averageTicket, avgHistoryKPIs.averageTicket),
-      sku: calcTrend(currentMonthKPIs.skuPerPdv, avgHistoryKPIs.skuPerPdv)
-  }), [currentMonthKPIs, avgHistoryKPIs]);
+      revenue: calcTrend(currentMonthKPIs.totalRevenue, baselineKPIs.totalRevenue),
+      positivacao: calcTrend(currentMonthKPIs.positivacao, baselineKPIs.positivacao),
+      ticket: calcTrend(currentMonthKPIs.averageTicket, baselineKPIs.averageTicket),
+      sku: calcTrend(currentMonthKPIs.skuPerPdv, baselineKPIs.skuPerPdv)
+  }), [currentMonthKPIs, baselineKPIs]);
 
 
+  const allClientStats = useMemo(() => getClientStats(fullPeriodData, period, kpiRules), [fullPeriodData, period, kpiRules]);
   const clientStats = useMemo(() => {
-      const stats = getClientStats(fullPeriodData); 
-      if (!searchTerm) return stats;
-      return stats.filter(s => s.name.toLowerCase().includes(searchTerm.toLowerCase()) || s.id.includes(searchTerm));
-  }, [fullPeriodData, searchTerm]);
+      if (!searchTerm) return allClientStats;
+      return allClientStats.filter(s => s.name.toLowerCase().includes(searchTerm.toLowerCase()) || s.id.includes(searchTerm));
+  }, [allClientStats, searchTerm]);
 
+  const allProductStats = useMemo(() => getProductStats(fullPeriodData, period), [fullPeriodData, period]);
   const productStats = useMemo(() => {
-      const stats = getProductStats(fullPeriodData);
-      if (!searchTerm) return stats;
-      return stats.filter(p => p.desc.toLowerCase().includes(searchTerm.toLowerCase()) || p.code.includes(searchTerm));
-  }, [fullPeriodData, searchTerm]);
+      if (!searchTerm) return allProductStats;
+      return allProductStats.filter(p => p.desc.toLowerCase().includes(searchTerm.toLowerCase()) || p.code.includes(searchTerm));
+  }, [allProductStats, searchTerm]);
 
+  const allSupplierStats = useMemo(() => getSupplierStats(fullPeriodData, period, kpiRules), [fullPeriodData, period, kpiRules]);
   const supplierStats = useMemo(() => {
-      const stats = getSupplierStats(fullPeriodData);
-      if (!searchTerm) return stats;
-      return stats.filter(s => s.name.toLowerCase().includes(searchTerm.toLowerCase()));
-  }, [fullPeriodData, searchTerm]);
+      if (!searchTerm) return allSupplierStats;
+      return allSupplierStats.filter(s => s.name.toLowerCase().includes(searchTerm.toLowerCase()));
+  }, [allSupplierStats, searchTerm]);
+
+  // --- CURVA ABC ---
+  // Classificação sobre a lista completa (antes da busca), só para a aba ativa
+  const [abcThresholds, setAbcThresholds] = useState<AbcThresholds>(() => loadAbcThresholds());
+  const [abcClassFilter, setAbcClassFilter] = useState<AbcClass | ''>('');
+  const abcAnalysis = useMemo(() => {
+      switch (activeTab) {
+          case 'clients':
+              return getAbcAnalysis(allClientStats.map(s => ({ id: s.id, value: s.revenue })), allClientStats.map(s => ({ id: s.id, value: s.averagePastRevenue })), abcThresholds);
+          case 'suppliers':
+              return getAbcAnalysis(allSupplierStats.map(s => ({ id: s.id, value: s.revenue })), allSupplierStats.map(s => ({ id: s.id, value: s.averagePastRevenue })), abcThresholds);
+          case 'products':
+              return getAbcAnalysis(allProductStats.map(p => ({ id: p.code, value: p.revenue })), getBaselineRevenueBy(fullPeriodData, r => r.productCode, period), abcThresholds);
+          default:
+              return null;
+      }
+  }, [activeTab, allClientStats, allSupplierStats, allProductStats, fullPeriodData, period, abcThresholds]);
+  const abcNames = useMemo(() => {
+      if (activeTab === 'products') return Object.fromEntries(allProductStats.map(p => [p.code, p.desc]));
+      return Object.fromEntries((activeTab === 'suppliers' ? allSupplierStats : allClientStats).map(s => [s.id, s.name]));
+  }, [activeTab, allClientStats, allSupplierStats, allProductStats]);
+
+  const handleAbcThresholdsChange = (thresholds: AbcThresholds): boolean => {
+      if (!saveAbcThresholds(thresholds)) return false;
+      setAbcThresholds(thresholds);
+      return true;
+  };
 
   const networksStats = useMemo(() => {
-      const stats = getNetworkStats(fullPeriodData);
+      const stats = getNetworkStats(fullPeriodData, period, kpiRules);
       if (!searchTerm) return stats;
       return stats.filter(s => s.name.toLowerCase().includes(searchTerm.toLowerCase()));
-  }, [fullPeriodData, searchTerm]);
+  }, [fullPeriodData, period, kpiRules, searchTerm]);
 
-  // Reset page when tab/search changes
+  // Reset page when tab/search/filters change
+  const pageResetKey = useMemo(() => buildPageResetKey(activeTab, searchTerm, getFilterDimensions(filters), getFilterExclusions(filters), periodSelection), [activeTab, searchTerm, filters, periodSelection]);
+  const lastPageResetKey = useRef(pageResetKey);
   useEffect(() => {
+      if (lastPageResetKey.current === pageResetKey) return;
+      lastPageResetKey.current = pageResetKey;
       setCurrentPage(1);
-  }, [activeTab, searchTerm, filters]);
+  }, [pageResetKey]);
+
+  // --- URL SYNC ---
+  // Mudanças de filtro/aba/página/período criam entrada no histórico; digitar na busca só substitui a atual
+  const historyKey = useRef<string | null>(null);
+  useEffect(() => {
+      if (loading || !isSetupComplete) return;
+      const state: DashboardUrlState = { filters: getFilterDimensions(filters), exclude: getFilterExclusions(filters), tab: activeTab, detail: detailStack, search: searchTerm, page: currentPage, period: periodSelection };
+      const query = buildDashboardQuery(state);
+      const key = buildDashboardQuery({ ...state, search: '' });
+      if (query === window.location.search) {
+          historyKey.current = key;
+          return;
+      }
+      const url = `${window.location.pathname}${query}${window.location.hash}`;
+      if (!window.location.search || key === historyKey.current) window.history.replaceState(null, '', url);
+      else window.history.pushState(null, '', url);
+      historyKey.current = key;
+  }, [loading, isSetupComplete, filters, activeTab, detailStack, searchTerm, currentPage, periodSelection]);
+
+  useEffect(() => {
+      const handlePopState = () => {
+          const state = parseDashboardUrl(window.location.search);
+          if (state) {
+              applyUrlState(state, allData);
+              return;
+          }
+          // Voltar até uma entrada sem parâmetros = antes de configurar o painel
+          historyKey.current = null;
+          setDetailStack([]);
+          setIsSetupComplete(false);
+      };
+      window.addEventListener('popstate', handlePopState);
+      return () => window.removeEventListener('popstate', handlePopState);
+      // applyUrlState só usa setters de estado e os dados recebidos: basta reinscrever quando a base muda
+  }, [allData]);
+
+  // Ranking regional compara o rep com todos os colegas da região, mesmo com filtro de representante ou região ativo
+  const repRankingData = useMemo(() => filterData(allData, {
+      ...filters,
+      salesRep: [],
+      region: [],
+      exclude: { ...filters.exclude, salesRep: [], region: [] }
+  }), [allData, filters]);
+  const repScorecards = useMemo(() => {
+      const cards = getRepScorecards(fullPeriodData, period, kpiRules, repRankingData);
+      if (!searchTerm) return cards;
+      return cards.filter(c => c.id.toLowerCase().includes(searchTerm.toLowerCase()) || c.region.toLowerCase().includes(searchTerm.toLowerCase()));
+  }, [fullPeriodData, repRankingData, period, kpiRules, searchTerm]);
+  const [scorecardRepId, setScorecardRepId] = useState<string | null>(null);
+  const scorecard = scorecardRepId ? repScorecards.find(c => c.id === scorecardRepId) : undefined;
+  const clientNames = useMemo(() => {
+      const names: Record<string, string> = {};
+      fullPeriodData.forEach(r => { if (!names[r.cnpj]) names[r.cnpj] = r.companyName; });
+      return names;
+  }, [fullPeriodData]);
+
+  // --- CHURN ---
+  const churnClients = useMemo(() => getChurnAnalysis(historyData, period), [historyData, period]);
+  const [churnStatus, setChurnStatus] = useState<ChurnStatus>('churned');
+  const [churnRep, setChurnRep] = useState<string>('');
+  const churnCounts = useMemo(() => {
+      const counts: Record<ChurnStatus, number> = { churned: 0, new: 0, reactivated: 0 };
+      churnClients.forEach(c => { if (!churnRep || c.salesRep === churnRep) counts[c.status]++; });
+      return counts;
+  }, [churnClients, churnRep]);
+  const churnReps = useMemo(() => Array.from(new Set(churnClients.map(c => c.salesRep).filter(Boolean))).sort(), [churnClients]);
+  const filteredChurnClients = useMemo(() => {
+      const term = searchTerm.toLowerCase();
+      return churnClients.filter(c =>
+          c.status === churnStatus &&
+          (!churnRep || c.salesRep === churnRep) &&
+          (!term || c.companyName.toLowerCase().includes(term) || c.cnpj.includes(term) || c.salesRep.toLowerCase().includes(term))
+      );
+  }, [churnClients, churnStatus, churnRep, searchTerm]);
+
+  const handleExportCallList = () => {
+      // Lista de ligações: perdidos e reativados do representante selecionado (ou de todos)
+      const callList = churnClients.filter(c => c.status !== 'new' && (!churnRep || c.salesRep === churnRep));
+      if (callList.length === 0) return;
+      downloadCSV(buildCallListCSV(callList), `lista_ligacoes_${churnRep ? churnRep.replace(/\W+/g, '_') + '_' : ''}${period.currentMonth}.csv`);
+  };
+
+  const handleExportPivot = () => {
+      downloadCSV(buildSectorPivotCSV(pivotData, period, customMetrics), `matriz_setores_${period.currentMonth}.csv`);
+  };
+
+  // --- RETURNS ---
+  const [returnsView, setReturnsView] = useState<ReturnsView>('product');
+  const [returnThreshold, setReturnThreshold] = useState<number>(() => getReturnRateThreshold());
+  const returnLinks = useMemo(() => linkReturnsToSales(historyData, period), [historyData, period]);
+  const returnsRows = useMemo(() => {
+      const term = searchTerm.toLowerCase();
+      if (returnsView === 'links') {
+          return returnLinks.filter(l => !term || l.companyName.toLowerCase().includes(term) || l.productDesc.toLowerCase().includes(term) || l.cnpj.includes(term) || l.productCode.toLowerCase().includes(term));
+      }
+      return getReturnsBreakdown(fullPeriodData, period, returnsView, returnThreshold)
+          .filter(row => !term || row.name.toLowerCase().includes(term) || row.id.toLowerCase().includes(term));
+  }, [returnsView, returnLinks, fullPeriodData, period, returnThreshold, searchTerm]);
+  const returnsSummary = useMemo(() => {
+      const baselineRates = period.baseline.ranges.map(range => getReturnRate(fullPeriodData.filter(r => isDateInRange(r.date, range))));
+      // Alerta do resumo: clientes e SKUs acima do limite
+      const flagged = (['product', 'client'] as const).reduce((acc, dim) => acc + getReturnsBreakdown(fullPeriodData, period, dim, returnThreshold).filter(row => row.flagged).length, 0);
+      return {
+          returnValue: returnLinks.reduce((acc, l) => acc + l.amount, 0),
+          returnRate: getReturnRate(currentMonthData),
+          baselineReturnRate: baselineRates.length > 0 ? baselineRates.reduce((a, b) => a + b, 0) / baselineRates.length : 0,
+          flagged,
+          linkedShare: returnLinks.length > 0 ? (returnLinks.filter(l => l.match !== 'none').length / returnLinks.length) * 100 : 0
+      };
+  }, [fullPeriodData, currentMonthData, period, returnLinks, returnThreshold]);
+
+  const handleReturnThresholdChange = (value: number) => {
+      setReturnThreshold(value);
+      setReturnRateThreshold(value);
+  };
+
+  // --- ALERTAS ---
+  const [alertSettings, setAlertSettings] = useState<AlertSettings>(() => loadAlertSettings());
+  const [dismissedAlerts, setDismissedAlerts] = useState<string[]>(() => loadDismissedAlerts());
+  const [isAlertsOpen, setIsAlertsOpen] = useState(false);
+  const anomalyAlerts = useMemo(() => getAnomalyAlerts({
+      clients: allClientStats,
+      suppliers: allSupplierStats,
+      reps: repStats,
+      pivot: pivotData,
+      returns: {
+          client: getReturnsBreakdown(fullPeriodData, period, 'client', returnThreshold),
+          rep: getReturnsBreakdown(fullPeriodData, period, 'rep', returnThreshold)
+      },
+      returnThreshold,
+      period,
+      progress: isMonthInProgress && monthForecast.totalDays > 0 ? monthForecast.elapsedDays / monthForecast.totalDays : 1
+  }, alertSettings), [allClientStats, allSupplierStats, repStats, pivotData, fullPeriodData, period, returnThreshold, isMonthInProgress, monthForecast, alertSettings]);
+  const pendingAlertCount = useMemo(() => {
+      const dismissed = new Set(dismissedAlerts);
+      return anomalyAlerts.filter(a => a.severity !== 'info' && !dismissed.has(a.id)).length;
+  }, [anomalyAlerts, dismissedAlerts]);
+
+  const updateDismissedAlerts = (ids: string[]) => {
+      setDismissedAlerts(ids);
+      saveDismissedAlerts(ids);
+  };
+
+  // --- MIX / CROSS-SELL ---
+  // Regras por pedido (pares de todos os pedidos) só são calculadas com a aba Mix aberta ou quando a IA gera
+  // insights, e ficam guardadas enquanto a base filtrada não muda; por cliente só quando a aba pede
+  const orderBasketCache = useRef<{ data: SaleRecord[], rules: AssociationRule[] } | null>(null);
+  const getOrderBasketRules = (): AssociationRule[] => {
+      if (orderBasketCache.current?.data !== fullPeriodData) {
+          orderBasketCache.current = { data: fullPeriodData, rules: getAssociationRules(fullPeriodData, 'order') };
+      }
+      return orderBasketCache.current.rules;
+  };
+  const [mixView, setMixView] = useState<MixView>('opportunities');
+  const [mixBasketKey, setMixBasketKey] = useState<BasketKey>('order');
+  const [mixRep, setMixRep] = useState<string>('');
+  const mixRules = useMemo(() => {
+      if (activeTab !== 'mix') return [];
+      return mixBasketKey === 'order' ? getOrderBasketRules() : getAssociationRules(fullPeriodData, 'client');
+      // getOrderBasketRules muda a cada render, mas só depende de fullPeriodData (já listado) e do cache em ref
+  }, [mixBasketKey, fullPeriodData, activeTab]);
+  const crossSellOpportunities = useMemo(() => activeTab === 'mix' ? getCrossSellOpportunities(fullPeriodData, mixRules) : [], [activeTab, fullPeriodData, mixRules]);
+  const mixReps = useMemo(() => Array.from(new Set(crossSellOpportunities.map(o => o.salesRep).filter(Boolean))).sort(), [crossSellOpportunities]);
+  const mixRows = useMemo(() => {
+      const term = searchTerm.toLowerCase();
+      if (mixView === 'rules') {
+          return mixRules.filter(r => !term || r.antecedentDesc.toLowerCase().includes(term) || r.consequentDesc.toLowerCase().includes(term) || r.antecedent.toLowerCase().includes(term) || r.consequent.toLowerCase().includes(term));
+      }
+      return crossSellOpportunities.filter(o =>
+          (!mixRep || o.salesRep === mixRep) &&
+          (!term || o.companyName.toLowerCase().includes(term) || o.cnpj.includes(term) || o.suggestedDesc.toLowerCase().includes(term) || o.productDesc.toLowerCase().includes(term))
+      );
+  }, [mixView, mixRules, crossSellOpportunities, mixRep, searchTerm]);
+
+  // --- PAYMENT TERMS ---
+  const paymentTermsBreakdown = useMemo(() => activeTab === 'terms' ? getPaymentTermsBreakdown(fullPeriodData, period) : [], [activeTab, fullPeriodData, period]);
+  const unparsedPaymentTerms = useMemo(() => activeTab === 'terms' ? getUnparsedPaymentTerms(fullPeriodData) : [], [activeTab, fullPeriodData]);
+  const paymentTermsRows = useMemo(() => {
+      const term = searchTerm.toLowerCase();
+      return paymentTermsBreakdown.filter(row => !term || row.label.toLowerCase().includes(term) || row.rawValues.some(v => v.toLowerCase().includes(term)));
+  }, [paymentTermsBreakdown, searchTerm]);
+  const paymentTermsSummary = useMemo(() => {
+      const shareOf = (kind: PaymentTermKind) => paymentTermsBreakdown.filter(row => row.kind === kind).reduce((acc, row) => acc + row.share, 0);
+      return { avgTerm: currentMonthKPIs.avgTerm, avgInstallments: currentMonthKPIs.avgInstallments, cashShare: shareOf('cash'), unparsedShare: shareOf('unparsed') };
+  }, [paymentTermsBreakdown, currentMonthKPIs]);
+
+  // --- ENTITY DETAIL ---
+  const currentDetailRef = detailStack[detailStack.length - 1];
+  const entityDetail = useMemo(() => currentDetailRef ? getEntityDetail(fullPeriodData, currentDetailRef, period, kpiRules) : null, [fullPeriodData, currentDetailRef, period, kpiRules]);
+
+  const openDetail = (ref: EntityRef) => {
+      setDetailStack(prev => [...prev, ref]);
+      window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  // Setor não tem tela de detalhe: o alerta filtra o painel pelo setor
+  const handleOpenAlert = (alert: AnomalyAlert) => {
+      setIsAlertsOpen(false);
+      if (alert.target.type === 'sector') {
+          setDetailStack([]);
+          handleFilterChange('sector', [alert.target.id], 'include');
+      } else {
+          openDetail(alert.target);
+      }
+  };
+
+  const matchesAbcFilter = <T,>(rows: T[], idFn: (row: T) => string): T[] => {
+      if (!abcClassFilter || !abcAnalysis) return rows;
+      return rows.filter(row => abcAnalysis.classes[idFn(row)] === abcClassFilter);
+  };
 
   const getCurrentTableData = () => {
       switch(activeTab) {
-          case 'clients': return clientStats;
-          case 'products': return productStats;
-          case 'suppliers': return supplierStats;
+          case 'clients': return matchesAbcFilter(clientStats, (s: EntityStats) => s.id);
+          case 'products': return matchesAbcFilter(productStats, (p: ProductStats) => p.code);
+          case 'suppliers': return matchesAbcFilter(supplierStats, (s: EntityStats) => s.id);
           case 'redes': return networksStats;
+          case 'reps': return repScorecards;
+          case 'churn': return filteredChurnClients;
+          case 'returns': return returnsRows;
+          case 'mix': return mixRows;
+          case 'terms': return paymentTermsRows;
           default: return [];
       }
   };
@@ -279,17 +938,19 @@ function App() {
   const handleExportCSV = () => {
       const data = getCurrentTableData();
       if (data.length === 0) return;
-      
-      const headers = Object.keys(data[0]).join(',');
-      const rows = data.map(row => Object.values(row).map(val => `"${val}"`).join(',')).join('\n');
-      const csvContent = `data:text/csv;charset=utf-8,${headers}\n${rows}`;
-      const encodedUri = encodeURI(csvContent);
-      const link = document.createElement("a");
-      link.setAttribute("href", encodedUri);
-      link.setAttribute("download", `export_${activeTab}_${new Date().toISOString().slice(0,10)}.csv`);
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
+      // Scorecards têm campos aninhados: exporta a visão achatada
+      const csv = activeTab === 'reps' ? buildRepScorecardsTableCSV(repScorecards, customMetrics) : buildTableCSV(data);
+      downloadCSV(csv, `export_${activeTab}_${new Date().toISOString().slice(0,10)}.csv`);
+  };
+
+  const [linkCopied, setLinkCopied] = useState(false);
+  const handleCopyLink = () => {
+      navigator.clipboard.writeText(window.location.href)
+          .then(() => {
+              setLinkCopied(true);
+              setTimeout(() => setLinkCopied(false), 2000);
+          })
+          .catch(() => window.prompt('Copie o link:', window.location.href));
   };
 
   const handleSetupComplete = () => {
@@ -306,12 +967,38 @@ function App() {
       setIsSetupComplete(true);
   };
 
-  const handleFilterChange = (key: keyof FilterState, value: string) => {
-    setFilters(prev => ({ ...prev, [key]: value === 'all' ? [] : [value] }));
+  // Modo escolhido no seletor mesmo antes de marcar valores; com exclusões ativas o modo é sempre "excluir"
+  const [filterModes, setFilterModes] = useState<Partial<Record<FilterDimension, FilterMode>>>({});
+  const getFilterMode = (dim: FilterDimension): FilterMode =>
+    (filters.exclude[dim] || []).length > 0 ? 'exclude' : filterModes[dim] || 'include';
+
+  const handleFilterChange = (dim: FilterDimension, values: string[], mode: FilterMode = getFilterMode(dim)) => {
+    setFilters(prev => ({
+      ...prev,
+      [dim]: mode === 'include' ? values : [],
+      exclude: { ...prev.exclude, [dim]: mode === 'exclude' ? values : [] }
+    }));
+  };
+
+  // Troca de modo leva a seleção junto: "só X" vira "todos exceto X"
+  const handleFilterModeChange = (dim: FilterDimension, mode: FilterMode) => {
+    const current = getFilterMode(dim) === 'exclude' ? filters.exclude[dim] || [] : filters[dim];
+    setFilterModes(prev => ({ ...prev, [dim]: mode }));
+    handleFilterChange(dim, current, mode);
   };
 
+  const hasAdditionalFilters = ADDITIONAL_FILTERS.some(({ key: dim }) => filters[dim].length > 0 || (filters.exclude[dim] || []).length > 0);
+
   const clearFilters = () => {
-    setFilters(prev => ({ ...prev, sector: [], salesRep: [], supplier: [] }));
+    setFilterModes({});
+    setFilters(prev => {
+      const next = { ...prev, exclude: { ...prev.exclude } };
+      ADDITIONAL_FILTERS.forEach(({ key }) => {
+        next[key] = [];
+        next.exclude[key] = [];
+      });
+      return next;
+    });
   };
 
   const handleUploadClick = () => fileInputRef.current?.click();
@@ -322,22 +1009,185 @@ function App() {
     reader.onload = (e) => {
       const text = e.target?.result as string;
       if (text) {
-        const newData = parseCSV(text);
-        setAllData(newData);
-        setIsSetupComplete(false);
-        setSelectedChannels([]);
-        setSelectedRegions([]);
-        setSelectedDivisions([]);
+        setPendingUpload({ fileName: file.name, text, headers: detectCSVHeaders(text) });
       }
     };
     reader.readAsText(file);
     if (fileInputRef.current) fileInputRef.current.value = '';
   };
 
+  const handleMappingConfirm = (mapping: ColumnMapping, profileName: string) => {
+    if (!pendingUpload) return;
+    setActiveProfileName(profileName);
+    const result = parseCSVWithReport(pendingUpload.text, `Arquivo: ${pendingUpload.fileName}`, mapping);
+    const fileName = pendingUpload.fileName;
+    setPendingUpload(null);
+    if (allData.length === 0) {
+      completeUpload(result, { name: fileName, fileName, mappingProfile: profileName || undefined });
+    } else {
+      setPendingMerge({ fileName, result, profileName });
+    }
+  };
+
+  // O resultado vira uma fonte local, ativa a partir de agora
+  const completeUpload = (result: ImportResult, source: Omit<DataSourceConfig, 'id' | 'kind'>, reuseSourceId?: string) => {
+    const config: DataSourceConfig = { ...source, id: reuseSourceId || createSourceId('localFile'), kind: 'localFile' };
+    registerLocalDataset(config.id, result);
+    persistDataset(config, result);
+    setDataSources(prev => prev.some(s => s.id === config.id) ? prev.map(s => s.id === config.id ? config : s) : [...prev, config]);
+    updateSourceState(config.id, { status: 'ready', lastSyncAt: result.report.importedAt, recordCount: result.records.length, error: undefined });
+    setActiveSource(config.id);
+    applyImport(result);
+    setIsReportOpen(result.report.rejectedRows.length > 0);
+    resetSetup();
+  };
+
+  const handleMergeReplaceAll = () => {
+    if (!pendingMerge) return;
+    const { fileName, result, profileName } = pendingMerge;
+    setPendingMerge(null);
+    completeUpload(result, { name: fileName, fileName, mappingProfile: profileName || undefined });
+  };
+
+  const handleMergeAppend = (resolutions: Record<string, MonthConflictResolution>) => {
+    if (!pendingMerge) return;
+    const { fileName, result } = pendingMerge;
+    setPendingMerge(null);
+    const merge = mergeDatasets(allData, result.records, resolutions, createSourceId('localFile'));
+    const summary = `Mesclado à base "${activeSource?.name || '-'}": ${merge.added} registros adicionados, ${merge.duplicatesSkipped} duplicados ignorados` +
+      (merge.replacedMonths.length > 0 ? `, ${merge.removed} registros substituídos (${merge.replacedMonths.map(formatMonthLong).join(', ')})` : '');
+    // O relatório continua sendo o do arquivo (linhas lidas/importadas dele); o total da base combinada vai no resumo
+    const merged: ImportResult = {
+      records: merge.records,
+      report: { ...result.report, source: `${result.report.source} (contagens do arquivo, somado à base)`, warnings: [...result.report.warnings, `${summary}. Base combinada: ${merge.records.length} registros.`] }
+    };
+    // Somar a um arquivo local atualiza a própria fonte; somar a uma planilha cria uma base local combinada
+    const name = `${activeSource?.name || 'Base'} + ${fileName}`;
+    const reuseId = activeSource?.kind === 'localFile' ? activeSource.id : undefined;
+    completeUpload(merged, { name, fileName: name }, reuseId);
+  };
+
+  const mappingModal = pendingUpload && (
+      <ColumnMappingModal
+          fileName={pendingUpload.fileName}
+          csvText={pendingUpload.text}
+          headers={pendingUpload.headers}
+          profiles={mappingProfiles}
+          initialProfileName={getActiveProfileName()}
+          onConfirm={handleMappingConfirm}
+          onCancel={() => setPendingUpload(null)}
+          onSaveProfile={(name, mapping) => setMappingProfiles(saveMappingProfile(name, mapping))}
+          onDeleteProfile={(name) => setMappingProfiles(deleteMappingProfile(name))}
+      />
+  );
+
+  const reportModal = importReport && isReportOpen && (
+      <ImportReportPanel report={importReport} onClose={() => setIsReportOpen(false)} />
+  );
+  const reportIssues = importReport ? countReportIssues(importReport) : 0;
+
+  const mergeModal = pendingMerge && (
+      <MergeDialog
+          fileName={pendingMerge.fileName}
+          incomingCount={pendingMerge.result.records.length}
+          existingCount={allData.length}
+          existingSourceName={activeSource?.name || '-'}
+          overlaps={detectMonthOverlaps(allData, pendingMerge.result.records)}
+          onReplaceAll={handleMergeReplaceAll}
+          onAppend={handleMergeAppend}
+          onCancel={() => setPendingMerge(null)}
+      />
+  );
+
+  const sourcesModal = isSourcesOpen && (
+      <DataSourcesPanel
+          sources={dataSources}
+          states={sourceStates}
+          activeSourceId={activeSourceId}
+          profiles={mappingProfiles}
+          onActivate={handleActivateSource}
+          onSync={handleSyncSource}
+          onSave={handleSaveSource}
+          onRemove={handleRemoveSource}
+          onClose={() => setIsSourcesOpen(false)}
+      />
+  );
+  const presetsModal = isPresetsOpen && (
+      <PresetsPanel
+          presets={filterPresets}
+          defaultPresetName={defaultPresetName}
+          onApply={handleApplyPreset}
+          onSaveCurrent={(name) => setFilterPresets(saveFilterPreset(name, getFilterDimensions(filters), getFilterExclusions(filters), activeTab))}
+          onRename={(oldName, newName) => { setFilterPresets(renameFilterPreset(oldName, newName)); setDefaultPreset(getDefaultPresetName()); }}
+          onDelete={(name) => { setFilterPresets(deleteFilterPreset(name)); setDefaultPreset(getDefaultPresetName()); }}
+          onSetDefault={(name) => { setDefaultPresetName(name); setDefaultPreset(name); }}
+          onImport={handleImportPresets}
+          onClose={() => setIsPresetsOpen(false)}
+      />
+  );
+  const goalsModal = isGoalsOpen && (
+      <GoalsPanel
+          goals={salesGoals}
+          initialMonth={period.currentMonth}
+          availableMonths={availableMonths}
+          options={goalOptions}
+          onSave={(goal) => setSalesGoals(saveSalesGoal(goal))}
+          onDelete={(goal) => setSalesGoals(deleteSalesGoal(goal))}
+          onImport={handleImportGoals}
+          onClose={() => setIsGoalsOpen(false)}
+      />
+  );
+  const calendarModal = isCalendarOpen && (
+      <CalendarPanel
+          settings={calendarSettings}
+          referenceMonth={period.currentMonth}
+          onChange={handleCalendarChange}
+          onClose={() => setIsCalendarOpen(false)}
+      />
+  );
+  const alertsModal = isAlertsOpen && (
+      <AlertsPanel
+          alerts={anomalyAlerts}
+          dismissed={dismissedAlerts}
+          settings={alertSettings}
+          onSettingsChange={(settings) => setAlertSettings(saveAlertSettings(settings))}
+          onOpen={handleOpenAlert}
+          onDismiss={(ids) => updateDismissedAlerts([...dismissedAlerts.filter(id => !ids.includes(id)), ...ids])}
+          onRestore={(id) => updateDismissedAlerts(dismissedAlerts.filter(d => d !== id))}
+          onClose={() => setIsAlertsOpen(false)}
+      />
+  );
+  const metricsModal = isMetricsOpen && (
+      <MetricsPanel
+          rules={kpiRules}
+          customMetrics={customMetrics}
+          previewKpis={currentMonthKPIs}
+          onRulesChange={(rules) => setKpiRules(saveKpiRules(rules))}
+          onCustomMetricsChange={(metrics) => setCustomMetrics(saveCustomMetrics(metrics))}
+          onClose={() => setIsMetricsOpen(false)}
+      />
+  );
+  const scorecardModal = scorecard && (
+      <RepScorecardPanel
+          card={scorecard}
+          period={period}
+          clientNames={clientNames}
+          onOpenDetail={() => { setScorecardRepId(null); openDetail({ type: 'rep', id: scorecard.id }); }}
+          onClose={() => setScorecardRepId(null)}
+      />
+  );
+  const activeSourceState = activeSource ? sourceStates[activeSource.id] : undefined;
+  const staleLabel = staleSince && `Dados desatualizados (${new Date(staleSince).toLocaleString('pt-BR', { day: '2-digit', month: '2-digit', hour: '2-digit', minute: '2-digit' })})${activeSourceState?.status === 'loading' ? ' · atualizando...' : ''}`;
+
   if (!isSetupComplete) {
       return (
           <div className="min-h-screen bg-background flex flex-col items-center justify-center p-4 relative overflow-hidden">
               <input type="file" ref={fileInputRef} onChange={handleFileChange} accept=".csv" className="hidden" />
+              {mappingModal}
+              {mergeModal}
+              {reportModal}
+              {sourcesModal}
+              {presetsModal}
               <div className="absolute top-[-10%] left-[-10%] w-[40%] h-[40%] bg-primary/10 blur-[120px] rounded-full"></div>
               <div className="absolute bottom-[-10%] right-[-10%] w-[40%] h-[40%] bg-secondary/10 blur-[120px] rounded-full"></div>
               <div className="bg-card border border-white/5 p-8 sm:p-12 rounded-2xl shadow-2xl max-w-lg w-full z-10 backdrop-blur-sm">
@@ -355,11 +1205,29 @@ function App() {
                        </div>
                   ) : (
                       <div className="space-y-6">
+                          {filterPresets.length > 0 && (
+                              <div className="flex items-center gap-2 bg-background/60 border border-white/5 rounded-lg p-3">
+                                  <span className="text-[10px] font-bold text-primary uppercase tracking-wider whitespace-nowrap">Usar preset</span>
+                                  <select className="flex-1 bg-background border border-white/10 text-white text-xs rounded-lg p-2 outline-none focus:border-primary appearance-none" value="" onChange={(e) => { const preset = filterPresets.find(p => p.name === e.target.value); if (preset) handleApplyPreset(preset); }}>
+                                      <option value="">Selecione...</option>
+                                      {filterPresets.map(p => <option key={p.name} value={p.name}>{p.name}{p.name === defaultPresetName ? ' (padrão)' : ''}</option>)}
+                                  </select>
+                                  <button onClick={() => setIsPresetsOpen(true)} className="text-[10px] text-text-dim hover:text-white underline whitespace-nowrap">Gerenciar</button>
+                              </div>
+                          )}
                           <MultiSelectDropdown label="Selecione os Canais" options={availableChannels} selected={selectedChannels} onChange={(newSelected) => { setSelectedChannels(newSelected); setSelectedRegions([]); setSelectedDivisions([]); }} />
                           <MultiSelectDropdown label="Selecione as Regiões" options={availableRegions} selected={selectedRegions} onChange={(newSelected) => { setSelectedRegions(newSelected); setSelectedDivisions([]); }} disabled={selectedChannels.length === 0} />
                           <MultiSelectDropdown label="Selecione as Divisões" options={availableDivisions} selected={selectedDivisions} onChange={setSelectedDivisions} disabled={selectedRegions.length === 0} />
                           <button onClick={handleSetupComplete} disabled={selectedChannels.length === 0 || selectedRegions.length === 0 || selectedDivisions.length === 0} className="w-full bg-primary text-background font-bold py-4 rounded-lg mt-4 hover:bg-primary/90 transition-all shadow-[0_0_20px_rgba(226,246,78,0.2)] disabled:opacity-50 disabled:shadow-none uppercase tracking-wide">Acessar Dashboard</button>
-                          <div className="text-center mt-6"><button onClick={handleUploadClick} className="text-[10px] text-text-dim hover:text-white underline">Carregar arquivo CSV manual</button></div>
+                          {staleLabel && <div className="text-[10px] text-warning text-center">{staleLabel}</div>}
+                          {activeSourceState?.status === 'error' && (
+                              <div className="text-[10px] text-danger bg-danger/10 border border-danger/30 rounded-lg p-3">Falha ao carregar "{activeSource?.name}": {activeSourceState.error}</div>
+                          )}
+                          <div className="text-center mt-6 flex justify-center gap-4">
+                              <button onClick={() => setIsSourcesOpen(true)} className="text-[10px] text-text-dim hover:text-white underline">Fontes de dados ({activeSource?.name || '-'})</button>
+                              <button onClick={handleUploadClick} className="text-[10px] text-text-dim hover:text-white underline">Carregar arquivo CSV manual</button>
+                              {importReport && <button onClick={() => setIsReportOpen(true)} className={`text-[10px] underline ${reportIssues > 0 ? 'text-warning hover:text-white' : 'text-text-dim hover:text-white'}`}>Relatório de importação{reportIssues > 0 ? ` (${reportIssues})` : ''}</button>}
+                          </div>
                       </div>
                   )}
               </div>
@@ -372,10 +1240,34 @@ function App() {
   const fmtCurrency1 = (v: number) => `R$ ${v.toLocaleString('pt-BR', { minimumFractionDigits: 1, maximumFractionDigits: 1 })}`;
   const fmtNumber1 = (v: number) => v.toLocaleString('pt-BR', { minimumFractionDigits: 1, maximumFractionDigits: 1 });
   const fmtInt = (v: number) => Math.round(v).toLocaleString('pt-BR');
+  const fmtCurrency0 = (v: number) => `R$ ${v.toLocaleString('pt-BR', { maximumFractionDigits: 0 })}`;
+
+  const buildProjection = (metric: ForecastMetric, format: (v: number) => string) => {
+      const forecast = monthForecast.metrics[metric];
+      return {
+          value: format(forecast.projected),
+          range: forecast.method === 'curve' ? `${format(forecast.low)} – ${format(forecast.high)}` : undefined,
+          trend: calcTrend(forecast.projected, forecast.baseline)
+      };
+  };
+
+  // Period labels
+  const currentLabel = formatMonthShort(period.currentMonth);
+  const trendLabel = `vs. ${period.baseline.label}`;
 
   return (
     <div className="min-h-screen bg-background text-text-main font-sans selection:bg-primary selection:text-background">
       <input type="file" ref={fileInputRef} onChange={handleFileChange} accept=".csv" className="hidden" />
+      {mappingModal}
+      {mergeModal}
+      {reportModal}
+      {sourcesModal}
+      {presetsModal}
+      {goalsModal}
+      {calendarModal}
+      {alertsModal}
+      {metricsModal}
+      {scorecardModal}
       <header className="bg-card/80 backdrop-blur-md border-b border-white/5 sticky top-0 z-30">
         <div className="max-w-[1920px] mx-auto px-4 sm:px-6 h-20 flex items-center justify-between">
             <div className="flex items-center gap-4">
@@ -387,12 +1279,37 @@ function App() {
                       <div className="hidden sm:block w-px h-3 bg-white/10"></div>
                       <div className="flex items-center gap-1.5"><span className="text-[10px] text-text-dim uppercase tracking-wider font-semibold">Região: <span className="text-white">{filters.region.length > 3 ? `${filters.region.length} selecionadas` : filters.region.join(', ')}</span></span></div>
                       <div className="hidden sm:block w-px h-3 bg-white/10"></div>
-                      <div className="flex items-center gap-1.5"><span className="text-[10px] text-text-dim uppercase tracking-wider font-semibold text-primary">Novembro 2025</span></div>
+                      <div className="flex items-center gap-1.5"><span className="text-[10px] text-text-dim uppercase tracking-wider font-semibold text-primary">{formatMonthLong(period.currentMonth)}</span></div>
+                      {staleLabel && (
+                        <>
+                          <div className="hidden sm:block w-px h-3 bg-white/10"></div>
+                          <div className="flex items-center gap-1.5" title="Exibindo a última base salva neste navegador"><span className={`w-1.5 h-1.5 rounded-full bg-warning ${activeSourceState?.status === 'loading' ? 'animate-pulse' : ''}`}></span><span className="text-[10px] text-warning uppercase tracking-wider font-semibold">{staleLabel}</span></div>
+                        </>
+                      )}
                     </div>
                 </div>
             </div>
             <div className="flex items-center gap-4">
+                <PeriodSelector selection={periodSelection} availableMonths={availableMonths} period={period} onChange={setPeriodSelection} />
+                <button onClick={() => setIsPresetsOpen(true)} className="hidden lg:block text-xs text-text-dim hover:text-white transition-colors uppercase tracking-wider font-semibold" title="Presets de filtros">Presets</button>
+                <button onClick={() => setIsGoalsOpen(true)} className="hidden lg:block text-xs text-text-dim hover:text-white transition-colors uppercase tracking-wider font-semibold" title="Metas de vendas">Metas</button>
+                <button onClick={() => setIsAlertsOpen(true)} className="hidden lg:flex items-center gap-1.5 text-xs text-text-dim hover:text-white transition-colors uppercase tracking-wider font-semibold" title="Alertas de anomalias">
+                    Alertas
+                    {pendingAlertCount > 0 && <span className="min-w-[18px] px-1 py-0.5 rounded-full bg-danger text-white text-[9px] font-bold text-center leading-none">{pendingAlertCount}</span>}
+                </button>
+                <button onClick={() => setIsMetricsOpen(true)} className="hidden lg:block text-xs text-text-dim hover:text-white transition-colors uppercase tracking-wider font-semibold" title="Regras de cálculo e métricas personalizadas">Indicadores</button>
+                <button onClick={() => setIsCalendarOpen(true)} className="hidden lg:block text-xs text-text-dim hover:text-white transition-colors uppercase tracking-wider font-semibold" title="Feriados e dias úteis">Calendário</button>
+                <button onClick={handleCopyLink} className="hidden lg:block text-xs text-text-dim hover:text-white transition-colors uppercase tracking-wider font-semibold" title="Copiar link com os filtros atuais">{linkCopied ? 'Link copiado' : 'Copiar link'}</button>
                 <button onClick={() => setIsSetupComplete(false)} className="text-xs text-text-dim hover:text-white transition-colors mr-2 uppercase tracking-wider font-semibold">Alterar Filtros</button>
+                <button onClick={() => setIsSourcesOpen(true)} className="hidden md:flex items-center gap-2 px-3 py-2 bg-white/5 hover:bg-white/10 text-white border border-white/10 rounded-md text-xs font-bold transition-all uppercase tracking-wide max-w-[200px]" title="Fontes de dados">
+                    <span className={`w-1.5 h-1.5 rounded-full flex-shrink-0 ${activeSourceState?.status === 'error' ? 'bg-danger' : activeSourceState?.status === 'loading' ? 'bg-secondary animate-pulse' : 'bg-success'}`}></span>
+                    <span className="truncate">{activeSource?.name || 'Fontes'}</span>
+                </button>
+                {importReport && (
+                    <button onClick={() => setIsReportOpen(true)} className={`hidden md:flex items-center gap-2 px-3 py-2 border rounded-md text-xs font-bold transition-all uppercase tracking-wide ${reportIssues > 0 ? 'bg-warning/10 border-warning/30 text-warning hover:bg-warning/20' : 'bg-white/5 border-white/10 text-white hover:bg-white/10'}`} title="Relatório de importação">
+                        Importação{reportIssues > 0 && <span className="font-mono">({reportIssues})</span>}
+                    </button>
+                )}
                 <button onClick={handleUploadClick} className="hidden md:flex items-center gap-2 px-4 py-2 bg-white/5 hover:bg-white/10 text-white border border-white/10 rounded-md text-xs font-bold transition-all uppercase tracking-wide"><UploadIcon /> CSV</button>
             </div>
         </div>
@@ -401,64 +1318,119 @@ function App() {
       <main className="max-w-[1920px] mx-auto px-4 sm:px-6 py-8">
         <div className="bg-card rounded-xl border border-white/5 mb-8 overflow-hidden">
             <div className="px-6 py-4 bg-card border-b border-white/5 flex items-center justify-between cursor-pointer select-none hover:bg-white/5 transition-colors" onClick={() => setIsFiltersOpen(!isFiltersOpen)}>
-                <div className="flex items-center gap-2 text-primary font-bold text-xs uppercase tracking-widest"><FilterIcon /><span>Filtros Adicionais (Setor, Rep, Fornecedor)</span></div>
+                <div className="flex items-center gap-2 text-primary font-bold text-xs uppercase tracking-widest"><FilterIcon /><span>Filtros Adicionais</span></div>
                 <div className="flex items-center gap-2">
-                    {(filters.sector.length > 0 || filters.salesRep.length > 0 || filters.supplier.length > 0) && (<button onClick={(e) => { e.stopPropagation(); clearFilters(); }} className="text-[10px] text-background bg-primary hover:bg-primary/80 font-bold px-3 py-1.5 rounded transition-colors">LIMPAR</button>)}
+                    {hasAdditionalFilters && (<button onClick={(e) => { e.stopPropagation(); clearFilters(); }} className="text-[10px] text-background bg-primary hover:bg-primary/80 font-bold px-3 py-1.5 rounded transition-colors">LIMPAR</button>)}
                     <svg className={`w-4 h-4 text-text-dim transition-transform ${isFiltersOpen ? 'rotate-180' : ''}`} fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" /></svg>
                 </div>
             </div>
             {isFiltersOpen && (
                 <div className="p-6 grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6 bg-card">
-                     {[ { label: 'Setor', key: 'sector', options: filterOptions.sectors }, { label: 'Representante', key: 'salesRep', options: filterOptions.reps }, { label: 'Fornecedor', key: 'supplier', options: filterOptions.suppliers }].map((filter) => (
-                        <div key={filter.key}>
-                            <label className="block text-[10px] font-bold text-text-dim uppercase tracking-wider mb-2 flex justify-between">{filter.label} <span className="text-primary/50">({filter.options.length})</span></label>
-                            <div className="relative">
-                              <select className="w-full bg-background border border-white/10 text-white text-xs rounded-lg block p-3 focus:border-primary focus:ring-1 focus:ring-primary outline-none transition-colors appearance-none" value={filters[filter.key as keyof FilterState][0] || 'all'} onChange={(e) => handleFilterChange(filter.key as keyof FilterState, e.target.value)}>
-                                  <option value="all">Todos</option>
-                                  {filter.options.map((opt: string) => <option key={opt} value={opt}>{opt}</option>)}
-                              </select>
-                            </div>
-                        </div>
-                    ))}
+                     {ADDITIONAL_FILTERS.map((filter) => {
+                        const mode = getFilterMode(filter.key);
+                        const options = filterOptions[filter.optionsKey];
+                        return (
+                            <MultiSelectDropdown
+                                key={filter.key}
+                                label={`${filter.label} (${options.length})`}
+                                options={options}
+                                selected={mode === 'exclude' ? filters.exclude[filter.key] || [] : filters[filter.key]}
+                                onChange={(values) => handleFilterChange(filter.key, values)}
+                                mode={mode}
+                                onModeChange={(newMode) => handleFilterModeChange(filter.key, newMode)}
+                                optionLabels={filterOptionLabels[filter.key]}
+                            />
+                        );
+                    })}
                 </div>
             )}
         </div>
 
+        {entityDetail ? (
+            <EntityDetailView
+                key={`${entityDetail.ref.type}:${entityDetail.ref.id}`}
+                detail={entityDetail}
+                breadcrumb={[
+                    { label: `Dashboard · ${TAB_LABELS[activeTab]}`, onClick: () => setDetailStack([]) },
+                    ...detailStack.slice(0, -1).map((ref, i) => ({ label: getEntityName(fullPeriodData, ref), onClick: () => setDetailStack(detailStack.slice(0, i + 1)) }))
+                ]}
+                currentLabel={currentLabel}
+                trendLabel={trendLabel}
+                onNavigate={openDetail}
+            />
+        ) : (<>
         <div className="grid grid-cols-1 xl:grid-cols-4 gap-8 mb-8">
             <div className="xl:col-span-3 space-y-8">
                 <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-5">
-                    <StatCard title="Faturamento (Nov)" value={`R$ ${currentMonthKPIs.totalRevenue.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`} icon={<span className="text-xl">💰</span>} trend={trends.revenue} trendLabel="vs. Média (3 meses)" />
-                     <StatCard title="Positivação (Nov)" value={`${currentMonthKPIs.positivacao}`} trendLabel="vs. Média (3 meses)" trend={trends.positivacao} icon={<span className="text-xl">👥</span>} />
-                     <StatCard title="Ticket Médio (Nov)" value={`R$ ${currentMonthKPIs.averageTicket.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`} icon={<span className="text-xl">📈</span>} trend={trends.ticket} trendLabel="vs. Média (3 meses)" />
-                     <StatCard title="SKU x PDV (Nov)" value={currentMonthKPIs.skuPerPdv.toFixed(2)} trendLabel="vs. Média (3 meses)" trend={trends.sku} icon={<span className="text-xl">📊</span>} />
+                    <StatCard title={`Faturamento (${currentLabel})`} value={`R$ ${currentMonthKPIs.totalRevenue.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`} icon={<span className="text-xl">💰</span>} trend={trends.revenue} trendLabel={trendLabel} goal={goalAttainments.totalRevenue} goalFormatter={fmtCurrency2} projection={isMonthInProgress ? buildProjection('totalRevenue', fmtCurrency0) : undefined} />
+                     <StatCard title={`Positivação (${currentLabel})`} value={`${currentMonthKPIs.positivacao}`} trendLabel={trendLabel} trend={trends.positivacao} icon={<span className="text-xl">👥</span>} goal={goalAttainments.positivacao} goalFormatter={fmtInt} projection={isMonthInProgress ? buildProjection('positivacao', fmtInt) : undefined} />
+                     <StatCard title={`Ticket Médio (${currentLabel})`} value={`R$ ${currentMonthKPIs.averageTicket.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`} icon={<span className="text-xl">📈</span>} trend={trends.ticket} trendLabel={trendLabel} />
+                     <StatCard title={`SKU x PDV (${currentLabel})`} value={currentMonthKPIs.skuPerPdv.toFixed(2)} trendLabel={trendLabel} trend={trends.sku} icon={<span className="text-xl">📊</span>} goal={goalAttainments.skuPerPdv} goalFormatter={(v) => v.toFixed(2)} />
+                </div>
+
+                {cardMetrics.length > 0 && (
+                    <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-5">
+                        {cardMetrics.map(metric => {
+                            const current = evaluateCustomMetric(metric, currentMonthKPIs);
+                            return <StatCard key={metric.id} title={`${metric.label} (${currentLabel})`} value={formatMetricValue(current, metric.format)} icon={<span className="text-xl">🧮</span>} trend={calcTrend(current, evaluateCustomMetric(metric, baselineKPIs))} trendLabel={trendLabel} />;
+                        })}
+                    </div>
+                )}
+
+                <EvolutionChart monthly={monthlyEvolution} sectorMonthly={sectorMonthlyEvolution} period={period} />
+
+                <div className="flex flex-wrap items-center gap-x-6 gap-y-1 text-[10px] text-text-dim -mt-4">
+                    <span className="flex items-center gap-1.5">
+                        Faturamento por dia útil: <span className="font-mono text-text-main">{fmtCurrency0(businessDayPace.current.revenuePerBusinessDay)}</span>
+                        <TrendIndicator value={calcTrend(businessDayPace.current.revenuePerBusinessDay, businessDayPace.baseline.revenuePerBusinessDay)} />
+                        <span>vs {fmtCurrency0(businessDayPace.baseline.revenuePerBusinessDay)} ({period.baseline.shortLabel})</span>
+                    </span>
+                    {isMonthInProgress && businessDayPace.businessDay > 0 && (
+                        <span className="flex items-center gap-1.5" title="Realizado até o dia útil de corte vs a média do baseline até o mesmo dia útil de cada mês">
+                            Ritmo até o {businessDayPace.businessDay}º dia útil: <TrendIndicator value={businessDayPace.pace} />
+                            <span>vs {fmtCurrency0(businessDayPace.samePointRevenue)} no mesmo ponto</span>
+                        </span>
+                    )}
+                    {isMonthInProgress && (
+                        <span>
+                            Projeção de fechamento: {monthForecast.elapsedDays} de {monthForecast.totalDays} dias úteis (vendas até {monthForecast.asOfDate.split('-').reverse().join('/')}) · {monthForecast.curveMonths >= 2 ? `curva intra-mês de ${monthForecast.curveMonths} meses, faixa ~80%` : 'ritmo por dia útil (histórico insuficiente para a curva)'} · Pedidos: <span className="font-mono text-text-main">{fmtInt(monthForecast.metrics.totalOrders.projected)}</span> ({calcTrend(monthForecast.metrics.totalOrders.projected, monthForecast.metrics.totalOrders.baseline).toFixed(1)}% vs {period.baseline.shortLabel})
+                        </span>
+                    )}
                 </div>
 
                 {/* --- SECTOR MATRIX HEATMAP TABLES --- */}
                 <div className="space-y-6">
-                    <h3 className="text-sm font-bold text-text-dim uppercase tracking-widest mb-4">Análise Matricial por Setor (Evolução Mensal)</h3>
+                    <div className="flex items-center justify-between mb-4">
+                        <h3 className="text-sm font-bold text-text-dim uppercase tracking-widest">Análise Matricial por Setor (Evolução Mensal)</h3>
+                        <button onClick={handleExportPivot} className="text-[10px] text-text-dim hover:text-white uppercase font-bold tracking-wider" title="Matriz com KPIs e métricas personalizadas em CSV">Exportar matriz</button>
+                    </div>
                     
                     <div className="grid grid-cols-1 gap-8">
-                         <KPIPivotTable title="Faturamento (R$)" data={pivotData} dataKey="totalRevenue" formatter={fmtCurrency2} highlightHigh={true} />
-                         <KPIPivotTable title="Positivação (Clientes)" data={pivotData} dataKey="positivacao" formatter={fmtInt} averageFormatter={fmtNumber1} highlightHigh={true} />
-                         <KPIPivotTable title="Pedidos" data={pivotData} dataKey="totalOrders" formatter={fmtInt} averageFormatter={fmtNumber1} highlightHigh={true} />
-                         <KPIPivotTable title="Ticket Médio (R$)" data={pivotData} dataKey="averageTicket" formatter={(v) => `R$ ${v.toLocaleString('pt-BR', {maximumFractionDigits:0})}`} averageFormatter={fmtCurrency1} highlightHigh={true} />
-                         <KPIPivotTable title="SKU x PDV" data={pivotData} dataKey="skuPerPdv" formatter={(v) => v.toFixed(2)} averageFormatter={fmtNumber1} highlightHigh={true} />
-                         <KPIPivotTable title="Prazo Médio (Dias)" data={pivotData} dataKey="avgTerm" formatter={(v) => v.toFixed(0)} averageFormatter={fmtNumber1} highlightHigh={false} />
-                         <KPIPivotTable title="Parcela Média (Vezes)" data={pivotData} dataKey="avgInstallments" formatter={(v) => v.toFixed(1)} averageFormatter={fmtNumber1} highlightHigh={false} />
+                         <KPIPivotTable title="Faturamento (R$)" data={pivotData} period={period} dataKey="totalRevenue" formatter={fmtCurrency2} highlightHigh={true} goals={sectorGoals.totalRevenue} totalGoal={goalTotals.totalRevenue} />
+                         <KPIPivotTable title="Faturamento por Dia Útil (R$)" data={pivotData} period={period} dataKey="totalRevenue" formatter={fmtCurrency0} highlightHigh={true} businessDays={pivotBusinessDays} />
+                         <KPIPivotTable title="Positivação (Clientes)" data={pivotData} period={period} dataKey="positivacao" formatter={fmtInt} averageFormatter={fmtNumber1} highlightHigh={true} goals={sectorGoals.positivacao} totalGoal={goalTotals.positivacao} />
+                         <KPIPivotTable title="Pedidos" data={pivotData} period={period} dataKey="totalOrders" formatter={fmtInt} averageFormatter={fmtNumber1} highlightHigh={true} />
+                         <KPIPivotTable title="Ticket Médio (R$)" data={pivotData} period={period} dataKey="averageTicket" formatter={(v) => `R$ ${v.toLocaleString('pt-BR', {maximumFractionDigits:0})}`} averageFormatter={fmtCurrency1} highlightHigh={true} />
+                         <KPIPivotTable title="SKU x PDV" data={pivotData} period={period} dataKey="skuPerPdv" formatter={(v) => v.toFixed(2)} averageFormatter={fmtNumber1} highlightHigh={true} goals={sectorGoals.skuPerPdv} totalGoal={goalTotals.skuPerPdv} />
+                         <KPIPivotTable title="Prazo Médio (Dias)" data={pivotData} period={period} dataKey="avgTerm" formatter={(v) => v.toFixed(0)} averageFormatter={fmtNumber1} highlightHigh={false} />
+                         <KPIPivotTable title="Parcela Média (Vezes)" data={pivotData} period={period} dataKey="avgInstallments" formatter={(v) => v.toFixed(1)} averageFormatter={fmtNumber1} highlightHigh={false} />
+                         {customMetrics.filter(m => m.showPivot).map(metric => (
+                             <React.Fragment key={metric.id}><KPIPivotTable title={metric.label} data={pivotData} period={period} metric={(stats) => evaluateCustomMetric(metric, stats)} formatter={(v) => formatMetricValue(v, metric.format)} highlightHigh={true} /></React.Fragment>
+                         ))}
                     </div>
                 </div>
             </div>
 
             <div className="xl:col-span-1">
                 <div className="sticky top-28 h-[calc(100vh-8rem)]">
-                    <InsightsPanel kpis={currentMonthKPIs} avgKpis={avgHistoryKPIs} filters={filters} topClients={clientStats.slice(0, 5).map(c => ({ id: c.id, name: c.name, value: c.revenue, subValue: c.orders }))} topProducts={productStats.slice(0, 5).map(p => ({ id: p.code, name: p.desc, value: p.revenue, subValue: p.quantity }))} topReps={topReps} />
+                    <InsightsPanel kpis={currentMonthKPIs} avgKpis={baselineKPIs} filters={filters} period={period} topClients={clientStats.slice(0, 5).map(c => ({ id: c.id, name: c.name, value: c.revenue, subValue: c.orders }))} topProducts={productStats.slice(0, 5).map(p => ({ id: p.code, name: p.desc, value: p.revenue, subValue: p.quantity }))} topReps={topReps} getBasketRules={getOrderBasketRules} />
                 </div>
             </div>
         </div>
 
         <div className="bg-card rounded-xl border border-white/5 overflow-hidden shadow-xl mb-10">
             <div className="p-6 border-b border-white/5 bg-card/50 flex flex-col sm:flex-row sm:items-center justify-between gap-4">
-               <div><h2 className="text-lg font-bold text-white">Análise Detalhada</h2><p className="text-xs text-text-dim">Comparativo de performance: Novembro vs Média (Ago-Out)</p></div>
+               <div><h2 className="text-lg font-bold text-white">Análise Detalhada</h2><p className="text-xs text-text-dim">Comparativo de performance: {formatMonthLong(period.currentMonth)} vs {period.baseline.label}</p></div>
                <div className="flex items-center gap-4">
                    <button onClick={handleExportCSV} className="flex items-center gap-2 px-4 py-2 bg-white/5 hover:bg-white/10 text-white border border-white/10 rounded-md text-xs font-bold transition-all uppercase tracking-wide"><DownloadIcon /> Exportar CSV</button>
                    <div className="relative w-full sm:w-64">
@@ -468,20 +1440,26 @@ function App() {
                </div>
             </div>
             <div className="border-b border-white/5 bg-background/50 px-6 flex gap-8 overflow-x-auto">
-                {[{ id: 'clients', label: 'Clientes' }, { id: 'products', label: 'Produtos' }, { id: 'suppliers', label: 'Fornecedores' }, { id: 'redes', label: 'Redes' }].map(tab => (
-                    <button key={tab.id} onClick={() => { setActiveTab(tab.id as any); setSearchTerm(''); }} className={`py-4 text-xs font-bold uppercase tracking-wider border-b-2 transition-all whitespace-nowrap ${activeTab === tab.id ? 'border-primary text-primary' : 'border-transparent text-text-dim hover:text-white hover:border-white/20'}`}>{tab.label}</button>
+                {(Object.keys(TAB_LABELS) as DashboardTab[]).map(tab => (
+                    <button key={tab} onClick={() => { setActiveTab(tab); setSearchTerm(''); setAbcClassFilter(''); }} className={`py-4 text-xs font-bold uppercase tracking-wider border-b-2 transition-all whitespace-nowrap ${activeTab === tab ? 'border-primary text-primary' : 'border-transparent text-text-dim hover:text-white hover:border-white/20'}`}>{TAB_LABELS[tab]}</button>
                 ))}
             </div>
+            {abcAnalysis && <AbcPanel analysis={abcAnalysis} thresholds={abcThresholds} names={abcNames} classFilter={abcClassFilter} baselineLabel={period.baseline.label} onClassFilterChange={(cls) => { setAbcClassFilter(cls); setCurrentPage(1); }} onThresholdsChange={handleAbcThresholdsChange} />}
             <div className="p-0 bg-background/30">
-                {activeTab === 'clients' && <EntityTable headers={['Cód. Cliente', 'Razão Social', 'Região', 'Setor', 'Faturamento (Nov)', 'SKU x PDV', 'Pedidos', 'Ticket Médio', 'Parc. Média', 'Prazo Médio']} data={paginatedData} type="client" />}
+                {activeTab === 'clients' && <EntityTable headers={['Cód. Cliente', 'Razão Social', 'Região', 'Setor', `Faturamento (${currentLabel})`, 'SKU x PDV', 'Pedidos', 'Ticket Médio', 'Parc. Média', 'Prazo Médio']} data={paginatedData} type="client" abcClasses={abcAnalysis?.classes} onRowClick={(id) => openDetail({ type: 'client', id })} />}
                 {activeTab === 'products' && (
                     <div className="overflow-x-auto max-h-[600px] custom-scrollbar">
-                        <table className="w-full text-sm text-left"><thead className="text-xs text-primary font-bold uppercase bg-card border-b border-white/5 sticky top-0 z-10"><tr><th className="px-6 py-4">Código</th><th className="px-6 py-4">Descrição</th><th className="px-6 py-4">Fornecedor</th><th className="px-6 py-4 text-right">Faturamento</th><th className="px-6 py-4 text-right">Quantidade</th><th className="px-6 py-4 text-right">Clientes</th><th className="px-6 py-4 text-right">Pedidos</th></tr></thead>
-                            <tbody className="divide-y divide-white/5">{paginatedData.map((item: any, idx) => (<tr key={idx} className="hover:bg-white/5 transition-colors group"><td className="px-6 py-4 font-mono text-xs text-text-dim group-hover:text-primary">{item.code}</td><td className="px-6 py-4 font-bold text-text-main group-hover:text-primary uppercase text-xs">{item.desc}</td><td className="px-6 py-4 text-text-dim text-xs uppercase">{item.supplier}</td><td className="px-6 py-4 text-right font-bold text-text-main">R$ {item.revenue.toLocaleString('pt-BR', { minimumFractionDigits: 2 })}</td><td className="px-6 py-4 text-right text-text-dim font-mono">{item.quantity}</td><td className="px-6 py-4 text-right text-text-dim">{item.clientCount}</td><td className="px-6 py-4 text-right text-text-dim">{item.orderCount}</td></tr>))}</tbody></table>
+                        <table className="w-full text-sm text-left"><thead className="text-xs text-primary font-bold uppercase bg-card border-b border-white/5 sticky top-0 z-10"><tr><th className="px-6 py-4">Código</th><th className="px-6 py-4 text-center">Curva</th><th className="px-6 py-4">Descrição</th><th className="px-6 py-4">Fornecedor</th><th className="px-6 py-4 text-right">Faturamento</th><th className="px-6 py-4 text-right">Quantidade</th><th className="px-6 py-4 text-right">Clientes</th><th className="px-6 py-4 text-right">Pedidos</th></tr></thead>
+                            <tbody className="divide-y divide-white/5">{paginatedData.map((item: any, idx) => (<tr key={idx} onClick={() => openDetail({ type: 'product', id: item.code })} className="hover:bg-white/5 transition-colors group cursor-pointer"><td className="px-6 py-4 font-mono text-xs text-text-dim group-hover:text-primary">{item.code}</td><td className="px-6 py-4 text-center"><AbcBadge cls={abcAnalysis?.classes[item.code]} /></td><td className="px-6 py-4 font-bold text-text-main group-hover:text-primary uppercase text-xs">{item.desc}</td><td className="px-6 py-4 text-text-dim text-xs uppercase">{item.supplier}</td><td className="px-6 py-4 text-right font-bold text-text-main">R$ {item.revenue.toLocaleString('pt-BR', { minimumFractionDigits: 2 })}</td><td className="px-6 py-4 text-right text-text-dim font-mono">{item.quantity}</td><td className="px-6 py-4 text-right text-text-dim">{item.clientCount}</td><td className="px-6 py-4 text-right text-text-dim">{item.orderCount}</td></tr>))}</tbody></table>
                     </div>
                 )}
-                {activeTab === 'suppliers' && <EntityTable headers={['Fornecedor', 'Nome', 'Região', 'Setor', 'Faturamento (Nov)', 'Mix (SKUs)', 'Pedidos', 'Ticket Médio', 'Parc. Média', 'Prazo Médio']} data={paginatedData} type="supplier" />}
-                {activeTab === 'redes' && <EntityTable headers={['Rede', 'Nome', 'Região', 'Setor', 'Faturamento (Nov)', 'SKU x PDV', 'Pedidos', 'Ticket Médio', 'Parc. Média', 'Prazo Médio']} data={paginatedData} type="network" />}
+                {activeTab === 'suppliers' && <EntityTable headers={['Fornecedor', 'Nome', 'Região', 'Setor', `Faturamento (${currentLabel})`, 'Mix (SKUs)', 'Pedidos', 'Ticket Médio', 'Parc. Média', 'Prazo Médio']} data={paginatedData} type="supplier" abcClasses={abcAnalysis?.classes} onRowClick={(id) => openDetail({ type: 'supplier', id })} />}
+                {activeTab === 'reps' && <RepTable data={paginatedData as RepScorecard[]} currentLabel={currentLabel} onRowClick={(id) => openDetail({ type: 'rep', id })} onScorecardClick={setScorecardRepId} />}
+                {activeTab === 'churn' && <ChurnPanel clients={paginatedData as ChurnClient[]} counts={churnCounts} status={churnStatus} reps={churnReps} selectedRep={churnRep} currentLabel={currentLabel} onStatusChange={(s) => { setChurnStatus(s); setCurrentPage(1); }} onRepChange={(r) => { setChurnRep(r); setCurrentPage(1); }} onExportCallList={handleExportCallList} onClientClick={(id) => openDetail({ type: 'client', id })} onRepClick={(id) => openDetail({ type: 'rep', id })} />}
+                {activeTab === 'returns' && <ReturnsPanel view={returnsView} rows={paginatedData as typeof returnsRows} threshold={returnThreshold} summary={returnsSummary} onViewChange={(v) => { setReturnsView(v); setCurrentPage(1); }} onThresholdChange={handleReturnThresholdChange} onRowClick={(view, id) => { const type = RETURN_VIEW_ENTITIES[view]; if (type) openDetail({ type, id }); }} />}
+                {activeTab === 'mix' && <MixPanel view={mixView} rows={paginatedData as typeof mixRows} basketKey={mixBasketKey} reps={mixReps} selectedRep={mixRep} ruleCount={mixRules.length} opportunityCount={crossSellOpportunities.length} onViewChange={(v) => { setMixView(v); setCurrentPage(1); }} onBasketKeyChange={(k) => { setMixBasketKey(k); setCurrentPage(1); }} onRepChange={(r) => { setMixRep(r); setCurrentPage(1); }} onProductClick={(id) => openDetail({ type: 'product', id })} onClientClick={(id) => openDetail({ type: 'client', id })} />}
+                {activeTab === 'terms' && <PaymentTermsPanel rows={paginatedData as PaymentTermsRow[]} summary={paymentTermsSummary} unparsed={unparsedPaymentTerms} baselineLabel={period.baseline.shortLabel} onRowClick={(row) => handleFilterChange('paymentTerms', row.rawValues, 'include')} />}
+                {activeTab === 'redes' && <EntityTable headers={['Rede', 'Nome', 'Região', 'Setor', `Faturamento (${currentLabel})`, 'SKU x PDV', 'Pedidos', 'Ticket Médio', 'Parc. Média', 'Prazo Médio']} data={paginatedData} type="network" onRowClick={(id) => openDetail({ type: 'network', id })} />}
             </div>
             
             {/* --- PAGINATION CONTROLS --- */}
@@ -502,25 +1480,80 @@ function App() {
                  <SalesHeatmap data={geoStats} />
              </div>
         </div>
+        </>)}
 
       </main>
     </div>
   );
 }
 
+// --- Sales Rep Scorecard Table ---
+const RepTable = ({ data, currentLabel, onRowClick, onScorecardClick }: { data: RepScorecard[], currentLabel: string, onRowClick: (id: string) => void, onScorecardClick: (id: string) => void }) => (
+    <div className="overflow-x-auto max-h-[600px] custom-scrollbar">
+        <table className="w-full text-sm text-left relative">
+            <thead className="text-xs text-primary font-bold uppercase bg-card border-b border-white/5 sticky top-0 z-10">
+                <tr>
+                    <th className="px-6 py-4">Representante</th>
+                    <th className="px-6 py-4">Região</th>
+                    <th className="px-6 py-4 text-right">Faturamento ({currentLabel})</th>
+                    <th className="px-6 py-4 text-right">Positivação</th>
+                    <th className="px-6 py-4 text-right">SKU x PDV</th>
+                    <th className="px-6 py-4 text-right">Ticket Médio</th>
+                    <th className="px-6 py-4 text-right">Prazo Médio</th>
+                    <th className="px-6 py-4 text-right">Devolução</th>
+                    <th className="px-6 py-4 text-right">Clientes +/-</th>
+                    <th className="px-6 py-4"></th>
+                </tr>
+            </thead>
+            <tbody className="divide-y divide-white/5">
+                {data.map(card => (
+                    <tr key={card.id} onClick={() => onRowClick(card.id)} className="hover:bg-white/5 transition-colors group cursor-pointer">
+                        <td className="px-6 py-4 font-bold text-text-main group-hover:text-primary max-w-[250px] truncate" title={card.id}>{card.id}</td>
+                        <td className="px-6 py-4 text-xs uppercase text-text-dim">{card.region || '-'} <span className="text-primary font-bold ml-1">{card.regionRank}º/{card.regionSize}</span></td>
+                        <td className="px-6 py-4 text-right font-bold text-text-main">
+                            <div className="flex items-center justify-end gap-2">
+                                <span>R$ {card.current.totalRevenue.toLocaleString('pt-BR', { minimumFractionDigits: 2 })}</span>
+                                <TrendIndicator value={calcTrend(card.current.totalRevenue, card.baseline.totalRevenue)} />
+                            </div>
+                            <div className="text-[9px] text-text-dim opacity-50 font-normal">Base: R$ {card.baseline.totalRevenue.toLocaleString('pt-BR', { maximumFractionDigits: 0 })}</div>
+                        </td>
+                        <td className="px-6 py-4 text-right text-text-dim">
+                            <div className="flex items-center justify-end gap-2">{card.current.positivacao}<TrendIndicator value={calcTrend(card.current.positivacao, card.baseline.positivacao)} /></div>
+                        </td>
+                        <td className="px-6 py-4 text-right text-text-dim">{card.current.skuPerPdv.toFixed(2)}</td>
+                        <td className="px-6 py-4 text-right text-text-dim">R$ {card.current.averageTicket.toLocaleString('pt-BR', { maximumFractionDigits: 0 })}</td>
+                        <td className="px-6 py-4 text-right text-text-dim">{card.current.avgTerm.toFixed(0)} dias</td>
+                        <td className={`px-6 py-4 text-right ${card.returnRate > card.baselineReturnRate ? 'text-danger' : 'text-text-dim'}`}>{card.returnRate.toFixed(1)}%</td>
+                        <td className="px-6 py-4 text-right text-xs font-bold"><span className="text-success">+{card.gainedClients.length}</span> / <span className="text-danger">-{card.lostClients.length}</span></td>
+                        <td className="px-6 py-4 text-right">
+                            <button onClick={(e) => { e.stopPropagation(); onScorecardClick(card.id); }} className="text-[10px] font-bold uppercase tracking-wider text-text-dim hover:text-primary">Scorecard</button>
+                        </td>
+                    </tr>
+                ))}
+            </tbody>
+        </table>
+    </div>
+);
+
 // --- KPI Pivot Table Component (Matrix Heatmap) ---
-const KPIPivotTable = ({ title, data, dataKey, formatter, averageFormatter, highlightHigh = true }: { title: string, data: any, dataKey: keyof KPIStats, formatter: (val: number) => string, averageFormatter?: (val: number) => string, highlightHigh?: boolean }) => {
+const KPIPivotTable = ({ title, data, period, dataKey, metric, formatter, averageFormatter, highlightHigh = true, goals, totalGoal, businessDays }: { title: string, data: any, period: ReferencePeriod, dataKey?: keyof KPIStats, metric?: (stats: KPIStats) => number, formatter: (val: number) => string, averageFormatter?: (val: number) => string, highlightHigh?: boolean, goals?: Record<string, number>, totalGoal?: number, businessDays?: { months: Record<string, number>, baseline: number } }) => {
+    // Com `businessDays`, cada coluna é dividida pelos seus dias úteis (o baseline, pela média de dias dos seus intervalos)
+    const perDay = (val: number, days: number | undefined) => !businessDays ? val : (days && days > 0 ? val / days : 0);
+    // Métricas personalizadas chegam como `metric` (fórmula sobre os KPIs) em vez de `dataKey`
+    const readValue = (stats?: KPIStats): number => !stats ? 0 : (metric ? metric(stats) : dataKey ? stats[dataKey] : 0) || 0;
+    const cellValue = (row: any, mKey: string) => perDay(readValue(row.months[mKey]), businessDays?.months[mKey]);
+
     // Dynamic Sorting: Sort specific to this table's metric
     const sortedRows = [...data.rows].sort((a: any, b: any) => {
-        const valA = a.total[dataKey] || 0;
-        const valB = b.total[dataKey] || 0;
+        const valA = readValue(a.total);
+        const valB = readValue(b.total);
         return valB - valA; // Descending
     });
 
     // Determine Color Scale
     const values: number[] = [];
     data.rows.forEach((row: any) => {
-        Object.values(row.months).forEach((stats: any) => values.push(stats[dataKey] as number));
+        Object.keys(row.months).forEach(mKey => values.push(cellValue(row, mKey)));
     });
     const max = Math.max(...values, 1);
     const min = Math.min(...values);
@@ -539,14 +1572,15 @@ const KPIPivotTable = ({ title, data, dataKey, formatter, averageFormatter, high
         }
     };
 
-    const monthNames = ["Ago", "Set", "Out", "Nov"];
-    const monthKeys = ["2025-08", "2025-09", "2025-10", "2025-11"]; 
+    const monthKeys = getPeriodMonths(period);
     const avgFmt = averageFormatter || formatter;
 
-    const isRatioMetric = ['skuPerPdv', 'averageTicket', 'avgTerm', 'avgInstallments'].includes(dataKey);
+    const isRatioMetric = !!dataKey && ['skuPerPdv', 'averageTicket', 'avgTerm', 'avgInstallments'].includes(dataKey);
 
     const calculateColumnTotal = (mKey: string) => {
-        const valuesInColumn = sortedRows.map((row: any) => (row.months[mKey]?.[dataKey] as number) || 0);
+        // Fórmula não soma nem tira média entre setores: aplica sobre os KPIs totais do mês
+        if (metric) return perDay(readValue(data.monthTotals[mKey]), businessDays?.months[mKey]);
+        const valuesInColumn = sortedRows.map((row: any) => cellValue(row, mKey));
         const sum = valuesInColumn.reduce((a: number, b: number) => a + b, 0);
         const count = sortedRows.length; // Always divide by total visible rows for Arithmetic Mean (Visual Proof)
 
@@ -554,14 +1588,21 @@ const KPIPivotTable = ({ title, data, dataKey, formatter, averageFormatter, high
         return isRatioMetric ? sum / count : sum;
     };
 
+    // Coluna Meta: só aparece quando há meta de setor (ou do recorte) no mês de referência
+    const showGoals = !!goals && !businessDays && (Object.keys(goals).length > 0 || totalGoal !== undefined);
+    const renderGoal = (goal: number | undefined, actual: number) => goal === undefined
+        ? <span className="text-text-dim opacity-30">-</span>
+        : <>{avgFmt(goal)} <span className={actual >= goal ? 'text-success' : 'text-danger'}>({goal > 0 ? ((actual / goal) * 100).toFixed(0) : '0'}%)</span></>;
+
     const calculateGrandTotal = () => {
+         if (metric) return perDay(readValue(data.grandTotal), businessDays?.baseline);
          let sum = 0;
          const count = sortedRows.length;
          sortedRows.forEach((row: any) => {
-             sum += (row.total[dataKey] as number) || 0;
+             sum += readValue(row.total);
          });
          if (count === 0) return 0;
-         return isRatioMetric ? sum / count : sum;
+         return perDay(isRatioMetric ? sum / count : sum, businessDays?.baseline);
     }
 
     return (
@@ -574,8 +1615,14 @@ const KPIPivotTable = ({ title, data, dataKey, formatter, averageFormatter, high
                     <thead className="bg-white/5 text-text-dim font-mono uppercase">
                         <tr>
                             <th className="px-3 py-2 text-left w-32 sticky left-0 bg-[#151E32] z-10 border-r border-white/5">Setor</th>
-                            {monthNames.map(m => <th key={m} className="px-3 py-2 w-20">{m}</th>)}
-                            <th className="px-3 py-2 w-24 bg-white/10 font-bold text-white">Média (Ago-Out)</th>
+                            {monthKeys.map(m => (
+                                <th key={m} className="px-3 py-2 w-20">
+                                    {formatMonthShort(m)}
+                                    {businessDays && <div className="text-[9px] font-normal normal-case opacity-60">{businessDays.months[m] ?? 0} d.u.</div>}
+                                </th>
+                            ))}
+                            <th className="px-3 py-2 w-24 bg-white/10 font-bold text-white">{period.baseline.shortLabel}</th>
+                            {showGoals && <th className="px-3 py-2 w-32 font-bold text-primary">Meta {formatMonthShort(period.currentMonth)}</th>}
                         </tr>
                     </thead>
                     <tbody className="divide-y divide-white/5">
@@ -583,7 +1630,7 @@ const KPIPivotTable = ({ title, data, dataKey, formatter, averageFormatter, high
                             <tr key={i} className="hover:bg-white/5 transition-colors">
                                 <td className="px-3 py-2 text-left font-bold text-text-dim sticky left-0 bg-card border-r border-white/5 truncate max-w-[150px]" title={row.sector}>{row.sector}</td>
                                 {monthKeys.map(mKey => {
-                                    const val = (row.months[mKey]?.[dataKey] as number) || 0;
+                                    const val = cellValue(row, mKey);
                                     return (
                                         <td key={mKey} className={`px-3 py-2 ${getColor(val)}`}>
                                             {formatter(val)}
@@ -591,8 +1638,9 @@ const KPIPivotTable = ({ title, data, dataKey, formatter, averageFormatter, high
                                     );
                                 })}
                                 <td className="px-3 py-2 font-bold bg-white/5 text-white">
-                                    {avgFmt(row.total[dataKey])}
+                                    {avgFmt(perDay(readValue(row.total), businessDays?.baseline))}
                                 </td>
+                                {showGoals && <td className="px-3 py-2 whitespace-nowrap text-text-main">{renderGoal(goals![row.sector], readValue(row.months[period.currentMonth]))}</td>}
                             </tr>
                         ))}
                     </tbody>
@@ -607,6 +1655,7 @@ const KPIPivotTable = ({ title, data, dataKey, formatter, averageFormatter, high
                             <td className="px-3 py-2 text-primary bg-white/10">
                                 {avgFmt(calculateGrandTotal())}
                             </td>
+                            {showGoals && <td className="px-3 py-2 whitespace-nowrap text-primary">{renderGoal(totalGoal, calculateColumnTotal(period.currentMonth))}</td>}
                         </tr>
                     </tfoot>
                 </table>
@@ -615,12 +1664,17 @@ const KPIPivotTable = ({ title, data, dataKey, formatter, averageFormatter, high
     );
 };
 
-const EntityTable = ({ headers, data, type }: { headers: string[], data: any[], type: 'client' | 'supplier' | 'network' }) => (
+const AbcBadge = ({ cls }: { cls?: AbcClass }) => cls
+    ? <span className={`font-mono font-bold text-xs ${ABC_CLASS_STYLES[cls].text}`}>{cls}</span>
+    : <span className="text-text-dim text-xs">-</span>;
+
+const EntityTable = ({ headers, data, type, onRowClick, abcClasses }: { headers: string[], data: any[], type: 'client' | 'supplier' | 'network', onRowClick: (id: string) => void, abcClasses?: Record<string, AbcClass> }) => (
     <div className="overflow-x-auto max-h-[600px] custom-scrollbar">
         <table className="w-full text-sm text-left relative">
             <thead className="text-xs text-primary font-bold uppercase bg-card border-b border-white/5 sticky top-0 z-10">
                 <tr>
                     <th className="px-6 py-4">{headers[0]}</th>
+                    {abcClasses && <th className="px-6 py-4 text-center">Curva</th>}
                     <th className="px-6 py-4">{headers[1]}</th>
                     {(type === 'client' || type === 'supplier' || type === 'network') && (
                         <>
@@ -640,8 +1694,9 @@ const EntityTable = ({ headers, data, type }: { headers: string[], data: any[],
                 {data.map((item, idx) => {
                     const trend = item.revenueTrend || 0;
                     return (
-                        <tr key={idx} className="hover:bg-white/5 transition-colors group">
+                        <tr key={idx} onClick={() => onRowClick(item.id)} className="hover:bg-white/5 transition-colors group cursor-pointer">
                             <td className="px-6 py-4 text-text-dim font-mono text-xs">{item.id.split('/')[0].replace(/\D/g, '')}</td>
+                            {abcClasses && <td className="px-6 py-4 text-center"><AbcBadge cls={abcClasses[item.id]} /></td>}
                             <td className="px-6 py-4 font-bold text-text-main group-hover:text-primary max-w-[250px] truncate" title={item.name}>{item.name}</td>
                             {(type === 'client' || type === 'supplier' || type === 'network') && (
                                 <>
@@ -654,7 +1709,7 @@ const EntityTable = ({ headers, data, type }: { headers: string[], data: any[],
                                     <span>R$ {item.revenue.toLocaleString('pt-BR', { minimumFractionDigits: 2 })}</span>
                                     <TrendIndicator value={trend} />
                                 </div>
-                                <div className="text-[9px] text-text-dim opacity-50 font-normal">Média: R$ {item.averagePastRevenue?.toLocaleString('pt-BR', { maximumFractionDigits:0 })}</div>
+                                <div className="text-[9px] text-text-dim opacity-50 font-normal">Base: R$ {item.averagePastRevenue?.toLocaleString('pt-BR', { maximumFractionDigits:0 })}</div>
                             </td>
                             <td className="px-6 py-4 text-right text-text-dim">
                                 {(type === 'supplier' && 'skuCount' in item) ? (item as any).skuCount : item.skuPerPdv?.toFixed(2) || '-'}
@@ -0,0 +1,132 @@
+import React, { useState, useEffect } from 'react';
+import { AbcAnalysis, AbcClass, AbcThresholds } from '../types';
+import { ABC_CLASSES } from '../services/abcService';
+
+interface AbcPanelProps {
+  analysis: AbcAnalysis;
+  thresholds: AbcThresholds;
+  names: Record<string, string>; // id -> nome, para o tooltip do gráfico
+  classFilter: AbcClass | '';
+  baselineLabel: string;
+  onClassFilterChange: (cls: AbcClass | '') => void;
+  onThresholdsChange: (thresholds: AbcThresholds) => boolean;
+}
+
+export const ABC_CLASS_STYLES: Record<AbcClass, { text: string, fill: string }> = {
+  A: { text: 'text-success', fill: '#10b981' },
+  B: { text: 'text-warning', fill: '#f59e0b' },
+  C: { text: 'text-text-dim', fill: '#64748b' }
+};
+
+// Acima disso as barras são agrupadas em faixas de ranking para o gráfico continuar legível
+const MAX_PARETO_BARS = 80;
+const CHART_WIDTH = 640;
+const CHART_HEIGHT = 180;
+
+const fmtMoney = (value: number) => `R$ ${value.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const ParetoChart = ({ analysis, thresholds, names }: { analysis: AbcAnalysis, thresholds: AbcThresholds, names: Record<string, string> }) => {
+  const entries = analysis.entries;
+  if (entries.length === 0) return <p className="text-xs text-text-dim py-8 text-center">Sem faturamento positivo no mês.</p>;
+
+  const bucketSize = Math.ceil(entries.length / MAX_PARETO_BARS);
+  const buckets = [];
+  for (let i = 0; i < entries.length; i += bucketSize) {
+    const slice = entries.slice(i, i + bucketSize);
+    buckets.push({
+      first: i + 1,
+      last: i + slice.length,
+      value: slice.reduce((acc, e) => acc + e.value, 0),
+      cumulativeShare: slice[slice.length - 1].cumulativeShare,
+      cls: slice[0].cls,
+      label: slice.length === 1 ? (names[slice[0].id] || slice[0].id) : `${i + 1}º a ${i + slice.length}º`
+    });
+  }
+
+  const maxValue = Math.max(...buckets.map(b => b.value));
+  const barWidth = CHART_WIDTH / buckets.length;
+  const y = (share: number) => CHART_HEIGHT - (share / 100) * CHART_HEIGHT;
+  const linePoints = buckets.map((b, i) => `${(i + 0.5) * barWidth},${y(b.cumulativeShare)}`).join(' ');
+
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT + 4}`} className="w-full h-48" preserveAspectRatio="none">
+      {[thresholds.a, thresholds.b].map(t => (
+        <line key={t} x1={0} x2={CHART_WIDTH} y1={y(t)} y2={y(t)} stroke="#ffffff" strokeOpacity={0.15} strokeDasharray="4 4" />
+      ))}
+      {buckets.map((b, i) => {
+        const height = maxValue > 0 ? (b.value / maxValue) * CHART_HEIGHT : 0;
+        return (
+          <rect key={b.first} x={i * barWidth + barWidth * 0.1} y={CHART_HEIGHT - height} width={barWidth * 0.8} height={height} fill={ABC_CLASS_STYLES[b.cls].fill} fillOpacity={0.7}>
+            <title>{`${b.label} (classe ${b.cls})\n${fmtMoney(b.value)}\nAcumulado: ${b.cumulativeShare.toLocaleString('pt-BR', { maximumFractionDigits: 1 })}%`}</title>
+          </rect>
+        );
+      })}
+      <polyline points={linePoints} fill="none" stroke="#38bdf8" strokeWidth={2} vectorEffect="non-scaling-stroke" />
+    </svg>
+  );
+};
+
+export const AbcPanel: React.FC<AbcPanelProps> = ({ analysis, thresholds, names, classFilter, baselineLabel, onClassFilterChange, onThresholdsChange }) => {
+  const [draft, setDraft] = useState({ a: String(thresholds.a), b: String(thresholds.b) });
+  const [error, setError] = useState('');
+
+  useEffect(() => { setDraft({ a: String(thresholds.a), b: String(thresholds.b) }); }, [thresholds]);
+
+  const handleApply = () => {
+    const ok = onThresholdsChange({ a: parseFloat(draft.a), b: parseFloat(draft.b) });
+    setError(ok ? '' : 'Use 0 < A < B < 100.');
+  };
+
+  const total = analysis.entries.length;
+  const keys: (AbcClass | 'none')[] = [...ABC_CLASSES, 'none'];
+  const keyLabel = (k: AbcClass | 'none') => k === 'none' ? 'Sem fat.' : k;
+
+  return (
+    <div className="px-6 py-4 border-b border-white/5 grid grid-cols-1 lg:grid-cols-3 gap-6">
+      <div className="lg:col-span-2 space-y-3">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div className="flex bg-background rounded-md border border-white/10 overflow-hidden">
+            <button onClick={() => onClassFilterChange('')} className={`px-3 py-1.5 text-[10px] font-bold uppercase tracking-wider transition-colors ${classFilter === '' ? 'bg-primary text-background' : 'text-text-dim hover:text-white'}`}>Todas ({total})</button>
+            {ABC_CLASSES.map(cls => (
+              <button key={cls} onClick={() => onClassFilterChange(cls)} className={`px-3 py-1.5 text-[10px] font-bold uppercase tracking-wider transition-colors ${classFilter === cls ? 'bg-primary text-background' : 'text-text-dim hover:text-white'}`}>
+                {cls} ({analysis.summary[cls].count} · {analysis.summary[cls].share.toFixed(0)}%)
+              </button>
+            ))}
+          </div>
+          <div className="flex items-center gap-2 text-[10px] font-bold uppercase tracking-wider text-text-dim">
+            A até
+            <input type="number" min={1} max={99} className="w-16 bg-background border border-white/10 text-white text-xs rounded px-2 py-1 outline-none focus:border-primary font-mono" value={draft.a} onChange={(e) => setDraft({ ...draft, a: e.target.value })} />
+            % · B até
+            <input type="number" min={1} max={99} className="w-16 bg-background border border-white/10 text-white text-xs rounded px-2 py-1 outline-none focus:border-primary font-mono" value={draft.b} onChange={(e) => setDraft({ ...draft, b: e.target.value })} />
+            %
+            <button onClick={handleApply} className="px-2 py-1 bg-white/5 hover:bg-white/10 border border-white/10 text-white rounded">Aplicar</button>
+            {error && <span className="text-danger normal-case">{error}</span>}
+          </div>
+        </div>
+        <ParetoChart analysis={analysis} thresholds={thresholds} names={names} />
+        <p className="text-[10px] text-text-dim">Barras: faturamento do mês por ranking · Linha: % acumulado · Tracejado: cortes A ({thresholds.a}%) e B ({thresholds.b}%)</p>
+      </div>
+
+      <div>
+        <h3 className="text-[10px] font-bold uppercase tracking-wider text-text-dim mb-2">Migração vs {baselineLabel} <span className="text-primary">({analysis.moved} mudaram de classe)</span></h3>
+        <table className="w-full text-xs text-center">
+          <thead className="text-[10px] text-text-dim uppercase">
+            <tr><th className="py-1 text-left">Base ↓ / Mês →</th>{keys.map(k => <th key={k} className="py-1">{keyLabel(k)}</th>)}</tr>
+          </thead>
+          <tbody className="divide-y divide-white/5 font-mono">
+            {keys.map(from => (
+              <tr key={from}>
+                <td className="py-1.5 text-left font-bold text-text-dim">{keyLabel(from)}</td>
+                {keys.map(to => {
+                  const count = analysis.migration[from][to];
+                  const className = from === to ? 'text-text-main' : count === 0 ? 'text-text-dim/40' : (from === 'none' || (to !== 'none' && to < from)) ? 'text-success' : 'text-danger';
+                  return <td key={to} className={`py-1.5 ${className}`}>{from === 'none' && to === 'none' ? '-' : count}</td>;
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
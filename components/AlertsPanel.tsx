@@ -0,0 +1,124 @@
+import React, { useState } from 'react';
+import { AnomalyAlert, AlertSettings, AlertSeverity, AlertRule } from '../types';
+import { ALERT_RULE_LABELS, ALERT_SEVERITY_LABELS } from '../services/alertService';
+
+interface AlertsPanelProps {
+  alerts: AnomalyAlert[];
+  dismissed: string[];
+  settings: AlertSettings;
+  onSettingsChange: (settings: AlertSettings) => void;
+  onOpen: (alert: AnomalyAlert) => void;
+  onDismiss: (ids: string[]) => void;
+  onRestore: (id: string) => void;
+  onClose: () => void;
+}
+
+const SEVERITY_STYLES: Record<AlertSeverity, string> = {
+  critical: 'bg-danger/20 text-danger',
+  warning: 'bg-warning/20 text-warning',
+  info: 'bg-secondary/20 text-secondary'
+};
+
+const SETTING_FIELDS: { key: keyof AlertSettings, label: string, step: number }[] = [
+  { key: 'dropThreshold', label: 'Queda (%)', step: 5 },
+  { key: 'zScore', label: 'Desvios (z)', step: 0.5 },
+  { key: 'minBaselineRevenue', label: 'Base mínima (R$)', step: 500 },
+  { key: 'termIncreaseDays', label: 'Prazo (+dias)', step: 5 }
+];
+
+const inputClass = "w-24 bg-background border border-white/10 text-white text-xs rounded-lg px-2 py-1.5 outline-none focus:border-primary font-mono";
+
+export const AlertsPanel: React.FC<AlertsPanelProps> = ({ alerts, dismissed, settings, onSettingsChange, onOpen, onDismiss, onRestore, onClose }) => {
+  const [severityFilter, setSeverityFilter] = useState<AlertSeverity | null>(null);
+  const [ruleFilter, setRuleFilter] = useState<AlertRule | null>(null);
+  const [showDismissed, setShowDismissed] = useState(false);
+
+  const dismissedSet = new Set(dismissed);
+  const visible = alerts.filter(a =>
+    (showDismissed || !dismissedSet.has(a.id)) &&
+    (!severityFilter || a.severity === severityFilter) &&
+    (!ruleFilter || a.rule === ruleFilter)
+  );
+  const pendingVisible = visible.filter(a => !dismissedSet.has(a.id));
+  const countBy = (severity: AlertSeverity) => alerts.filter(a => a.severity === severity && !dismissedSet.has(a.id)).length;
+
+  const chipClass = (active: boolean) => `px-2.5 py-1 rounded border text-[10px] font-bold uppercase tracking-wider transition-colors ${active ? 'border-primary/50 bg-primary/10 text-primary' : 'border-white/10 text-text-dim hover:text-white'}`;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-background/80 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="bg-card border border-white/10 rounded-2xl shadow-2xl w-full max-w-4xl max-h-[90vh] flex flex-col overflow-hidden">
+        <div className="px-6 py-4 border-b border-white/5 flex items-center justify-between">
+          <div>
+            <h2 className="text-lg font-bold text-white">Alertas</h2>
+            <p className="text-xs text-text-dim">Quedas bruscas, valores fora do padrão, prazos incomuns e picos de devolução no mês de referência.</p>
+          </div>
+          <button onClick={onClose} className="text-text-dim hover:text-white text-xl leading-none">×</button>
+        </div>
+
+        <div className="px-6 py-4 border-b border-white/5 space-y-3">
+          <div className="flex flex-wrap items-center gap-4">
+            {SETTING_FIELDS.map(field => (
+              <label key={field.key} className="flex items-center gap-2 text-[10px] text-text-dim uppercase font-bold tracking-wider">
+                {field.label}
+                <input
+                  type="number"
+                  step={field.step}
+                  min={0}
+                  className={inputClass}
+                  value={settings[field.key]}
+                  onChange={(e) => onSettingsChange({ ...settings, [field.key]: Number(e.target.value) })}
+                />
+              </label>
+            ))}
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            {(Object.keys(ALERT_SEVERITY_LABELS) as AlertSeverity[]).map(severity => (
+              <button key={severity} onClick={() => setSeverityFilter(severityFilter === severity ? null : severity)} className={chipClass(severityFilter === severity)}>
+                {ALERT_SEVERITY_LABELS[severity]} ({countBy(severity)})
+              </button>
+            ))}
+            <span className="w-px h-4 bg-white/10 mx-1"></span>
+            {(Object.keys(ALERT_RULE_LABELS) as AlertRule[]).map(rule => (
+              <button key={rule} onClick={() => setRuleFilter(ruleFilter === rule ? null : rule)} className={chipClass(ruleFilter === rule)}>{ALERT_RULE_LABELS[rule]}</button>
+            ))}
+            <label className="ml-auto flex items-center gap-2 text-[10px] text-text-dim uppercase font-bold tracking-wider cursor-pointer">
+              <input type="checkbox" checked={showDismissed} onChange={(e) => setShowDismissed(e.target.checked)} className="accent-primary" />
+              Mostrar dispensados
+            </label>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-6 space-y-2">
+          {visible.length === 0 && <p className="text-xs text-text-dim">Nenhum alerta com os critérios atuais.</p>}
+          {visible.map(alert => {
+            const isDismissed = dismissedSet.has(alert.id);
+            return (
+              <div key={alert.id} className={`border border-white/5 rounded-lg px-4 py-3 bg-background/40 flex items-start justify-between gap-4 ${isDismissed ? 'opacity-50' : ''}`}>
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className={`text-[9px] font-bold uppercase tracking-wider px-2 py-0.5 rounded flex-shrink-0 ${SEVERITY_STYLES[alert.severity]}`}>{ALERT_SEVERITY_LABELS[alert.severity]}</span>
+                    <span className="text-[9px] text-text-dim uppercase tracking-wider flex-shrink-0">{ALERT_RULE_LABELS[alert.rule]}</span>
+                    <span className="text-sm font-bold text-white truncate" title={alert.title}>{alert.title}</span>
+                  </div>
+                  <p className="text-xs text-text-dim mt-1">{alert.explanation}</p>
+                </div>
+                <div className="flex items-center gap-3 flex-shrink-0">
+                  <button onClick={() => onOpen(alert)} className="px-3 py-1.5 bg-primary text-background text-[10px] font-bold rounded uppercase">{alert.target.type === 'sector' ? 'Filtrar setor' : 'Abrir'}</button>
+                  {isDismissed
+                    ? <button onClick={() => onRestore(alert.id)} className="text-[10px] text-text-dim hover:text-white uppercase font-bold">Restaurar</button>
+                    : <button onClick={() => onDismiss([alert.id])} className="text-[10px] text-text-dim hover:text-white uppercase font-bold">Dispensar</button>}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        {pendingVisible.length > 0 && (
+          <div className="px-6 py-3 border-t border-white/5 flex justify-end">
+            <button onClick={() => onDismiss(pendingVisible.map(a => a.id))} className="px-3 py-2 bg-white/5 hover:bg-white/10 border border-white/10 text-white text-[10px] font-bold rounded-md uppercase">Dispensar {pendingVisible.length} visíveis</button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
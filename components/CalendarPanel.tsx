@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import { CalendarSettings, CustomHoliday } from '../types';
+import { STATE_HOLIDAYS, HOLIDAY_SCOPE_LABELS, getHolidays, parseCustomHolidayDate, countBusinessDays, getMonthBounds } from '../services/calendarService';
+import { formatMonthLong } from '../services/periodService';
+
+interface CalendarPanelProps {
+  settings: CalendarSettings;
+  referenceMonth: string;
+  onChange: (settings: CalendarSettings) => void;
+  onClose: () => void;
+}
+
+type CustomListKey = 'municipalHolidays' | 'companyDaysOff';
+
+const inputClass = "bg-background border border-white/10 text-white text-xs rounded-lg px-3 py-2 outline-none focus:border-primary";
+
+const WEEKDAYS = ['Dom', 'Seg', 'Ter', 'Qua', 'Qui', 'Sex', 'Sáb'];
+
+const formatCustomDate = (date: string) => date.length === 5
+  ? `${date.slice(3)}/${date.slice(0, 2)} (todo ano)`
+  : date.split('-').reverse().join('/');
+
+export const CalendarPanel: React.FC<CalendarPanelProps> = ({ settings, referenceMonth, onChange, onClose }) => {
+  const [drafts, setDrafts] = useState<Record<CustomListKey, CustomHoliday>>({ municipalHolidays: { date: '', name: '' }, companyDaysOff: { date: '', name: '' } });
+
+  const year = Number(referenceMonth.slice(0, 4));
+  const holidays = Array.from(getHolidays(year, settings).values()).sort((a, b) => a.date.localeCompare(b.date));
+  const { start, end } = getMonthBounds(referenceMonth);
+
+  const addCustom = (key: CustomListKey) => {
+    const date = parseCustomHolidayDate(drafts[key].date);
+    if (!date) return;
+    const list = settings[key].filter(h => h.date !== date);
+    onChange({ ...settings, [key]: [...list, { date, name: drafts[key].name.trim() }].sort((a, b) => a.date.localeCompare(b.date)) });
+    setDrafts({ ...drafts, [key]: { date: '', name: '' } });
+  };
+
+  const removeCustom = (key: CustomListKey, date: string) => onChange({ ...settings, [key]: settings[key].filter(h => h.date !== date) });
+
+  const renderCustomList = (key: CustomListKey, title: string, placeholder: string) => (
+    <div className="space-y-2">
+      <h3 className="text-[10px] font-bold text-text-dim uppercase tracking-wider">{title}</h3>
+      {settings[key].length === 0 && <p className="text-[10px] text-text-dim">Nenhuma data cadastrada.</p>}
+      {settings[key].map(h => (
+        <div key={h.date} className="flex items-center justify-between text-xs bg-background/40 border border-white/5 rounded-lg px-3 py-2">
+          <span><span className="font-mono text-text-main">{formatCustomDate(h.date)}</span> <span className="text-text-dim">{h.name}</span></span>
+          <button onClick={() => removeCustom(key, h.date)} className="text-[10px] text-danger hover:underline uppercase font-bold">Remover</button>
+        </div>
+      ))}
+      <div className="flex gap-2">
+        <input type="text" placeholder="dd/mm ou dd/mm/aaaa" className={`${inputClass} font-mono w-40`} value={drafts[key].date} onChange={(e) => setDrafts({ ...drafts, [key]: { ...drafts[key], date: e.target.value } })} />
+        <input type="text" placeholder={placeholder} className={`${inputClass} flex-1`} value={drafts[key].name} onChange={(e) => setDrafts({ ...drafts, [key]: { ...drafts[key], name: e.target.value } })} onKeyDown={(e) => e.key === 'Enter' && addCustom(key)} />
+        <button onClick={() => addCustom(key)} disabled={!parseCustomHolidayDate(drafts[key].date)} className="px-3 py-2 bg-primary text-background text-[10px] font-bold rounded-md uppercase disabled:opacity-50">Adicionar</button>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 bg-background/80 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="bg-card border border-white/10 rounded-2xl shadow-2xl w-full max-w-3xl max-h-[90vh] flex flex-col overflow-hidden">
+        <div className="px-6 py-4 border-b border-white/5 flex items-center justify-between">
+          <div>
+            <h2 className="text-lg font-bold text-white">Calendário de Dias Úteis</h2>
+            <p className="text-xs text-text-dim">Feriados e folgas usados no faturamento por dia útil, no ritmo do mês, na projeção e nas metas.</p>
+          </div>
+          <button onClick={onClose} className="text-text-dim hover:text-white text-xl leading-none">×</button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-6 space-y-6">
+          <div className="flex flex-wrap items-center gap-4">
+            <select className={`${inputClass} appearance-none`} value={settings.state} onChange={(e) => onChange({ ...settings, state: e.target.value })}>
+              <option value="">Feriados estaduais: nenhum</option>
+              {Object.keys(STATE_HOLIDAYS).map(uf => <option key={uf} value={uf}>Feriados estaduais: {uf}</option>)}
+            </select>
+            <label className="flex items-center gap-2 text-xs text-text-main cursor-pointer">
+              <input type="checkbox" checked={settings.includeOptional} onChange={(e) => onChange({ ...settings, includeOptional: e.target.checked })} className="accent-primary" />
+              Carnaval e Corpus Christi sem expediente
+            </label>
+          </div>
+
+          {renderCustomList('municipalHolidays', 'Feriados municipais', 'Ex: Aniversário da cidade')}
+          {renderCustomList('companyDaysOff', 'Folgas da empresa', 'Ex: Recesso de fim de ano')}
+
+          <div className="space-y-2">
+            <h3 className="text-[10px] font-bold text-text-dim uppercase tracking-wider">
+              Feriados de {year} · {formatMonthLong(referenceMonth)}: {countBusinessDays(start, end, settings)} dias úteis
+            </h3>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-1">
+              {holidays.map(h => (
+                <div key={h.date} className={`flex items-center justify-between text-xs py-1 border-b border-white/5 ${h.date.startsWith(referenceMonth) ? 'text-primary' : 'text-text-main'}`}>
+                  <span><span className="font-mono">{h.date.split('-').reverse().join('/')}</span> <span className="text-text-dim">{WEEKDAYS[new Date(`${h.date}T12:00:00`).getDay()]}</span> {h.name}</span>
+                  <span className="text-[9px] text-text-dim uppercase">{HOLIDAY_SCOPE_LABELS[h.scope]}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
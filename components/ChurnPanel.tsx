@@ -0,0 +1,87 @@
+import React from 'react';
+import { ChurnClient, ChurnStatus } from '../types';
+import { CHURN_STATUS_LABELS } from '../services/churnService';
+
+interface ChurnPanelProps {
+  clients: ChurnClient[]; // Página atual, já filtrada por situação e representante
+  counts: Record<ChurnStatus, number>;
+  status: ChurnStatus;
+  reps: string[];
+  selectedRep: string;
+  currentLabel: string;
+  onStatusChange: (status: ChurnStatus) => void;
+  onRepChange: (rep: string) => void;
+  onExportCallList: () => void;
+  onClientClick: (cnpj: string) => void;
+  onRepClick: (rep: string) => void;
+}
+
+const STATUS_STYLES: Record<ChurnStatus, string> = {
+  churned: 'text-danger',
+  new: 'text-success',
+  reactivated: 'text-secondary'
+};
+
+const fmtMoney = (value: number) => `R$ ${value.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+const fmtDate = (date: string) => date ? date.split('-').reverse().join('/') : '-';
+
+export const ChurnPanel: React.FC<ChurnPanelProps> = ({ clients, counts, status, reps, selectedRep, currentLabel, onStatusChange, onRepChange, onExportCallList, onClientClick, onRepClick }) => (
+  <div>
+    <div className="px-6 py-4 border-b border-white/5 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+      <div className="flex bg-background rounded-md border border-white/10 overflow-hidden w-fit">
+        {(Object.keys(CHURN_STATUS_LABELS) as ChurnStatus[]).map(s => (
+          <button
+            key={s}
+            onClick={() => onStatusChange(s)}
+            className={`px-3 py-1.5 text-[10px] font-bold uppercase tracking-wider transition-colors ${status === s ? 'bg-primary text-background' : 'text-text-dim hover:text-white'}`}
+          >
+            {CHURN_STATUS_LABELS[s]} ({counts[s]})
+          </button>
+        ))}
+      </div>
+      <div className="flex items-center gap-3">
+        <select className="bg-background border border-white/10 text-white text-xs rounded-lg py-2 pl-3 pr-8 outline-none focus:border-primary appearance-none" value={selectedRep} onChange={(e) => onRepChange(e.target.value)}>
+          <option value="">Todos os representantes</option>
+          {reps.map(rep => <option key={rep} value={rep}>{rep}</option>)}
+        </select>
+        <button onClick={onExportCallList} className="px-3 py-2 bg-white/5 hover:bg-white/10 border border-white/10 text-white text-[10px] font-bold rounded-md uppercase tracking-wider">Lista de ligações</button>
+      </div>
+    </div>
+    <div className="overflow-x-auto max-h-[600px] custom-scrollbar">
+      <table className="w-full text-sm text-left relative">
+        <thead className="text-xs text-primary font-bold uppercase bg-card border-b border-white/5 sticky top-0 z-10">
+          <tr>
+            <th className="px-6 py-4">Cliente</th>
+            <th className="px-6 py-4">Representante</th>
+            <th className="px-6 py-4">Região / Setor</th>
+            <th className="px-6 py-4 text-right">Última Compra</th>
+            <th className="px-6 py-4 text-right">Média Mensal</th>
+            <th className="px-6 py-4 text-right">Baseline</th>
+            <th className="px-6 py-4 text-right">{currentLabel}</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-white/5">
+          {clients.map(c => (
+            <tr key={c.cnpj} onClick={() => onClientClick(c.cnpj)} className="hover:bg-white/5 transition-colors group cursor-pointer">
+              <td className="px-6 py-4 max-w-[280px]">
+                <div className="font-bold text-text-main group-hover:text-primary text-xs uppercase truncate" title={c.companyName}>{c.companyName}</div>
+                <div className="text-[10px] font-mono text-text-dim">{c.cnpj} · <span className={STATUS_STYLES[c.status]}>{CHURN_STATUS_LABELS[c.status]}</span></div>
+              </td>
+              <td className="px-6 py-4 text-xs">
+                <button onClick={(e) => { e.stopPropagation(); onRepClick(c.salesRep); }} className="text-text-dim hover:text-primary uppercase text-left">{c.salesRep || '-'}</button>
+              </td>
+              <td className="px-6 py-4 text-xs uppercase text-text-dim">{c.region || '-'} / {c.sector || '-'}</td>
+              <td className="px-6 py-4 text-right font-mono text-xs text-text-dim">{fmtDate(c.lastPurchaseDate)}</td>
+              <td className="px-6 py-4 text-right font-bold text-text-main">{fmtMoney(c.avgMonthlyRevenue)}</td>
+              <td className="px-6 py-4 text-right text-text-dim">{fmtMoney(c.baselineRevenue)}</td>
+              <td className={`px-6 py-4 text-right ${c.currentRevenue > 0 ? 'text-success' : 'text-text-dim'}`}>{fmtMoney(c.currentRevenue)}</td>
+            </tr>
+          ))}
+          {clients.length === 0 && (
+            <tr><td colSpan={7} className="px-6 py-8 text-center text-xs text-text-dim">Nenhum cliente nesta situação.</td></tr>
+          )}
+        </tbody>
+      </table>
+    </div>
+  </div>
+);
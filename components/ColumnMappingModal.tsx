@@ -0,0 +1,136 @@
+import React, { useState, useMemo } from 'react';
+import { ColumnMapping, ColumnMappingProfile, MappableField } from '../types';
+import { SALE_RECORD_FIELDS, suggestColumnMapping, getMissingRequiredFields } from '../services/columnMapping';
+import { parseCSV } from '../services/dataService';
+
+interface ColumnMappingModalProps {
+  fileName: string;
+  csvText: string;
+  headers: string[];
+  profiles: ColumnMappingProfile[];
+  initialProfileName: string;
+  onConfirm: (mapping: ColumnMapping, profileName: string) => void;
+  onCancel: () => void;
+  onSaveProfile: (name: string, mapping: ColumnMapping) => void;
+  onDeleteProfile: (name: string) => void;
+}
+
+const PREVIEW_ROWS = 5;
+const PREVIEW_FIELDS: MappableField[] = ['date', 'cnpj', 'companyName', 'productCode', 'amount', 'quantity', 'operClass', 'channel', 'salesRep'];
+
+export const ColumnMappingModal: React.FC<ColumnMappingModalProps> = ({ fileName, csvText, headers, profiles, initialProfileName, onConfirm, onCancel, onSaveProfile, onDeleteProfile }) => {
+  const [profileName, setProfileName] = useState<string>(initialProfileName);
+  const [mapping, setMapping] = useState<ColumnMapping>(() => suggestColumnMapping(headers, profiles.find(p => p.name === initialProfileName)));
+  const [newProfileName, setNewProfileName] = useState<string>(initialProfileName);
+
+  const preview = useMemo(() => parseCSV(csvText, mapping, PREVIEW_ROWS), [csvText, mapping]);
+  const missingRequired = useMemo(() => getMissingRequiredFields(mapping), [mapping]);
+  const unmappedHeaders = useMemo(() => {
+    const used = new Set(Object.values(mapping).flatMap(cols => cols || []));
+    return headers.filter(h => !used.has(h));
+  }, [headers, mapping]);
+
+  const applyProfile = (name: string) => {
+    setProfileName(name);
+    setNewProfileName(name);
+    setMapping(suggestColumnMapping(headers, profiles.find(p => p.name === name)));
+  };
+
+  const addColumn = (field: MappableField, column: string) => {
+    if (!column) return;
+    setMapping(prev => ({ ...prev, [field]: [...(prev[field] || []).filter(c => c !== column), column] }));
+  };
+
+  const removeColumn = (field: MappableField, column: string) => {
+    setMapping(prev => ({ ...prev, [field]: (prev[field] || []).filter(c => c !== column) }));
+  };
+
+  const fieldLabel = (field: MappableField) => SALE_RECORD_FIELDS.find(d => d.field === field)?.label || field;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-background/80 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="bg-card border border-white/10 rounded-2xl shadow-2xl w-full max-w-5xl max-h-[90vh] flex flex-col overflow-hidden">
+        <div className="px-6 py-4 border-b border-white/5 flex items-center justify-between">
+          <div>
+            <h2 className="text-lg font-bold text-white">Mapeamento de Colunas</h2>
+            <p className="text-xs text-text-dim">{fileName} · {headers.length} colunas detectadas</p>
+          </div>
+          <div className="flex items-center gap-2">
+            <select className="bg-background border border-white/10 text-white text-xs rounded-lg py-2 pl-3 outline-none focus:border-primary appearance-none" value={profileName} onChange={(e) => applyProfile(e.target.value)}>
+              <option value="">Sugestão automática</option>
+              {profiles.map(p => <option key={p.name} value={p.name}>{p.name}</option>)}
+            </select>
+            {profileName && (
+              <button onClick={() => { onDeleteProfile(profileName); applyProfile(''); }} className="text-[10px] text-danger hover:underline uppercase font-bold">Excluir perfil</button>
+            )}
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-6 space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            {SALE_RECORD_FIELDS.map(def => {
+              const columns = mapping[def.field] || [];
+              return (
+                <div key={def.field} className={`bg-background/60 border rounded-lg p-3 ${def.required && columns.length === 0 ? 'border-danger/50' : 'border-white/5'}`}>
+                  <div className="flex items-center justify-between mb-2">
+                    <span className="text-[10px] font-bold uppercase tracking-wider text-text-dim">{def.label}{def.required && <span className="text-danger"> *</span>}</span>
+                    <select className="bg-card border border-white/10 text-white text-[10px] rounded py-1 pl-2 outline-none focus:border-primary appearance-none max-w-[180px]" value="" onChange={(e) => addColumn(def.field, e.target.value)}>
+                      <option value="">+ coluna</option>
+                      {headers.filter(h => !columns.includes(h)).map(h => <option key={h} value={h}>{h}</option>)}
+                    </select>
+                  </div>
+                  <div className="flex flex-wrap gap-1.5">
+                    {columns.length === 0 && <span className="text-[10px] text-text-dim italic">Não mapeado (usa valor padrão)</span>}
+                    {columns.map((col, i) => (
+                      <span key={col} className="inline-flex items-center gap-1 bg-primary/10 border border-primary/30 text-primary text-[10px] font-mono rounded px-2 py-0.5">
+                        {i > 0 && <span className="text-text-dim">senão</span>}{col}
+                        <button onClick={() => removeColumn(def.field, col)} className="text-text-dim hover:text-danger">×</button>
+                      </span>
+                    ))}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+
+          {unmappedHeaders.length > 0 && (
+            <p className="text-[10px] text-text-dim">Colunas ignoradas: <span className="font-mono">{unmappedHeaders.join(', ')}</span></p>
+          )}
+
+          <div>
+            <h3 className="text-xs font-bold text-primary uppercase tracking-widest mb-2">Pré-visualização ({preview.length} de {PREVIEW_ROWS} linhas)</h3>
+            <div className="overflow-x-auto custom-scrollbar border border-white/5 rounded-lg">
+              <table className="w-full text-[10px] text-left">
+                <thead className="bg-white/5 text-text-dim uppercase">
+                  <tr>{PREVIEW_FIELDS.map(f => <th key={f} className="px-3 py-2 whitespace-nowrap">{fieldLabel(f)}</th>)}</tr>
+                </thead>
+                <tbody className="divide-y divide-white/5">
+                  {preview.map(record => (
+                    <tr key={record.id}>
+                      {PREVIEW_FIELDS.map(f => <td key={f} className="px-3 py-2 text-text-main whitespace-nowrap max-w-[200px] truncate">{String(record[f] ?? '')}</td>)}
+                    </tr>
+                  ))}
+                  {preview.length === 0 && (
+                    <tr><td colSpan={PREVIEW_FIELDS.length} className="px-3 py-4 text-center text-danger">Nenhuma linha válida com o mapeamento atual (verifique a coluna de data).</td></tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </div>
+
+        <div className="px-6 py-4 border-t border-white/5 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+          <div className="flex items-center gap-2">
+            <input type="text" placeholder="Nome do perfil" className="bg-background border border-white/10 text-white text-xs rounded-lg px-3 py-2 outline-none focus:border-primary" value={newProfileName} onChange={(e) => setNewProfileName(e.target.value)} />
+            <button onClick={() => { onSaveProfile(newProfileName, mapping); setProfileName(newProfileName.trim()); }} disabled={!newProfileName.trim()} className="px-3 py-2 bg-white/5 hover:bg-white/10 border border-white/10 text-white text-xs font-bold rounded-md uppercase disabled:opacity-50">Salvar perfil</button>
+          </div>
+          <div className="flex items-center gap-3">
+            {missingRequired.length > 0 && <span className="text-[10px] text-danger">Obrigatórios sem coluna: {missingRequired.map(d => d.label).join(', ')}</span>}
+            <button onClick={onCancel} className="px-4 py-2 text-xs text-text-dim hover:text-white uppercase font-bold">Cancelar</button>
+            <button onClick={() => onConfirm(mapping, profileName)} disabled={preview.length === 0} className="px-4 py-2 bg-primary text-background text-xs font-bold rounded-md uppercase disabled:opacity-50">Importar</button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import { DataSourceConfig, DataSourceKind, DataSourceState, ColumnMappingProfile } from '../types';
+import { DATA_SOURCE_ADAPTERS, GVIZ_BASE_URL, describeSource, createSourceId } from '../services/dataSources';
+
+interface DataSourcesPanelProps {
+  sources: DataSourceConfig[];
+  states: Record<string, DataSourceState>;
+  activeSourceId: string;
+  profiles: ColumnMappingProfile[];
+  onActivate: (id: string) => void;
+  onSync: (id: string) => void;
+  onSave: (source: DataSourceConfig) => void;
+  onRemove: (id: string) => void;
+  onClose: () => void;
+}
+
+const STATUS_STYLES: Record<string, { label: string, className: string }> = {
+  idle: { label: 'Não sincronizada', className: 'bg-white/10 text-text-dim' },
+  loading: { label: 'Sincronizando...', className: 'bg-secondary/20 text-secondary animate-pulse' },
+  ready: { label: 'OK', className: 'bg-success/20 text-success' },
+  error: { label: 'Erro', className: 'bg-danger/20 text-danger' }
+};
+
+const EMPTY_DRAFT: DataSourceConfig = { id: '', name: '', kind: 'googleSheets', sheetId: '', sheetName: '', url: '' };
+
+const inputClass = "w-full bg-background border border-white/10 text-white text-xs rounded-lg px-3 py-2 outline-none focus:border-primary";
+
+export const DataSourcesPanel: React.FC<DataSourcesPanelProps> = ({ sources, states, activeSourceId, profiles, onActivate, onSync, onSave, onRemove, onClose }) => {
+  const [draft, setDraft] = useState<DataSourceConfig | null>(null);
+
+  const isDraftValid = !!draft && draft.name.trim().length > 0 && (
+    (draft.kind === 'googleSheets' && !!draft.sheetId?.trim()) ||
+    (draft.kind === 'csvUrl' && /^https?:\/\//i.test(draft.url || ''))
+  );
+
+  const handleSaveDraft = () => {
+    if (!draft || !isDraftValid) return;
+    onSave({ ...draft, id: draft.id || createSourceId(draft.kind), name: draft.name.trim() });
+    setDraft(null);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-background/80 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="bg-card border border-white/10 rounded-2xl shadow-2xl w-full max-w-3xl max-h-[90vh] flex flex-col overflow-hidden">
+        <div className="px-6 py-4 border-b border-white/5 flex items-center justify-between">
+          <div>
+            <h2 className="text-lg font-bold text-white">Fontes de Dados</h2>
+            <p className="text-xs text-text-dim">Planilhas, CSVs publicados e arquivos carregados. A fonte ativa alimenta o painel.</p>
+          </div>
+          <button onClick={onClose} className="text-text-dim hover:text-white text-xl leading-none">×</button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-6 space-y-3">
+          {sources.map(source => {
+            const state = states[source.id] || { status: 'idle' };
+            const style = STATUS_STYLES[state.status];
+            const isActive = source.id === activeSourceId;
+            return (
+              <div key={source.id} className={`border rounded-lg p-4 ${isActive ? 'border-primary/50 bg-primary/5' : 'border-white/5 bg-background/40'}`}>
+                <div className="flex items-start justify-between gap-4">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm font-bold text-white truncate">{source.name}</span>
+                      {isActive && <span className="text-[9px] font-bold uppercase tracking-wider text-primary">Ativa</span>}
+                      <span className={`text-[9px] font-bold uppercase tracking-wider px-2 py-0.5 rounded ${style.className}`}>{style.label}</span>
+                    </div>
+                    <p className="text-[10px] text-text-dim font-mono truncate mt-1">{DATA_SOURCE_ADAPTERS[source.kind].label} · {describeSource(source)}</p>
+                    <p className="text-[10px] text-text-dim mt-1">
+                      {state.lastSyncAt ? `Última sincronização: ${new Date(state.lastSyncAt).toLocaleString('pt-BR')}` : 'Nunca sincronizada'}
+                      {state.recordCount !== undefined && ` · ${state.recordCount.toLocaleString('pt-BR')} registros`}
+                    </p>
+                    {state.error && <p className="text-[10px] text-danger mt-1">{state.error}</p>}
+                  </div>
+                  <div className="flex items-center gap-2 flex-shrink-0">
+                    {!isActive && <button onClick={() => onActivate(source.id)} disabled={state.status === 'loading'} className="px-3 py-1.5 bg-primary text-background text-[10px] font-bold rounded uppercase disabled:opacity-50">Ativar</button>}
+                    <button onClick={() => onSync(source.id)} disabled={state.status === 'loading'} className="px-3 py-1.5 bg-white/5 hover:bg-white/10 border border-white/10 text-white text-[10px] font-bold rounded uppercase disabled:opacity-50">Sincronizar</button>
+                    {source.kind !== 'localFile' && <button onClick={() => setDraft({ ...source })} className="text-[10px] text-text-dim hover:text-white uppercase font-bold">Editar</button>}
+                    {sources.length > 1 && !isActive && <button onClick={() => onRemove(source.id)} className="text-[10px] text-danger hover:underline uppercase font-bold">Remover</button>}
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+
+          {draft ? (
+            <div className="border border-white/10 rounded-lg p-4 space-y-3 bg-background/40">
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <input type="text" placeholder="Nome (ex: Regional Sul)" className={inputClass} value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} />
+                <select className={`${inputClass} appearance-none`} value={draft.kind} onChange={(e) => setDraft({ ...draft, kind: e.target.value as DataSourceKind })} disabled={!!draft.id}>
+                  <option value="googleSheets">Google Sheets</option>
+                  <option value="csvUrl">CSV (URL)</option>
+                </select>
+                {draft.kind === 'googleSheets' && (
+                  <>
+                    <input type="text" placeholder="ID da planilha" className={`${inputClass} font-mono`} value={draft.sheetId || ''} onChange={(e) => setDraft({ ...draft, sheetId: e.target.value.trim() })} />
+                    <input type="text" placeholder="Aba (opcional)" className={inputClass} value={draft.sheetName || ''} onChange={(e) => setDraft({ ...draft, sheetName: e.target.value })} />
+                    <input type="text" placeholder={`Endpoint gviz (opcional, padrão ${GVIZ_BASE_URL})`} className={`${inputClass} font-mono sm:col-span-2`} value={draft.baseUrl || ''} onChange={(e) => setDraft({ ...draft, baseUrl: e.target.value.trim() || undefined })} />
+                  </>
+                )}
+                {draft.kind === 'csvUrl' && (
+                  <input type="text" placeholder="https://.../dados.csv" className={`${inputClass} font-mono sm:col-span-2`} value={draft.url || ''} onChange={(e) => setDraft({ ...draft, url: e.target.value.trim() })} />
+                )}
+                <select className={`${inputClass} appearance-none`} value={draft.mappingProfile || ''} onChange={(e) => setDraft({ ...draft, mappingProfile: e.target.value || undefined })}>
+                  <option value="">Mapeamento: sugestão automática</option>
+                  {profiles.map(p => <option key={p.name} value={p.name}>Mapeamento: {p.name}</option>)}
+                </select>
+              </div>
+              <div className="flex justify-end gap-3">
+                <button onClick={() => setDraft(null)} className="px-3 py-2 text-xs text-text-dim hover:text-white uppercase font-bold">Cancelar</button>
+                <button onClick={handleSaveDraft} disabled={!isDraftValid} className="px-3 py-2 bg-primary text-background text-xs font-bold rounded-md uppercase disabled:opacity-50">Salvar fonte</button>
+              </div>
+            </div>
+          ) : (
+            <button onClick={() => setDraft({ ...EMPTY_DRAFT })} className="w-full border border-dashed border-white/10 hover:border-primary/50 rounded-lg py-3 text-xs font-bold uppercase tracking-wider text-text-dim hover:text-primary transition-colors">+ Nova fonte</button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
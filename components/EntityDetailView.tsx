@@ -0,0 +1,170 @@
+import React, { useState } from 'react';
+import { EntityDetail, EntityRef, KPIStats, OrderSummary } from '../types';
+import { ENTITY_LABELS } from '../services/entityService';
+import { calcTrend } from '../services/dataService';
+import { StatCard } from './StatCard';
+
+interface EntityDetailViewProps {
+  detail: EntityDetail;
+  breadcrumb: { label: string, onClick: () => void }[];
+  currentLabel: string;
+  trendLabel: string;
+  onNavigate: (ref: EntityRef) => void;
+}
+
+const ORDERS_PAGE_SIZE = 50;
+
+const fmtCurrency = (v: number) => `R$ ${v.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+const fmtDate = (date: string) => date.split('-').reverse().join('/');
+
+const KPI_CARDS: { key: keyof KPIStats, title: string, format: (v: number) => string, icon: string }[] = [
+  { key: 'totalRevenue', title: 'Faturamento', format: fmtCurrency, icon: '💰' },
+  { key: 'positivacao', title: 'Positivação', format: v => Math.round(v).toLocaleString('pt-BR'), icon: '👥' },
+  { key: 'totalOrders', title: 'Pedidos', format: v => Math.round(v).toLocaleString('pt-BR'), icon: '🧾' },
+  { key: 'averageTicket', title: 'Ticket Médio', format: fmtCurrency, icon: '📈' },
+  { key: 'skuPerPdv', title: 'SKU x PDV', format: v => v.toFixed(2), icon: '📊' },
+  { key: 'avgInstallments', title: 'Parcelas Médias', format: v => `${v.toFixed(1)}x`, icon: '💳' },
+  { key: 'avgTerm', title: 'Prazo Médio', format: v => `${v.toFixed(0)} dias`, icon: '📅' }
+];
+
+const OrdersTable = ({ orders, showClient, showRep, onNavigate }: { orders: OrderSummary[], showClient: boolean, showRep: boolean, onNavigate: (ref: EntityRef) => void }) => {
+  const [visible, setVisible] = useState(ORDERS_PAGE_SIZE);
+  if (orders.length === 0) return <p className="px-6 py-4 text-xs text-text-dim">Nenhum registro no período.</p>;
+  return (
+    <div className="overflow-x-auto max-h-[500px] custom-scrollbar">
+      <table className="w-full text-xs text-left">
+        <thead className="text-[10px] text-primary font-bold uppercase bg-card border-b border-white/5 sticky top-0 z-10">
+          <tr>
+            <th className="px-4 py-3">Data</th>
+            <th className="px-4 py-3">Pedido</th>
+            {showClient && <th className="px-4 py-3">Cliente</th>}
+            <th className="px-4 py-3">Representante</th>
+            <th className="px-4 py-3">Prazo</th>
+            <th className="px-4 py-3 text-right">Itens</th>
+            <th className="px-4 py-3 text-right">Valor</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-white/5">
+          {orders.slice(0, visible).map(o => (
+            <tr key={`${o.orderId}|${o.operClass}`} className="hover:bg-white/5 transition-colors">
+              <td className="px-4 py-2 font-mono text-text-dim">{fmtDate(o.date)}</td>
+              <td className="px-4 py-2 font-mono text-text-dim">{o.orderId || '-'}</td>
+              {showClient && <td className="px-4 py-2 text-text-main max-w-[220px] truncate"><button onClick={() => onNavigate({ type: 'client', id: o.cnpj })} className="hover:text-primary hover:underline truncate max-w-full" title={o.companyName}>{o.companyName || o.cnpj}</button></td>}
+              <td className="px-4 py-2 text-text-dim uppercase">{showRep ? <button onClick={() => onNavigate({ type: 'rep', id: o.salesRep })} className="hover:text-primary hover:underline uppercase">{o.salesRep}</button> : o.salesRep}</td>
+              <td className="px-4 py-2 text-text-dim">{o.paymentTerms || '-'}</td>
+              <td className="px-4 py-2 text-right text-text-dim">{o.itemCount}</td>
+              <td className={`px-4 py-2 text-right font-bold ${o.amount < 0 ? 'text-danger' : 'text-text-main'}`}>{fmtCurrency(o.amount)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {orders.length > visible && (
+        <button onClick={() => setVisible(v => v + ORDERS_PAGE_SIZE)} className="w-full py-3 text-[10px] font-bold uppercase tracking-wider text-text-dim hover:text-primary">Mostrar mais ({orders.length - visible} restantes)</button>
+      )}
+    </div>
+  );
+};
+
+export const EntityDetailView: React.FC<EntityDetailViewProps> = ({ detail, breadcrumb, currentLabel, trendLabel, onNavigate }) => {
+  const showClient = detail.ref.type !== 'client';
+  const showRep = detail.ref.type !== 'rep';
+  const returnsTotal = detail.returns.reduce((acc, o) => acc + o.amount, 0);
+
+  const monthlyRows: { label: string, format: (v: number) => string, value: (m: EntityDetail['monthly'][number]) => number }[] = [
+    { label: 'Faturamento', format: fmtCurrency, value: m => m.revenue },
+    { label: 'Positivação', format: v => Math.round(v).toLocaleString('pt-BR'), value: m => m.positivacao },
+    { label: 'Ticket Médio', format: fmtCurrency, value: m => m.ticketMedio },
+    { label: 'SKU x PDV', format: v => v.toFixed(2), value: m => m.skuPdv }
+  ];
+
+  return (
+    <div className="space-y-8">
+      <nav className="flex items-center flex-wrap gap-2 text-[10px] font-bold uppercase tracking-wider">
+        {breadcrumb.map((crumb, i) => (
+          <React.Fragment key={i}>
+            <button onClick={crumb.onClick} className="text-text-dim hover:text-primary transition-colors max-w-[240px] truncate">{crumb.label}</button>
+            <span className="text-text-dim/50">›</span>
+          </React.Fragment>
+        ))}
+        <span className="text-primary max-w-[320px] truncate">{detail.name}</span>
+      </nav>
+
+      <div>
+        <div className="text-[10px] font-bold uppercase tracking-widest text-primary">{ENTITY_LABELS[detail.ref.type]}</div>
+        <h2 className="text-2xl font-bold text-white">{detail.name}</h2>
+        <p className="text-xs text-text-dim mt-1">{detail.subtitle}</p>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-5">
+        {KPI_CARDS.map(card => (
+          <StatCard
+            key={card.key}
+            title={`${card.title} (${currentLabel})`}
+            value={card.format(detail.currentKPIs[card.key])}
+            trend={calcTrend(detail.currentKPIs[card.key], detail.baselineKPIs[card.key])}
+            trendLabel={trendLabel}
+            icon={<span className="text-xl">{card.icon}</span>}
+          />
+        ))}
+      </div>
+
+      <div className="bg-card rounded-xl border border-white/5 overflow-hidden">
+        <div className="px-6 py-4 border-b border-white/5"><h3 className="text-sm font-bold text-primary uppercase tracking-widest">Evolução Mensal</h3></div>
+        <div className="overflow-x-auto custom-scrollbar">
+          <table className="w-full text-xs text-left">
+            <thead className="text-[10px] text-text-dim font-bold uppercase bg-white/5">
+              <tr>
+                <th className="px-4 py-3">Indicador</th>
+                {detail.monthly.map(m => <th key={m.sortKey} className="px-4 py-3 text-right whitespace-nowrap">{m.name}/{m.sortKey.slice(2, 4)}</th>)}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-white/5">
+              {monthlyRows.map(row => (
+                <tr key={row.label}>
+                  <td className="px-4 py-3 font-bold text-text-main whitespace-nowrap">{row.label}</td>
+                  {detail.monthly.map(m => <td key={m.sortKey} className="px-4 py-3 text-right font-mono text-text-dim whitespace-nowrap">{row.format(row.value(m))}</td>)}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 xl:grid-cols-2 gap-8">
+        <div className="bg-card rounded-xl border border-white/5 overflow-hidden">
+          <div className="px-6 py-4 border-b border-white/5"><h3 className="text-sm font-bold text-primary uppercase tracking-widest">{detail.topItemsType === 'product' ? 'Top Produtos' : 'Top Clientes'}</h3></div>
+          <table className="w-full text-xs text-left">
+            <thead className="text-[10px] text-text-dim font-bold uppercase bg-white/5">
+              <tr><th className="px-4 py-3">{detail.topItemsType === 'product' ? 'Produto' : 'Cliente'}</th><th className="px-4 py-3 text-right">Faturamento</th><th className="px-4 py-3 text-right">{detail.topItemsType === 'product' ? 'Clientes' : 'Quantidade'}</th></tr>
+            </thead>
+            <tbody className="divide-y divide-white/5">
+              {detail.topItems.map(item => (
+                <tr key={item.id} onClick={() => onNavigate({ type: detail.topItemsType, id: item.id })} className="hover:bg-white/5 transition-colors cursor-pointer group">
+                  <td className="px-4 py-2 text-text-main group-hover:text-primary max-w-[280px] truncate" title={item.name}><span className="font-mono text-text-dim mr-2">{item.id}</span>{item.name}</td>
+                  <td className="px-4 py-2 text-right font-bold text-text-main">{fmtCurrency(item.value)}</td>
+                  <td className="px-4 py-2 text-right text-text-dim">{Math.round(item.subValue).toLocaleString('pt-BR')}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="bg-card rounded-xl border border-white/5 overflow-hidden">
+          <div className="px-6 py-4 border-b border-white/5 flex items-center justify-between">
+            <h3 className="text-sm font-bold text-primary uppercase tracking-widest">Devoluções</h3>
+            <span className="text-xs font-mono text-danger">{detail.returns.length} notas · {fmtCurrency(returnsTotal)}</span>
+          </div>
+          <OrdersTable orders={detail.returns} showClient={showClient} showRep={showRep} onNavigate={onNavigate} />
+        </div>
+      </div>
+
+      <div className="bg-card rounded-xl border border-white/5 overflow-hidden">
+        <div className="px-6 py-4 border-b border-white/5 flex items-center justify-between">
+          <h3 className="text-sm font-bold text-primary uppercase tracking-widest">Histórico de Pedidos</h3>
+          <span className="text-xs text-text-dim">{detail.orders.length.toLocaleString('pt-BR')} pedidos</span>
+        </div>
+        <OrdersTable orders={detail.orders} showClient={showClient} showRep={showRep} onNavigate={onNavigate} />
+      </div>
+    </div>
+  );
+};
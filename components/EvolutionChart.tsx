@@ -0,0 +1,175 @@
+import React, { useState, useMemo } from 'react';
+import { KPIStats, MonthlyMetric, SectorMonthlyMetric, ReferencePeriod } from '../types';
+import { getPeriodMonths } from '../services/periodService';
+
+interface EvolutionChartProps {
+  monthly: MonthlyMetric[]; // Total com os filtros atuais
+  sectorMonthly: SectorMonthlyMetric[];
+  period: ReferencePeriod;
+}
+
+type ChartKind = 'line' | 'bar';
+
+const fmtCurrency = (v: number) => `R$ ${v.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+const fmtCompactCurrency = (v: number) => `R$ ${v.toLocaleString('pt-BR', { notation: 'compact', maximumFractionDigits: 1 })}`;
+
+export const KPI_METRICS: { key: keyof KPIStats, label: string, format: (v: number) => string, axis: (v: number) => string }[] = [
+  { key: 'totalRevenue', label: 'Faturamento', format: fmtCurrency, axis: fmtCompactCurrency },
+  { key: 'positivacao', label: 'Positivação', format: v => Math.round(v).toLocaleString('pt-BR'), axis: v => Math.round(v).toLocaleString('pt-BR') },
+  { key: 'totalOrders', label: 'Pedidos', format: v => Math.round(v).toLocaleString('pt-BR'), axis: v => Math.round(v).toLocaleString('pt-BR') },
+  { key: 'averageTicket', label: 'Ticket Médio', format: fmtCurrency, axis: fmtCompactCurrency },
+  { key: 'skuPerPdv', label: 'SKU x PDV', format: v => v.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 }), axis: v => v.toLocaleString('pt-BR', { maximumFractionDigits: 1 }) },
+  { key: 'avgTerm', label: 'Prazo Médio', format: v => `${v.toLocaleString('pt-BR', { maximumFractionDigits: 0 })} dias`, axis: v => v.toLocaleString('pt-BR', { maximumFractionDigits: 0 }) },
+  { key: 'avgInstallments', label: 'Parcela Média', format: v => `${v.toLocaleString('pt-BR', { minimumFractionDigits: 1, maximumFractionDigits: 1 })}x`, axis: v => v.toLocaleString('pt-BR', { maximumFractionDigits: 1 }) }
+];
+
+const TOTAL_SERIES = 'Total';
+const SERIES_COLORS = ['#E2F64E', '#38BDF8', '#10b981', '#f59e0b', '#ef4444', '#a78bfa', '#f472b6', '#2dd4bf', '#fb923c', '#94A3B8'];
+
+const WIDTH = 720;
+const HEIGHT = 240;
+const PADDING = { top: 12, right: 12, bottom: 28, left: 72 };
+const Y_TICKS = 4;
+
+export const EvolutionChart: React.FC<EvolutionChartProps> = ({ monthly, sectorMonthly, period }) => {
+  const [metricKey, setMetricKey] = useState<keyof KPIStats>('totalRevenue');
+  const [kind, setKind] = useState<ChartKind>('line');
+  // Setores desligados (guardar os ocultos faz setores novos aparecerem por padrão)
+  const [hidden, setHidden] = useState<Set<string>>(new Set());
+  const [hoverIndex, setHoverIndex] = useState<number | null>(null);
+
+  const metric = KPI_METRICS.find(m => m.key === metricKey) || KPI_METRICS[0];
+
+  const sectors = useMemo(() => {
+    const totals: Record<string, number> = {};
+    sectorMonthly.forEach(m => Object.keys(m.sectors).forEach(sector => { totals[sector] = (totals[sector] || 0) + m.sectors[sector].totalRevenue; }));
+    return Object.keys(totals).sort((a, b) => totals[b] - totals[a]);
+  }, [sectorMonthly]);
+
+  const allSeries = [TOTAL_SERIES, ...sectors];
+  const colorOf = (series: string) => SERIES_COLORS[allSeries.indexOf(series) % SERIES_COLORS.length];
+  const visibleSeries = allSeries.filter(s => !hidden.has(s));
+
+  const months = monthly.map(m => m.sortKey);
+  const valueOf = (series: string, index: number): number | undefined => {
+    if (series === TOTAL_SERIES) return monthly[index]?.kpis[metricKey];
+    const row = sectorMonthly.find(m => m.sortKey === months[index]);
+    return row?.sectors[series]?.[metricKey];
+  };
+
+  const values = visibleSeries.flatMap(s => months.map((_, i) => valueOf(s, i) ?? 0));
+  const maxValue = Math.max(0, ...values);
+  const minValue = Math.min(0, ...values);
+  const range = maxValue - minValue || 1;
+
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+  const slot = months.length > 0 ? plotWidth / months.length : plotWidth;
+  const x = (i: number) => PADDING.left + slot * (i + 0.5);
+  const y = (v: number) => PADDING.top + plotHeight - ((v - minValue) / range) * plotHeight;
+
+  const periodMonths = new Set(getPeriodMonths(period));
+  const toggleSeries = (series: string) => {
+    setHidden(prev => {
+      const next = new Set(prev);
+      if (next.has(series)) next.delete(series); else next.add(series);
+      return next;
+    });
+  };
+
+  const barGroupWidth = slot * 0.8;
+  const barWidth = visibleSeries.length > 0 ? barGroupWidth / visibleSeries.length : barGroupWidth;
+
+  return (
+    <div className="bg-card rounded-xl border border-white/5 p-6 space-y-4">
+      <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-3">
+        <h3 className="text-sm font-bold text-white">Evolução Mensal</h3>
+        <div className="flex flex-wrap items-center gap-3">
+          <select className="bg-background border border-white/10 text-white text-xs rounded-lg py-2 pl-3 pr-8 outline-none focus:border-primary appearance-none" value={metricKey} onChange={(e) => setMetricKey(e.target.value as keyof KPIStats)}>
+            {KPI_METRICS.map(m => <option key={m.key} value={m.key}>{m.label}</option>)}
+          </select>
+          <div className="flex bg-background rounded-md border border-white/10 overflow-hidden">
+            {([['line', 'Linha'], ['bar', 'Barras']] as [ChartKind, string][]).map(([value, label]) => (
+              <button key={value} onClick={() => setKind(value)} className={`px-3 py-1.5 text-[10px] font-bold uppercase tracking-wider transition-colors ${kind === value ? 'bg-primary text-background' : 'text-text-dim hover:text-white'}`}>{label}</button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {allSeries.map(series => (
+          <button
+            key={series}
+            onClick={() => toggleSeries(series)}
+            className={`flex items-center gap-1.5 px-2 py-1 rounded border text-[10px] font-bold uppercase tracking-wider transition-colors ${hidden.has(series) ? 'border-white/5 text-text-dim/50' : 'border-white/10 text-text-main'}`}
+          >
+            <span className="w-2.5 h-2.5 rounded-sm" style={{ backgroundColor: hidden.has(series) ? 'transparent' : colorOf(series), border: `1px solid ${colorOf(series)}` }}></span>
+            {series}
+          </button>
+        ))}
+      </div>
+
+      {months.length === 0 ? (
+        <p className="text-xs text-text-dim py-10 text-center">Sem dados no período filtrado.</p>
+      ) : (
+        <div className="relative">
+          <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" onMouseLeave={() => setHoverIndex(null)}>
+            {Array.from({ length: Y_TICKS + 1 }, (_, i) => minValue + (range * i) / Y_TICKS).map(tick => (
+              <g key={tick}>
+                <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={y(tick)} y2={y(tick)} stroke="#ffffff" strokeOpacity={tick === 0 ? 0.25 : 0.06} />
+                <text x={PADDING.left - 8} y={y(tick)} textAnchor="end" dominantBaseline="middle" className="fill-text-dim" fontSize={10}>{metric.axis(tick)}</text>
+              </g>
+            ))}
+
+            {months.map((month, i) => (
+              <g key={month}>
+                {month === period.currentMonth && <rect x={x(i) - slot / 2} y={PADDING.top} width={slot} height={plotHeight} fill="#E2F64E" fillOpacity={0.05} />}
+                {hoverIndex === i && <rect x={x(i) - slot / 2} y={PADDING.top} width={slot} height={plotHeight} fill="#ffffff" fillOpacity={0.04} />}
+                <text x={x(i)} y={HEIGHT - 10} textAnchor="middle" fontSize={10} className={periodMonths.has(month) ? 'fill-text-main' : 'fill-text-dim'}>{monthly[i].name}/{month.slice(2, 4)}</text>
+              </g>
+            ))}
+
+            {kind === 'line'
+              ? visibleSeries.map(series => {
+                  const points = months.map((_, i) => ({ i, v: valueOf(series, i) })).filter(p => p.v !== undefined) as { i: number, v: number }[];
+                  return (
+                    <g key={series}>
+                      <polyline points={points.map(p => `${x(p.i)},${y(p.v)}`).join(' ')} fill="none" stroke={colorOf(series)} strokeWidth={series === TOTAL_SERIES ? 2.5 : 1.5} />
+                      {points.map(p => <circle key={p.i} cx={x(p.i)} cy={y(p.v)} r={hoverIndex === p.i ? 4 : 2.5} fill={colorOf(series)} />)}
+                    </g>
+                  );
+                })
+              : visibleSeries.map((series, s) => months.map((_, i) => {
+                  const v = valueOf(series, i);
+                  if (v === undefined) return null;
+                  const top = Math.min(y(v), y(0));
+                  return <rect key={`${series}-${i}`} x={x(i) - barGroupWidth / 2 + s * barWidth} y={top} width={Math.max(barWidth - 1, 1)} height={Math.abs(y(v) - y(0))} fill={colorOf(series)} fillOpacity={0.8} />;
+                }))}
+
+            {months.map((month, i) => (
+              <rect key={month} x={x(i) - slot / 2} y={PADDING.top} width={slot} height={plotHeight} fill="transparent" onMouseEnter={() => setHoverIndex(i)} />
+            ))}
+          </svg>
+
+          {hoverIndex !== null && (
+            <div
+              className="absolute top-2 pointer-events-none bg-background/95 border border-white/10 rounded-lg px-3 py-2 text-[10px] shadow-xl z-10 min-w-[160px]"
+              style={hoverIndex < months.length / 2 ? { left: `${(x(hoverIndex) / WIDTH) * 100 + 2}%` } : { right: `${100 - (x(hoverIndex) / WIDTH) * 100 + 2}%` }}
+            >
+              <div className="font-bold text-white mb-1">{monthly[hoverIndex].name}/{months[hoverIndex].slice(0, 4)} · {metric.label}</div>
+              {visibleSeries.map(series => {
+                const v = valueOf(series, hoverIndex);
+                return (
+                  <div key={series} className="flex items-center justify-between gap-3">
+                    <span className="flex items-center gap-1.5 text-text-dim"><span className="w-2 h-2 rounded-sm" style={{ backgroundColor: colorOf(series) }}></span>{series}</span>
+                    <span className="font-mono text-text-main">{v === undefined ? '-' : metric.format(v)}</span>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
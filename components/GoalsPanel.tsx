@@ -0,0 +1,129 @@
+import React, { useRef, useState } from 'react';
+import { SalesGoal, GoalScope, GoalMetric } from '../types';
+import { GOAL_SCOPE_LABELS, GOAL_METRIC_LABELS, exportSalesGoalsCSV, parseGoalValue } from '../services/goalService';
+import { formatMonthLong, shiftMonth } from '../services/periodService';
+import { downloadCSV } from '../services/csvExport';
+
+interface GoalsPanelProps {
+  goals: SalesGoal[];
+  initialMonth: string;
+  availableMonths: string[];
+  options: Record<GoalScope, string[]>; // Alvos existentes na base, por escopo
+  onSave: (goal: SalesGoal) => void;
+  onDelete: (goal: SalesGoal) => void;
+  onImport: (csv: string) => void;
+  onClose: () => void;
+}
+
+const inputClass = "bg-background border border-white/10 text-white text-xs rounded-lg px-3 py-2 outline-none focus:border-primary";
+
+const formatGoalValue = (goal: Pick<SalesGoal, 'metric' | 'value'>) => {
+  if (goal.metric === 'totalRevenue') return `R$ ${goal.value.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+  if (goal.metric === 'skuPerPdv') return goal.value.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  return Math.round(goal.value).toLocaleString('pt-BR');
+};
+
+export const GoalsPanel: React.FC<GoalsPanelProps> = ({ goals, initialMonth, availableMonths, options, onSave, onDelete, onImport, onClose }) => {
+  const [month, setMonth] = useState(initialMonth);
+  const [draft, setDraft] = useState<{ scope: GoalScope, target: string, metric: GoalMetric, value: string }>({ scope: 'rep', target: '', metric: 'totalRevenue', value: '' });
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  // Meses com dados + o próximo, para cadastrar metas antes do mês começar
+  const months = Array.from(new Set([...availableMonths, shiftMonth(availableMonths[availableMonths.length - 1] || initialMonth, 1), ...goals.map(g => g.month)])).sort().reverse();
+  const monthGoals = goals.filter(g => g.month === month);
+  const draftValue = parseGoalValue(draft.value);
+  const isDraftValid = !!draft.target && draft.value.trim() !== '' && Number.isFinite(draftValue) && draftValue >= 0;
+
+  const handleAdd = () => {
+    if (!isDraftValid) return;
+    onSave({ month, scope: draft.scope, target: draft.target, metric: draft.metric, value: draftValue });
+    setDraft({ ...draft, target: '', value: '' });
+  };
+
+  const handleImportFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      const text = e.target?.result as string;
+      if (text) onImport(text);
+    };
+    reader.readAsText(file);
+    if (importInputRef.current) importInputRef.current.value = '';
+  };
+
+  const handleExport = () => {
+    downloadCSV(exportSalesGoalsCSV(goals), `metas_${new Date().toISOString().slice(0, 10)}.csv`);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-background/80 backdrop-blur-sm flex items-center justify-center p-4">
+      <input type="file" ref={importInputRef} onChange={handleImportFile} accept=".csv,text/csv" className="hidden" />
+      <div className="bg-card border border-white/10 rounded-2xl shadow-2xl w-full max-w-3xl max-h-[90vh] flex flex-col overflow-hidden">
+        <div className="px-6 py-4 border-b border-white/5 flex items-center justify-between">
+          <div>
+            <h2 className="text-lg font-bold text-white">Metas</h2>
+            <p className="text-xs text-text-dim">Metas mensais de faturamento, positivação e SKU x PDV por representante, setor ou região.</p>
+          </div>
+          <button onClick={onClose} className="text-text-dim hover:text-white text-xl leading-none">×</button>
+        </div>
+
+        <div className="px-6 py-4 border-b border-white/5 flex items-center justify-between gap-3">
+          <select className={`${inputClass} appearance-none`} value={month} onChange={(e) => setMonth(e.target.value)}>
+            {months.map(m => <option key={m} value={m}>{formatMonthLong(m)}</option>)}
+          </select>
+          <div className="flex items-center gap-2">
+            <button onClick={() => importInputRef.current?.click()} className="px-3 py-2 bg-white/5 hover:bg-white/10 border border-white/10 text-white text-[10px] font-bold rounded-md uppercase">Importar CSV</button>
+            <button onClick={handleExport} disabled={goals.length === 0} className="px-3 py-2 bg-white/5 hover:bg-white/10 border border-white/10 text-white text-[10px] font-bold rounded-md uppercase disabled:opacity-50">Exportar CSV</button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar px-6 py-4">
+          {monthGoals.length === 0 ? (
+            <p className="text-xs text-text-dim">Nenhuma meta cadastrada para {formatMonthLong(month)}.</p>
+          ) : (
+            <table className="w-full text-xs text-left">
+              <thead className="text-[10px] text-text-dim uppercase">
+                <tr><th className="py-2">Escopo</th><th className="py-2">Alvo</th><th className="py-2">Indicador</th><th className="py-2 text-right">Meta</th><th className="py-2"></th></tr>
+              </thead>
+              <tbody className="divide-y divide-white/5">
+                {monthGoals.map(goal => (
+                  <tr key={`${goal.scope}-${goal.target}-${goal.metric}`}>
+                    <td className="py-2 text-text-dim">{GOAL_SCOPE_LABELS[goal.scope]}</td>
+                    <td className="py-2 text-text-main font-bold uppercase">{goal.target}</td>
+                    <td className="py-2 text-text-dim">{GOAL_METRIC_LABELS[goal.metric]}</td>
+                    <td className="py-2 text-right font-mono text-text-main">{formatGoalValue(goal)}</td>
+                    <td className="py-2 text-right whitespace-nowrap">
+                      <button onClick={() => setDraft({ scope: goal.scope, target: goal.target, metric: goal.metric, value: String(goal.value).replace('.', ',') })} className="text-[10px] text-text-dim hover:text-white uppercase font-bold mr-3">Editar</button>
+                      <button onClick={() => onDelete(goal)} className="text-[10px] text-danger hover:underline uppercase font-bold">Excluir</button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <div className="px-6 py-4 border-t border-white/5 space-y-2">
+          <div className="grid grid-cols-2 sm:grid-cols-5 gap-2">
+            <select className={`${inputClass} appearance-none`} value={draft.scope} onChange={(e) => setDraft({ ...draft, scope: e.target.value as GoalScope, target: '' })}>
+              {(Object.keys(GOAL_SCOPE_LABELS) as GoalScope[]).map(s => <option key={s} value={s}>{GOAL_SCOPE_LABELS[s]}</option>)}
+            </select>
+            <select className={`${inputClass} appearance-none sm:col-span-2`} value={draft.target} onChange={(e) => setDraft({ ...draft, target: e.target.value })}>
+              <option value="">Selecione...</option>
+              {options[draft.scope].map(o => <option key={o} value={o}>{o}</option>)}
+            </select>
+            <select className={`${inputClass} appearance-none`} value={draft.metric} onChange={(e) => setDraft({ ...draft, metric: e.target.value as GoalMetric })}>
+              {(Object.keys(GOAL_METRIC_LABELS) as GoalMetric[]).map(m => <option key={m} value={m}>{GOAL_METRIC_LABELS[m]}</option>)}
+            </select>
+            <input type="text" inputMode="decimal" placeholder="Meta" className={`${inputClass} font-mono`} value={draft.value} onChange={(e) => setDraft({ ...draft, value: e.target.value })} onKeyDown={(e) => e.key === 'Enter' && handleAdd()} />
+          </div>
+          <div className="flex items-center justify-between gap-3">
+            <p className="text-[10px] text-text-dim">CSV: <span className="font-mono">mes;escopo;alvo;indicador;meta</span> (ex: 2025-09;setor;SETOR 01;faturamento;150000,00). Metas repetidas são substituídas.</p>
+            <button onClick={handleAdd} disabled={!isDraftValid} className="px-4 py-2 bg-primary text-background text-xs font-bold rounded-md uppercase disabled:opacity-50 flex-shrink-0">Salvar meta</button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
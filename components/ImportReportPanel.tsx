@@ -0,0 +1,149 @@
+import React, { useState } from 'react';
+import { ImportReport, MappableField } from '../types';
+import { SALE_RECORD_FIELDS } from '../services/columnMapping';
+import { buildCSV, downloadCSV, downloadFile } from '../services/csvExport';
+
+interface ImportReportPanelProps {
+  report: ImportReport;
+  onClose: () => void;
+}
+
+type ReportTab = 'rejected' | 'defaulted' | 'channels' | 'amounts' | 'warnings';
+
+const MAX_VISIBLE_ROWS = 200;
+
+export const countReportIssues = (report: ImportReport): number =>
+  report.rejectedRows.length + report.suspiciousAmounts.length + Object.values(report.unknownChannels).reduce((a, b) => a + b, 0);
+
+export const ImportReportPanel: React.FC<ImportReportPanelProps> = ({ report, onClose }) => {
+  const [tab, setTab] = useState<ReportTab>('rejected');
+
+  const fieldLabel = (field: string) => SALE_RECORD_FIELDS.find(d => d.field === field)?.label || field;
+  const stamp = report.importedAt.slice(0, 19).replace(/[:T]/g, '-');
+
+  const handleDownloadJSON = () => {
+    downloadFile(JSON.stringify(report, null, 2), `relatorio_importacao_${stamp}.json`, 'application/json');
+  };
+
+  const handleDownloadRejectedCSV = () => {
+    const headers = Array.from(new Set<string>(report.rejectedRows.flatMap(r => Object.keys(r.raw))));
+    downloadCSV(buildCSV([
+      ['Linha', 'Motivo', ...headers],
+      ...report.rejectedRows.map(r => [r.rowNumber, r.reason, ...headers.map(h => r.raw[h])])
+    ]), `linhas_rejeitadas_${stamp}.csv`);
+  };
+
+  const defaulted = (Object.entries(report.defaultedFields) as [MappableField, number][]).sort((a, b) => b[1] - a[1]);
+  const channels = (Object.entries(report.unknownChannels) as [string, number][]).sort((a, b) => b[1] - a[1]);
+
+  const tabs: { id: ReportTab, label: string, count: number }[] = [
+    { id: 'rejected', label: 'Rejeitadas', count: report.rejectedRows.length },
+    { id: 'defaulted', label: 'Campos padrão', count: defaulted.length },
+    { id: 'channels', label: 'Canais desconhecidos', count: channels.length },
+    { id: 'amounts', label: 'Valores suspeitos', count: report.suspiciousAmounts.length },
+    { id: 'warnings', label: 'Avisos', count: report.warnings.length }
+  ];
+
+  return (
+    <div className="fixed inset-0 z-50 bg-background/80 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="bg-card border border-white/10 rounded-2xl shadow-2xl w-full max-w-4xl max-h-[90vh] flex flex-col overflow-hidden">
+        <div className="px-6 py-4 border-b border-white/5 flex items-center justify-between">
+          <div>
+            <h2 className="text-lg font-bold text-white">Relatório de Importação</h2>
+            <p className="text-xs text-text-dim">{report.source} · {new Date(report.importedAt).toLocaleString('pt-BR')}</p>
+          </div>
+          <button onClick={onClose} className="text-text-dim hover:text-white text-xl leading-none">×</button>
+        </div>
+
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 px-6 py-4">
+          {[
+            { label: 'Linhas lidas', value: report.totalRows, color: 'text-white' },
+            { label: 'Importadas', value: report.acceptedRows, color: 'text-success' },
+            { label: 'Rejeitadas', value: report.rejectedRows.length, color: report.rejectedRows.length > 0 ? 'text-danger' : 'text-white' },
+            { label: 'Valores suspeitos', value: report.suspiciousAmounts.length, color: report.suspiciousAmounts.length > 0 ? 'text-warning' : 'text-white' }
+          ].map(card => (
+            <div key={card.label} className="bg-background/60 border border-white/5 rounded-lg p-3">
+              <div className="text-[10px] uppercase tracking-wider text-text-dim font-bold">{card.label}</div>
+              <div className={`text-xl font-mono font-bold ${card.color}`}>{card.value.toLocaleString('pt-BR')}</div>
+            </div>
+          ))}
+        </div>
+
+        <div className="border-b border-white/5 px-6 flex gap-6 overflow-x-auto">
+          {tabs.map(t => (
+            <button key={t.id} onClick={() => setTab(t.id)} className={`py-3 text-[10px] font-bold uppercase tracking-wider border-b-2 whitespace-nowrap ${tab === t.id ? 'border-primary text-primary' : 'border-transparent text-text-dim hover:text-white'}`}>
+              {t.label} ({t.count})
+            </button>
+          ))}
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar px-6 py-4 text-xs">
+          {tab === 'rejected' && (
+            report.rejectedRows.length === 0 ? <p className="text-text-dim">Nenhuma linha rejeitada.</p> : (
+              <table className="w-full text-left">
+                <thead className="text-[10px] text-text-dim uppercase"><tr><th className="py-2 w-20">Linha</th><th className="py-2">Motivo</th></tr></thead>
+                <tbody className="divide-y divide-white/5">
+                  {report.rejectedRows.slice(0, MAX_VISIBLE_ROWS).map(r => (
+                    <tr key={r.rowNumber}><td className="py-2 font-mono text-text-dim">{r.rowNumber}</td><td className="py-2 text-text-main">{r.reason}</td></tr>
+                  ))}
+                </tbody>
+              </table>
+            )
+          )}
+          {tab === 'defaulted' && (
+            defaulted.length === 0 ? <p className="text-text-dim">Todos os campos foram preenchidos.</p> : (
+              <table className="w-full text-left">
+                <thead className="text-[10px] text-text-dim uppercase"><tr><th className="py-2">Campo</th><th className="py-2 text-right">Linhas com valor padrão</th><th className="py-2 text-right">% das importadas</th></tr></thead>
+                <tbody className="divide-y divide-white/5">
+                  {defaulted.map(([field, count]) => (
+                    <tr key={field}><td className="py-2 text-text-main">{fieldLabel(field)}</td><td className="py-2 text-right font-mono">{count.toLocaleString('pt-BR')}</td><td className="py-2 text-right font-mono text-text-dim">{report.acceptedRows > 0 ? ((count / report.acceptedRows) * 100).toFixed(1) : '0.0'}%</td></tr>
+                  ))}
+                </tbody>
+              </table>
+            )
+          )}
+          {tab === 'channels' && (
+            channels.length === 0 ? <p className="text-text-dim">Nenhum canal desconhecido.</p> : (
+              <>
+                <p className="text-text-dim mb-3">Valores de Canal fora de RC/WEB/VD/TV foram convertidos para VD.</p>
+                <table className="w-full text-left">
+                  <thead className="text-[10px] text-text-dim uppercase"><tr><th className="py-2">Valor original</th><th className="py-2 text-right">Linhas</th></tr></thead>
+                  <tbody className="divide-y divide-white/5">
+                    {channels.map(([value, count]) => (
+                      <tr key={value}><td className="py-2 font-mono text-text-main">{value}</td><td className="py-2 text-right font-mono">{count.toLocaleString('pt-BR')}</td></tr>
+                    ))}
+                  </tbody>
+                </table>
+              </>
+            )
+          )}
+          {tab === 'amounts' && (
+            report.suspiciousAmounts.length === 0 ? <p className="text-text-dim">Nenhum valor suspeito.</p> : (
+              <table className="w-full text-left">
+                <thead className="text-[10px] text-text-dim uppercase"><tr><th className="py-2 w-20">Linha</th><th className="py-2 text-right w-40">Valor</th><th className="py-2 pl-6">Motivo</th></tr></thead>
+                <tbody className="divide-y divide-white/5">
+                  {report.suspiciousAmounts.slice(0, MAX_VISIBLE_ROWS).map(a => (
+                    <tr key={a.recordId}><td className="py-2 font-mono text-text-dim">{a.rowNumber}</td><td className="py-2 text-right font-mono text-text-main">R$ {a.amount.toLocaleString('pt-BR', { minimumFractionDigits: 2 })}</td><td className="py-2 pl-6 text-warning">{a.reason}</td></tr>
+                  ))}
+                </tbody>
+              </table>
+            )
+          )}
+          {tab === 'warnings' && (
+            report.warnings.length === 0 ? <p className="text-text-dim">Sem avisos.</p> : (
+              <ul className="space-y-1">{report.warnings.map((w, i) => <li key={i} className="text-text-main">• {w}</li>)}</ul>
+            )
+          )}
+          {((tab === 'rejected' && report.rejectedRows.length > MAX_VISIBLE_ROWS) || (tab === 'amounts' && report.suspiciousAmounts.length > MAX_VISIBLE_ROWS)) && (
+            <p className="text-[10px] text-text-dim mt-3">Exibindo as primeiras {MAX_VISIBLE_ROWS} ocorrências. Baixe o relatório para a lista completa.</p>
+          )}
+        </div>
+
+        <div className="px-6 py-4 border-t border-white/5 flex justify-end gap-3">
+          <button onClick={handleDownloadRejectedCSV} disabled={report.rejectedRows.length === 0} className="px-4 py-2 bg-white/5 hover:bg-white/10 border border-white/10 text-white text-xs font-bold rounded-md uppercase disabled:opacity-50">Baixar rejeitadas (CSV)</button>
+          <button onClick={handleDownloadJSON} className="px-4 py-2 bg-primary text-background text-xs font-bold rounded-md uppercase">Baixar relatório (JSON)</button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,24 +1,26 @@
 import React, { useState, useEffect } from 'react';
 import { generateStrategicInsights } from '../services/geminiService';
-import { KPIStats, FilterState, TopItem } from '../types';
+import { KPIStats, FilterState, TopItem, ReferencePeriod, AssociationRule } from '../types';
 
 interface InsightsPanelProps {
-  kpis: KPIStats; // Current Month (Nov)
-  avgKpis: KPIStats; // Average (Aug-Oct)
+  kpis: KPIStats; // Reference month
+  avgKpis: KPIStats; // Average of the closed months
   filters: FilterState;
+  period: ReferencePeriod;
   topClients: TopItem[];
   topProducts: TopItem[];
   topReps: TopItem[];
+  getBasketRules?: () => AssociationRule[]; // Associações por pedido, mais fortes primeiro (calculadas só ao gerar)
 }
 
-export const InsightsPanel: React.FC<InsightsPanelProps> = ({ kpis, avgKpis, filters, topClients, topProducts, topReps }) => {
+export const InsightsPanel: React.FC<InsightsPanelProps> = ({ kpis, avgKpis, filters, period, topClients, topProducts, topReps, getBasketRules }) => {
   const [insight, setInsight] = useState<string>("");
   const [loading, setLoading] = useState<boolean>(false);
 
   const fetchInsights = async () => {
     setLoading(true);
     // Pass both Current and Average KPIs to the AI for comparison
-    const result = await generateStrategicInsights(kpis, avgKpis, filters, topClients, topProducts, topReps);
+    const result = await generateStrategicInsights(kpis, avgKpis, filters, period, topClients, topProducts, topReps, getBasketRules ? getBasketRules() : []);
     setInsight(result);
     setLoading(false);
   };
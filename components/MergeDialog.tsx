@@ -0,0 +1,73 @@
+import React, { useState } from 'react';
+import { MonthOverlap, MonthConflictResolution } from '../types';
+import { formatMonthLong } from '../services/periodService';
+
+interface MergeDialogProps {
+  fileName: string;
+  incomingCount: number;
+  existingCount: number;
+  existingSourceName: string;
+  overlaps: MonthOverlap[];
+  onReplaceAll: () => void;
+  onAppend: (resolutions: Record<string, MonthConflictResolution>) => void;
+  onCancel: () => void;
+}
+
+export const MergeDialog: React.FC<MergeDialogProps> = ({ fileName, incomingCount, existingCount, existingSourceName, overlaps, onReplaceAll, onAppend, onCancel }) => {
+  // Padrão "substituir": um novo export do mesmo mês normalmente é a versão corrigida
+  const [resolutions, setResolutions] = useState<Record<string, MonthConflictResolution>>(() =>
+    Object.fromEntries(overlaps.map(o => [o.month, 'replace' as MonthConflictResolution]))
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 bg-background/80 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="bg-card border border-white/10 rounded-2xl shadow-2xl w-full max-w-xl max-h-[90vh] flex flex-col overflow-hidden">
+        <div className="px-6 py-4 border-b border-white/5">
+          <h2 className="text-lg font-bold text-white">Adicionar à base atual?</h2>
+          <p className="text-xs text-text-dim">
+            {fileName}: {incomingCount.toLocaleString('pt-BR')} registros · Base atual ({existingSourceName}): {existingCount.toLocaleString('pt-BR')} registros
+          </p>
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-6 space-y-4">
+          {overlaps.length === 0 ? (
+            <p className="text-xs text-text-dim">Nenhum mês em comum com a base atual. Os registros serão somados sem conflitos.</p>
+          ) : (
+            <>
+              <p className="text-xs text-text-dim">Os meses abaixo já existem na base. Escolha o que fazer com cada um (em "manter ambos", linhas com mesmo pedido + produto + data + classe são ignoradas).</p>
+              <div className="space-y-2">
+                {overlaps.map(o => (
+                  <div key={o.month} className="flex items-center justify-between bg-background/60 border border-white/5 rounded-lg px-4 py-3">
+                    <div>
+                      <div className="text-sm font-bold text-white">{formatMonthLong(o.month)}</div>
+                      <div className="text-[10px] text-text-dim">Atual: {o.existingCount.toLocaleString('pt-BR')} · Novo: {o.incomingCount.toLocaleString('pt-BR')}</div>
+                    </div>
+                    <div className="flex bg-background rounded-md border border-white/10 overflow-hidden">
+                      {([['replace', 'Substituir mês'], ['keepBoth', 'Manter ambos']] as [MonthConflictResolution, string][]).map(([value, label]) => (
+                        <button
+                          key={value}
+                          onClick={() => setResolutions(prev => ({ ...prev, [o.month]: value }))}
+                          className={`px-3 py-1.5 text-[10px] font-bold uppercase tracking-wider transition-colors ${resolutions[o.month] === value ? 'bg-primary text-background' : 'text-text-dim hover:text-white'}`}
+                        >
+                          {label}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className="px-6 py-4 border-t border-white/5 flex justify-between gap-3">
+          <button onClick={onCancel} className="px-4 py-2 text-xs text-text-dim hover:text-white uppercase font-bold">Cancelar</button>
+          <div className="flex gap-3">
+            <button onClick={onReplaceAll} className="px-4 py-2 bg-white/5 hover:bg-white/10 border border-white/10 text-white text-xs font-bold rounded-md uppercase">Substituir base</button>
+            <button onClick={() => onAppend(resolutions)} className="px-4 py-2 bg-primary text-background text-xs font-bold rounded-md uppercase">Adicionar</button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
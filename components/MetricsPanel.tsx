@@ -0,0 +1,128 @@
+import React, { useState } from 'react';
+import { KPIStats, KpiRules, CustomMetric, MetricFormat } from '../types';
+import { KPI_DEFINITIONS, METRIC_FORMAT_LABELS, FORMULA_VARIABLES, validateFormula, evaluateCustomMetric, formatMetricValue, createMetricId } from '../services/metricService';
+
+interface MetricsPanelProps {
+  rules: KpiRules;
+  customMetrics: CustomMetric[];
+  previewKpis: KPIStats; // KPIs do mês de referência, para pré-visualizar fórmulas
+  onRulesChange: (rules: KpiRules) => void;
+  onCustomMetricsChange: (metrics: CustomMetric[]) => void;
+  onClose: () => void;
+}
+
+const EMPTY_DRAFT: CustomMetric = { id: '', label: '', formula: '', format: 'currency', showCard: true, showPivot: false };
+
+const inputClass = "bg-background border border-white/10 text-white text-xs rounded-lg px-3 py-2 outline-none focus:border-primary";
+
+export const MetricsPanel: React.FC<MetricsPanelProps> = ({ rules, customMetrics, previewKpis, onRulesChange, onCustomMetricsChange, onClose }) => {
+  const [draft, setDraft] = useState<CustomMetric>(EMPTY_DRAFT);
+
+  const formulaError = draft.formula.trim() ? validateFormula(draft.formula) : null;
+  const isDraftValid = draft.label.trim().length > 0 && draft.formula.trim().length > 0 && !formulaError;
+
+  const handleSaveDraft = () => {
+    if (!isDraftValid) return;
+    const metric = { ...draft, id: draft.id || createMetricId(), label: draft.label.trim(), formula: draft.formula.trim() };
+    const exists = customMetrics.some(m => m.id === metric.id);
+    onCustomMetricsChange(exists ? customMetrics.map(m => m.id === metric.id ? metric : m) : [...customMetrics, metric]);
+    setDraft(EMPTY_DRAFT);
+  };
+
+  const toggle = (metric: CustomMetric, field: 'showCard' | 'showPivot') =>
+    onCustomMetricsChange(customMetrics.map(m => m.id === metric.id ? { ...m, [field]: !m[field] } : m));
+
+  return (
+    <div className="fixed inset-0 z-50 bg-background/80 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="bg-card border border-white/10 rounded-2xl shadow-2xl w-full max-w-4xl max-h-[90vh] flex flex-col overflow-hidden">
+        <div className="px-6 py-4 border-b border-white/5 flex items-center justify-between">
+          <div>
+            <h2 className="text-lg font-bold text-white">Indicadores</h2>
+            <p className="text-xs text-text-dim">Regra de cálculo de cada KPI e métricas personalizadas por fórmula.</p>
+          </div>
+          <button onClick={onClose} className="text-text-dim hover:text-white text-xl leading-none">×</button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-6 space-y-6">
+          <div className="space-y-2">
+            <h3 className="text-[10px] font-bold text-text-dim uppercase tracking-wider">Definições</h3>
+            {KPI_DEFINITIONS.map(def => {
+              const selected = def.variants && def.variants.find(v => v.id === rules[def.key]);
+              return (
+                <div key={def.key} className="border border-white/5 rounded-lg px-4 py-3 bg-background/40 flex flex-col md:flex-row md:items-center justify-between gap-3">
+                  <div className="min-w-0">
+                    <div className="text-sm font-bold text-white">{def.label}</div>
+                    <p className="text-[10px] text-text-dim">{def.description}{selected && ` ${selected.description}`}</p>
+                  </div>
+                  {def.variants && (
+                    <div className="flex bg-background rounded-md border border-white/10 overflow-hidden flex-shrink-0">
+                      {def.variants.map(variant => (
+                        <button
+                          key={variant.id}
+                          onClick={() => onRulesChange({ ...rules, [def.key]: variant.id })}
+                          className={`px-3 py-1.5 text-[10px] font-bold uppercase tracking-wider transition-colors ${selected?.id === variant.id ? 'bg-primary text-background' : 'text-text-dim hover:text-white'}`}
+                        >
+                          {variant.label}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="space-y-2">
+            <h3 className="text-[10px] font-bold text-text-dim uppercase tracking-wider">Métricas personalizadas</h3>
+            {customMetrics.length === 0 && <p className="text-[10px] text-text-dim">Nenhuma métrica cadastrada.</p>}
+            {customMetrics.map(metric => (
+              <div key={metric.id} className="border border-white/5 rounded-lg px-4 py-3 bg-background/40 flex items-center justify-between gap-4">
+                <div className="min-w-0">
+                  <div className="text-sm font-bold text-white">{metric.label} <span className="text-[10px] font-normal text-text-dim">{METRIC_FORMAT_LABELS[metric.format]}</span></div>
+                  <p className="text-[10px] text-text-dim font-mono truncate">{metric.formula} = {formatMetricValue(evaluateCustomMetric(metric, previewKpis), metric.format)}</p>
+                </div>
+                <div className="flex items-center gap-3 flex-shrink-0">
+                  <label className="flex items-center gap-1.5 text-[10px] text-text-dim uppercase font-bold cursor-pointer">
+                    <input type="checkbox" checked={metric.showCard} onChange={() => toggle(metric, 'showCard')} className="accent-primary" /> Card
+                  </label>
+                  <label className="flex items-center gap-1.5 text-[10px] text-text-dim uppercase font-bold cursor-pointer">
+                    <input type="checkbox" checked={metric.showPivot} onChange={() => toggle(metric, 'showPivot')} className="accent-primary" /> Matriz
+                  </label>
+                  <button onClick={() => setDraft({ ...metric })} className="text-[10px] text-text-dim hover:text-white uppercase font-bold">Editar</button>
+                  <button onClick={() => onCustomMetricsChange(customMetrics.filter(m => m.id !== metric.id))} className="text-[10px] text-danger hover:underline uppercase font-bold">Excluir</button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="px-6 py-4 border-t border-white/5 space-y-2">
+          <div className="grid grid-cols-1 sm:grid-cols-4 gap-2">
+            <input type="text" placeholder="Nome (ex: Faturamento por cliente)" className={inputClass} value={draft.label} onChange={(e) => setDraft({ ...draft, label: e.target.value })} />
+            <input type="text" placeholder="faturamento / positivacao" className={`${inputClass} font-mono sm:col-span-2 ${formulaError ? 'border-danger' : ''}`} value={draft.formula} onChange={(e) => setDraft({ ...draft, formula: e.target.value })} onKeyDown={(e) => e.key === 'Enter' && handleSaveDraft()} />
+            <select className={`${inputClass} appearance-none`} value={draft.format} onChange={(e) => setDraft({ ...draft, format: e.target.value as MetricFormat })}>
+              {(Object.keys(METRIC_FORMAT_LABELS) as MetricFormat[]).map(f => <option key={f} value={f}>{METRIC_FORMAT_LABELS[f]}</option>)}
+            </select>
+          </div>
+          <div className="flex items-center justify-between gap-3">
+            <div className="flex flex-wrap items-center gap-1.5 text-[10px] text-text-dim">
+              {formulaError
+                ? <span className="text-danger">{formulaError}</span>
+                : <>
+                    <span>Indicadores:</span>
+                    {Object.keys(FORMULA_VARIABLES).map(name => (
+                      <button key={name} onClick={() => setDraft({ ...draft, formula: `${draft.formula}${draft.formula && !/[\s(]$/.test(draft.formula) ? ' ' : ''}${name}` })} className="font-mono px-1.5 py-0.5 rounded bg-white/5 hover:bg-white/10 text-text-main">{name}</button>
+                    ))}
+                    {isDraftValid && <span className="ml-2">Prévia: <span className="font-mono text-text-main">{formatMetricValue(evaluateCustomMetric(draft, previewKpis), draft.format)}</span></span>}
+                  </>}
+            </div>
+            <div className="flex items-center gap-3 flex-shrink-0">
+              {draft.id && <button onClick={() => setDraft(EMPTY_DRAFT)} className="text-xs text-text-dim hover:text-white uppercase font-bold">Cancelar</button>}
+              <button onClick={handleSaveDraft} disabled={!isDraftValid} className="px-4 py-2 bg-primary text-background text-xs font-bold rounded-md uppercase disabled:opacity-50">{draft.id ? 'Salvar métrica' : 'Adicionar métrica'}</button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,111 @@
+import React from 'react';
+import { AssociationRule, CrossSellOpportunity, BasketKey, MixView } from '../types';
+import { BASKET_KEY_LABELS } from '../services/basketService';
+
+interface MixPanelProps {
+  view: MixView;
+  rows: (AssociationRule | CrossSellOpportunity)[]; // Página atual da visão selecionada
+  basketKey: BasketKey;
+  reps: string[];
+  selectedRep: string;
+  ruleCount: number;
+  opportunityCount: number;
+  onViewChange: (view: MixView) => void;
+  onBasketKeyChange: (key: BasketKey) => void;
+  onRepChange: (rep: string) => void;
+  onProductClick: (code: string) => void;
+  onClientClick: (cnpj: string) => void;
+}
+
+const toggleClass = (active: boolean) =>
+  `px-3 py-1.5 text-[10px] font-bold uppercase tracking-wider whitespace-nowrap transition-colors ${active ? 'bg-primary text-background' : 'text-text-dim hover:text-white'}`;
+
+const ProductCell = ({ code, desc, onClick }: { code: string, desc: string, onClick: (code: string) => void }) => (
+  <button onClick={(e) => { e.stopPropagation(); onClick(code); }} className="text-left max-w-[260px] group/product">
+    <div className="text-xs text-text-main uppercase truncate group-hover/product:text-primary" title={desc}>{desc}</div>
+    <div className="text-[10px] font-mono text-text-dim">{code}</div>
+  </button>
+);
+
+export const MixPanel: React.FC<MixPanelProps> = ({ view, rows, basketKey, reps, selectedRep, ruleCount, opportunityCount, onViewChange, onBasketKeyChange, onRepChange, onProductClick, onClientClick }) => (
+  <div>
+    <div className="px-6 py-4 border-b border-white/5 flex flex-col lg:flex-row lg:items-center justify-between gap-3">
+      <div className="flex flex-wrap items-center gap-3">
+        <div className="flex bg-background rounded-md border border-white/10 overflow-hidden">
+          <button onClick={() => onViewChange('opportunities')} className={toggleClass(view === 'opportunities')}>Oportunidades ({opportunityCount})</button>
+          <button onClick={() => onViewChange('rules')} className={toggleClass(view === 'rules')}>Associações ({ruleCount})</button>
+        </div>
+        <div className="flex bg-background rounded-md border border-white/10 overflow-hidden">
+          {(Object.keys(BASKET_KEY_LABELS) as BasketKey[]).map(key => (
+            <button key={key} onClick={() => onBasketKeyChange(key)} className={toggleClass(basketKey === key)}>{BASKET_KEY_LABELS[key]}</button>
+          ))}
+        </div>
+      </div>
+      {view === 'opportunities' && (
+        <select className="bg-background border border-white/10 text-white text-xs rounded-lg py-2 pl-3 pr-8 outline-none focus:border-primary appearance-none" value={selectedRep} onChange={(e) => onRepChange(e.target.value)}>
+          <option value="">Todos os representantes</option>
+          {reps.map(rep => <option key={rep} value={rep}>{rep}</option>)}
+        </select>
+      )}
+    </div>
+
+    <div className="overflow-x-auto max-h-[600px] custom-scrollbar">
+      {view === 'rules' ? (
+        <table className="w-full text-sm text-left relative">
+          <thead className="text-xs text-primary font-bold uppercase bg-card border-b border-white/5 sticky top-0 z-10">
+            <tr>
+              <th className="px-6 py-4">Quem compra</th>
+              <th className="px-6 py-4">Também compra</th>
+              <th className="px-6 py-4 text-right">Cestas</th>
+              <th className="px-6 py-4 text-right">Suporte</th>
+              <th className="px-6 py-4 text-right">Confiança</th>
+              <th className="px-6 py-4 text-right">Lift</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-white/5">
+            {(rows as AssociationRule[]).map(rule => (
+              <tr key={`${rule.antecedent}-${rule.consequent}`} className="hover:bg-white/5 transition-colors">
+                <td className="px-6 py-4"><ProductCell code={rule.antecedent} desc={rule.antecedentDesc} onClick={onProductClick} /></td>
+                <td className="px-6 py-4"><ProductCell code={rule.consequent} desc={rule.consequentDesc} onClick={onProductClick} /></td>
+                <td className="px-6 py-4 text-right text-text-dim">{rule.pairCount}</td>
+                <td className="px-6 py-4 text-right text-text-dim">{rule.support.toFixed(2)}%</td>
+                <td className="px-6 py-4 text-right font-bold text-text-main">{rule.confidence.toFixed(1)}%</td>
+                <td className="px-6 py-4 text-right font-bold text-primary">{rule.lift.toFixed(2)}</td>
+              </tr>
+            ))}
+            {rows.length === 0 && <tr><td colSpan={6} className="px-6 py-8 text-center text-xs text-text-dim">Nenhuma associação relevante no período.</td></tr>}
+          </tbody>
+        </table>
+      ) : (
+        <table className="w-full text-sm text-left relative">
+          <thead className="text-xs text-primary font-bold uppercase bg-card border-b border-white/5 sticky top-0 z-10">
+            <tr>
+              <th className="px-6 py-4">Representante</th>
+              <th className="px-6 py-4">Cliente</th>
+              <th className="px-6 py-4">Compra</th>
+              <th className="px-6 py-4">Ofertar</th>
+              <th className="px-6 py-4 text-right">Confiança</th>
+              <th className="px-6 py-4 text-right">Lift</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-white/5">
+            {(rows as CrossSellOpportunity[]).map(o => (
+              <tr key={`${o.cnpj}-${o.suggestedCode}`} onClick={() => onClientClick(o.cnpj)} className="hover:bg-white/5 transition-colors group cursor-pointer">
+                <td className="px-6 py-4 text-xs uppercase text-text-dim">{o.salesRep || '-'}</td>
+                <td className="px-6 py-4 max-w-[260px]">
+                  <div className="font-bold text-text-main group-hover:text-primary text-xs uppercase truncate" title={o.companyName}>{o.companyName}</div>
+                  <div className="text-[10px] font-mono text-text-dim">{o.cnpj}</div>
+                </td>
+                <td className="px-6 py-4"><ProductCell code={o.productCode} desc={o.productDesc} onClick={onProductClick} /></td>
+                <td className="px-6 py-4"><ProductCell code={o.suggestedCode} desc={o.suggestedDesc} onClick={onProductClick} /></td>
+                <td className="px-6 py-4 text-right font-bold text-text-main">{o.confidence.toFixed(1)}%</td>
+                <td className="px-6 py-4 text-right font-bold text-primary">{o.lift.toFixed(2)}</td>
+              </tr>
+            ))}
+            {rows.length === 0 && <tr><td colSpan={6} className="px-6 py-8 text-center text-xs text-text-dim">Nenhuma oportunidade encontrada.</td></tr>}
+          </tbody>
+        </table>
+      )}
+    </div>
+  </div>
+);
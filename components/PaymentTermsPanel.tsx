@@ -0,0 +1,86 @@
+import React from 'react';
+import { PaymentTermsRow, PaymentTermKind } from '../types';
+import { PAYMENT_TERM_KIND_LABELS } from '../services/paymentTerms';
+
+interface PaymentTermsPanelProps {
+  rows: PaymentTermsRow[]; // Página atual
+  summary: { avgTerm: number, avgInstallments: number, cashShare: number, unparsedShare: number };
+  unparsed: string[]; // Textos de condição não reconhecidos nas vendas do período
+  baselineLabel: string;
+  onRowClick: (row: PaymentTermsRow) => void; // Filtra o painel pela condição
+}
+
+const KIND_STYLES: Record<PaymentTermKind, string> = {
+  cash: 'bg-success/20 text-success',
+  days: 'bg-secondary/20 text-secondary',
+  dates: 'bg-primary/20 text-primary',
+  unparsed: 'bg-danger/20 text-danger'
+};
+
+const MAX_UNPARSED_SHOWN = 12;
+
+const fmtMoney = (value: number) => `R$ ${value.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+export const PaymentTermsPanel: React.FC<PaymentTermsPanelProps> = ({ rows, summary, unparsed, baselineLabel, onRowClick }) => (
+  <div>
+    <div className="grid grid-cols-2 md:grid-cols-4 gap-3 px-6 py-4 border-b border-white/5">
+      {[
+        { label: 'Prazo médio', value: `${summary.avgTerm.toFixed(0)} dias`, color: 'text-white' },
+        { label: 'Parcela média', value: `${summary.avgInstallments.toFixed(1)}x`, color: 'text-white' },
+        { label: 'Vendas à vista', value: `${summary.cashShare.toFixed(1)}%`, color: 'text-white' },
+        { label: 'Condição não reconhecida', value: `${summary.unparsedShare.toFixed(1)}%`, color: summary.unparsedShare > 0 ? 'text-warning' : 'text-white' }
+      ].map(card => (
+        <div key={card.label} className="bg-background/60 border border-white/5 rounded-lg p-3">
+          <div className="text-[10px] uppercase tracking-wider text-text-dim font-bold">{card.label}</div>
+          <div className={`text-sm font-mono font-bold ${card.color}`}>{card.value}</div>
+        </div>
+      ))}
+    </div>
+
+    {unparsed.length > 0 && (
+      <div className="px-6 py-3 border-b border-white/5 flex flex-wrap items-center gap-1.5 text-[10px] text-text-dim">
+        <span className="font-bold uppercase tracking-wider text-warning mr-1">Fora das médias ({unparsed.length}):</span>
+        {unparsed.slice(0, MAX_UNPARSED_SHOWN).map(value => (
+          <span key={value} className="font-mono px-1.5 py-0.5 rounded bg-white/5 text-text-main">{value}</span>
+        ))}
+        {unparsed.length > MAX_UNPARSED_SHOWN && <span>+{unparsed.length - MAX_UNPARSED_SHOWN}</span>}
+      </div>
+    )}
+
+    <div className="overflow-x-auto max-h-[600px] custom-scrollbar">
+      <table className="w-full text-sm text-left relative">
+        <thead className="text-xs text-primary font-bold uppercase bg-card border-b border-white/5 sticky top-0 z-10">
+          <tr>
+            <th className="px-6 py-4">Condição</th>
+            <th className="px-6 py-4">Tipo</th>
+            <th className="px-6 py-4 text-right">Parcelas</th>
+            <th className="px-6 py-4 text-right">Prazo Médio</th>
+            <th className="px-6 py-4 text-right">Faturamento</th>
+            <th className="px-6 py-4 text-right">% do Mês</th>
+            <th className="px-6 py-4 text-right">{baselineLabel}</th>
+            <th className="px-6 py-4 text-right">Pedidos</th>
+            <th className="px-6 py-4 text-right">Clientes</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-white/5">
+          {rows.length === 0 && (
+            <tr><td colSpan={9} className="px-6 py-8 text-center text-xs text-text-dim">Nenhuma venda no período.</td></tr>
+          )}
+          {rows.map(row => (
+            <tr key={row.label} onClick={() => row.rawValues.length > 0 && onRowClick(row)} className={`hover:bg-white/5 transition-colors ${row.rawValues.length > 0 ? 'cursor-pointer' : ''}`} title={row.rawValues.join(' · ')}>
+              <td className="px-6 py-3 font-bold text-white">{row.label}</td>
+              <td className="px-6 py-3"><span className={`text-[9px] font-bold uppercase tracking-wider px-2 py-0.5 rounded ${KIND_STYLES[row.kind]}`}>{PAYMENT_TERM_KIND_LABELS[row.kind]}</span></td>
+              <td className="px-6 py-3 text-right font-mono text-text-dim">{row.kind === 'unparsed' ? '-' : row.installmentCount}</td>
+              <td className="px-6 py-3 text-right font-mono text-text-dim">{row.kind === 'unparsed' ? '-' : `${row.avgDays.toFixed(0)} dias`}</td>
+              <td className="px-6 py-3 text-right font-mono text-white">{fmtMoney(row.revenue)}</td>
+              <td className="px-6 py-3 text-right font-mono text-text-dim">{row.share.toFixed(1)}%</td>
+              <td className="px-6 py-3 text-right font-mono text-text-dim">{fmtMoney(row.baselineRevenue)}</td>
+              <td className="px-6 py-3 text-right font-mono text-text-dim">{row.orders.toLocaleString('pt-BR')}</td>
+              <td className="px-6 py-3 text-right font-mono text-text-dim">{row.clients.toLocaleString('pt-BR')}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  </div>
+);
@@ -0,0 +1,125 @@
+import React, { useRef, useState } from 'react';
+import { FilterDimension, FilterPreset } from '../types';
+import { exportFilterPresets } from '../services/presetService';
+import { downloadFile } from '../services/csvExport';
+
+interface PresetsPanelProps {
+  presets: FilterPreset[];
+  defaultPresetName: string;
+  onApply: (preset: FilterPreset) => void;
+  onSaveCurrent: (name: string) => void;
+  onRename: (oldName: string, newName: string) => void;
+  onDelete: (name: string) => void;
+  onSetDefault: (name: string) => void;
+  onImport: (json: string) => void;
+  onClose: () => void;
+}
+
+const FILTER_LABELS: Record<FilterDimension, string> = {
+  channel: 'Canal', region: 'Região', division: 'Divisão', sector: 'Setor', salesRep: 'Rep', supplier: 'Fornecedor',
+  productCode: 'Produto', cnpj: 'Cliente', networkName: 'Rede', city: 'Cidade', state: 'UF', paymentTerms: 'Prazo'
+};
+
+const TAB_LABELS: Record<FilterPreset['tab'], string> = { clients: 'Clientes', products: 'Produtos', suppliers: 'Fornecedores', redes: 'Redes', reps: 'Representantes', churn: 'Churn', returns: 'Devoluções', mix: 'Mix / Cross-sell', terms: 'Condições' };
+
+const inputClass = "bg-background border border-white/10 text-white text-xs rounded-lg px-3 py-2 outline-none focus:border-primary";
+
+const summarizePreset = (preset: FilterPreset): string => {
+  const parts = (Object.keys(FILTER_LABELS) as FilterDimension[])
+    .filter(dim => preset.filters[dim].length > 0)
+    .map(dim => `${FILTER_LABELS[dim]}: ${preset.filters[dim].length > 2 ? `${preset.filters[dim].length} selecionados` : preset.filters[dim].join(', ')}`);
+  const exclusions = (Object.keys(preset.exclude) as FilterDimension[])
+    .map(dim => `${FILTER_LABELS[dim]} exceto: ${(preset.exclude[dim] || []).length > 2 ? `${preset.exclude[dim]!.length} valores` : (preset.exclude[dim] || []).join(', ')}`);
+  return [...parts, ...exclusions, `aba: ${TAB_LABELS[preset.tab]}`].join(' · ');
+};
+
+export const PresetsPanel: React.FC<PresetsPanelProps> = ({ presets, defaultPresetName, onApply, onSaveCurrent, onRename, onDelete, onSetDefault, onImport, onClose }) => {
+  const [newName, setNewName] = useState('');
+  const [renaming, setRenaming] = useState<{ from: string, to: string } | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const handleImportFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      const text = e.target?.result as string;
+      if (text) onImport(text);
+    };
+    reader.readAsText(file);
+    if (importInputRef.current) importInputRef.current.value = '';
+  };
+
+  const handleExport = () => {
+    downloadFile(exportFilterPresets(presets), `presets_filtros_${new Date().toISOString().slice(0, 10)}.json`, 'application/json');
+  };
+
+  const handleConfirmRename = () => {
+    if (!renaming) return;
+    onRename(renaming.from, renaming.to);
+    setRenaming(null);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-background/80 backdrop-blur-sm flex items-center justify-center p-4">
+      <input type="file" ref={importInputRef} onChange={handleImportFile} accept=".json,application/json" className="hidden" />
+      <div className="bg-card border border-white/10 rounded-2xl shadow-2xl w-full max-w-2xl max-h-[90vh] flex flex-col overflow-hidden">
+        <div className="px-6 py-4 border-b border-white/5 flex items-center justify-between">
+          <div>
+            <h2 className="text-lg font-bold text-white">Presets de Filtros</h2>
+            <p className="text-xs text-text-dim">O preset padrão é aplicado ao abrir o painel (links compartilhados têm prioridade).</p>
+          </div>
+          <button onClick={onClose} className="text-text-dim hover:text-white text-xl leading-none">×</button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-6 space-y-3">
+          {presets.length === 0 && <p className="text-xs text-text-dim">Nenhum preset salvo.</p>}
+          {presets.map(preset => {
+            const isDefault = preset.name === defaultPresetName;
+            const isRenaming = renaming?.from === preset.name;
+            return (
+              <div key={preset.name} className={`border rounded-lg p-4 ${isDefault ? 'border-primary/50 bg-primary/5' : 'border-white/5 bg-background/40'}`}>
+                <div className="flex items-start justify-between gap-4">
+                  <div className="min-w-0 flex-1">
+                    {isRenaming ? (
+                      <div className="flex items-center gap-2">
+                        <input autoFocus type="text" className={`${inputClass} flex-1`} value={renaming.to} onChange={(e) => setRenaming({ ...renaming, to: e.target.value })} onKeyDown={(e) => e.key === 'Enter' && handleConfirmRename()} />
+                        <button onClick={handleConfirmRename} disabled={!renaming.to.trim()} className="text-[10px] text-primary hover:underline uppercase font-bold disabled:opacity-50">OK</button>
+                        <button onClick={() => setRenaming(null)} className="text-[10px] text-text-dim hover:text-white uppercase font-bold">Cancelar</button>
+                      </div>
+                    ) : (
+                      <div className="flex items-center gap-2">
+                        <span className="text-sm font-bold text-white truncate">{preset.name}</span>
+                        {isDefault && <span className="text-[9px] font-bold uppercase tracking-wider text-primary">Padrão</span>}
+                      </div>
+                    )}
+                    <p className="text-[10px] text-text-dim mt-1 truncate">{summarizePreset(preset)}</p>
+                  </div>
+                  {!isRenaming && (
+                    <div className="flex items-center gap-2 flex-shrink-0">
+                      <button onClick={() => onApply(preset)} className="px-3 py-1.5 bg-primary text-background text-[10px] font-bold rounded uppercase">Aplicar</button>
+                      <button onClick={() => onSetDefault(isDefault ? '' : preset.name)} className="text-[10px] text-text-dim hover:text-white uppercase font-bold">{isDefault ? 'Remover padrão' : 'Tornar padrão'}</button>
+                      <button onClick={() => setRenaming({ from: preset.name, to: preset.name })} className="text-[10px] text-text-dim hover:text-white uppercase font-bold">Renomear</button>
+                      <button onClick={() => onDelete(preset.name)} className="text-[10px] text-danger hover:underline uppercase font-bold">Excluir</button>
+                    </div>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="px-6 py-4 border-t border-white/5 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+          <div className="flex items-center gap-2">
+            <input type="text" placeholder="Nome do preset" className={inputClass} value={newName} onChange={(e) => setNewName(e.target.value)} />
+            <button onClick={() => { onSaveCurrent(newName); setNewName(''); }} disabled={!newName.trim()} className="px-3 py-2 bg-white/5 hover:bg-white/10 border border-white/10 text-white text-xs font-bold rounded-md uppercase disabled:opacity-50">Salvar filtros atuais</button>
+          </div>
+          <div className="flex items-center gap-3">
+            <button onClick={() => importInputRef.current?.click()} className="text-[10px] text-text-dim hover:text-white uppercase font-bold">Importar JSON</button>
+            <button onClick={handleExport} disabled={presets.length === 0} className="text-[10px] text-text-dim hover:text-white uppercase font-bold disabled:opacity-50">Exportar JSON</button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,100 @@
+import React from 'react';
+import { RepScorecard, ReferencePeriod, KPIStats } from '../types';
+import { buildRepScorecardCSV } from '../services/repService';
+import { downloadCSV } from '../services/csvExport';
+import { calcTrend } from '../services/dataService';
+import { formatMonthShort } from '../services/periodService';
+
+interface RepScorecardPanelProps {
+  card: RepScorecard;
+  period: ReferencePeriod;
+  clientNames: Record<string, string>;
+  onOpenDetail: () => void;
+  onClose: () => void;
+}
+
+const fmtCurrency = (v: number) => `R$ ${v.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+// inverse = queda é boa (prazo mais curto, menos devolução)
+const ROWS: { key: keyof KPIStats, label: string, format: (v: number) => string, inverse?: boolean }[] = [
+  { key: 'totalRevenue', label: 'Faturamento', format: fmtCurrency },
+  { key: 'positivacao', label: 'Positivação', format: v => v.toLocaleString('pt-BR', { maximumFractionDigits: 1 }) },
+  { key: 'skuPerPdv', label: 'SKU x PDV', format: v => v.toFixed(2) },
+  { key: 'averageTicket', label: 'Ticket Médio', format: fmtCurrency },
+  { key: 'totalOrders', label: 'Pedidos', format: v => v.toLocaleString('pt-BR', { maximumFractionDigits: 1 }) },
+  { key: 'avgTerm', label: 'Prazo Médio', format: v => `${v.toFixed(0)} dias`, inverse: true }
+];
+
+const TrendCell = ({ value, inverse }: { value: number, inverse?: boolean }) => {
+  if (!isFinite(value) || value === 0) return <span className="text-text-dim">-</span>;
+  const isGood = inverse ? value < 0 : value > 0;
+  return <span className={`font-bold ${isGood ? 'text-success' : 'text-danger'}`}>{value > 0 ? '▲' : '▼'} {Math.abs(value).toFixed(1)}%</span>;
+};
+
+const ClientList = ({ title, clients, clientNames, tone }: { title: string, clients: string[], clientNames: Record<string, string>, tone: string }) => (
+  <div className="bg-background/60 border border-white/5 rounded-lg p-4">
+    <div className={`text-[10px] font-bold uppercase tracking-wider mb-2 ${tone}`}>{title} ({clients.length})</div>
+    {clients.length === 0 ? <p className="text-[10px] text-text-dim">Nenhum.</p> : (
+      <ul className="space-y-1 max-h-48 overflow-y-auto custom-scrollbar">
+        {clients.map(cnpj => <li key={cnpj} className="text-[11px] text-text-main truncate"><span className="font-mono text-text-dim mr-2">{cnpj}</span>{clientNames[cnpj] || ''}</li>)}
+      </ul>
+    )}
+  </div>
+);
+
+export const RepScorecardPanel: React.FC<RepScorecardPanelProps> = ({ card, period, clientNames, onOpenDetail, onClose }) => {
+  const handleExport = () => {
+    downloadCSV(buildRepScorecardCSV(card, period, clientNames), `scorecard_${card.id.replace(/[^\w-]+/g, '_')}_${period.currentMonth}.csv`);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-background/80 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="bg-card border border-white/10 rounded-2xl shadow-2xl w-full max-w-3xl max-h-[90vh] flex flex-col overflow-hidden">
+        <div className="px-6 py-4 border-b border-white/5 flex items-center justify-between">
+          <div>
+            <h2 className="text-lg font-bold text-white">{card.id}</h2>
+            <p className="text-xs text-text-dim">
+              {card.region || 'Sem região'} · <span className="text-primary font-bold">{card.regionRank}º de {card.regionSize}</span> na região · {formatMonthShort(period.currentMonth)} vs. {period.baseline.label}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-text-dim hover:text-white text-xl leading-none">×</button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-6 space-y-6">
+          <table className="w-full text-xs text-left">
+            <thead className="text-[10px] text-text-dim uppercase">
+              <tr><th className="py-2">Indicador</th><th className="py-2 text-right">Mês</th><th className="py-2 text-right">Baseline</th><th className="py-2 text-right">Variação</th></tr>
+            </thead>
+            <tbody className="divide-y divide-white/5">
+              {ROWS.map(row => (
+                <tr key={row.key}>
+                  <td className="py-2 font-bold text-text-main">{row.label}</td>
+                  <td className="py-2 text-right font-mono text-white">{row.format(card.current[row.key])}</td>
+                  <td className="py-2 text-right font-mono text-text-dim">{row.format(card.baseline[row.key])}</td>
+                  <td className="py-2 text-right"><TrendCell value={calcTrend(card.current[row.key], card.baseline[row.key])} inverse={row.inverse} /></td>
+                </tr>
+              ))}
+              <tr>
+                <td className="py-2 font-bold text-text-main">Taxa de Devolução</td>
+                <td className="py-2 text-right font-mono text-white">{card.returnRate.toFixed(1)}%</td>
+                <td className="py-2 text-right font-mono text-text-dim">{card.baselineReturnRate.toFixed(1)}%</td>
+                <td className="py-2 text-right"><TrendCell value={card.returnRate - card.baselineReturnRate} inverse /></td>
+              </tr>
+            </tbody>
+          </table>
+          <p className="text-[10px] text-text-dim -mt-4">Variação da devolução em pontos percentuais.</p>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <ClientList title="Clientes ganhos" clients={card.gainedClients} clientNames={clientNames} tone="text-success" />
+            <ClientList title="Clientes perdidos" clients={card.lostClients} clientNames={clientNames} tone="text-danger" />
+          </div>
+        </div>
+
+        <div className="px-6 py-4 border-t border-white/5 flex justify-end gap-3">
+          <button onClick={onOpenDetail} className="px-4 py-2 bg-white/5 hover:bg-white/10 border border-white/10 text-white text-xs font-bold rounded-md uppercase">Ver detalhes</button>
+          <button onClick={handleExport} className="px-4 py-2 bg-primary text-background text-xs font-bold rounded-md uppercase">Exportar scorecard (CSV)</button>
+        </div>
+      </div>
+    </div>
+  );
+};
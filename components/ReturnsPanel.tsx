@@ -0,0 +1,130 @@
+import React from 'react';
+import { ReturnBreakdownRow, ReturnLink, ReturnsView, ReturnMatch } from '../types';
+import { RETURN_DIMENSION_LABELS } from '../services/returnsService';
+
+interface ReturnsPanelProps {
+  view: ReturnsView;
+  rows: (ReturnBreakdownRow | ReturnLink)[]; // Página atual da visão selecionada
+  threshold: number;
+  summary: { returnValue: number, returnRate: number, baselineReturnRate: number, flagged: number, linkedShare: number };
+  onViewChange: (view: ReturnsView) => void;
+  onThresholdChange: (value: number) => void;
+  onRowClick: (view: ReturnsView, id: string) => void;
+}
+
+const VIEW_LABELS: Record<ReturnsView, string> = { ...RETURN_DIMENSION_LABELS, links: 'Vínculo com vendas' };
+
+const MATCH_LABELS: Record<ReturnMatch, { label: string, className: string }> = {
+  order: { label: 'Mesmo pedido', className: 'text-success' },
+  product: { label: 'Última venda do produto', className: 'text-secondary' },
+  none: { label: 'Sem venda de origem', className: 'text-danger' }
+};
+
+const fmtMoney = (value: number) => `R$ ${value.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+const fmtDate = (date: string) => date ? date.split('-').reverse().join('/') : '-';
+
+export const ReturnsPanel: React.FC<ReturnsPanelProps> = ({ view, rows, threshold, summary, onViewChange, onThresholdChange, onRowClick }) => (
+  <div>
+    <div className="grid grid-cols-2 md:grid-cols-4 gap-3 px-6 py-4 border-b border-white/5">
+      {[
+        { label: 'Devolvido no mês', value: fmtMoney(summary.returnValue), color: 'text-white' },
+        { label: 'Taxa de devolução', value: `${summary.returnRate.toFixed(1)}% (base ${summary.baselineReturnRate.toFixed(1)}%)`, color: summary.returnRate > summary.baselineReturnRate ? 'text-danger' : 'text-success' },
+        { label: `Acima de ${threshold}%`, value: summary.flagged.toLocaleString('pt-BR'), color: summary.flagged > 0 ? 'text-warning' : 'text-white' },
+        { label: 'Vinculadas a vendas', value: `${summary.linkedShare.toFixed(0)}%`, color: 'text-white' }
+      ].map(card => (
+        <div key={card.label} className="bg-background/60 border border-white/5 rounded-lg p-3">
+          <div className="text-[10px] uppercase tracking-wider text-text-dim font-bold">{card.label}</div>
+          <div className={`text-sm font-mono font-bold ${card.color}`}>{card.value}</div>
+        </div>
+      ))}
+    </div>
+
+    <div className="px-6 py-4 border-b border-white/5 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+      <div className="flex bg-background rounded-md border border-white/10 overflow-hidden w-fit overflow-x-auto">
+        {(Object.keys(VIEW_LABELS) as ReturnsView[]).map(v => (
+          <button
+            key={v}
+            onClick={() => onViewChange(v)}
+            className={`px-3 py-1.5 text-[10px] font-bold uppercase tracking-wider whitespace-nowrap transition-colors ${view === v ? 'bg-primary text-background' : 'text-text-dim hover:text-white'}`}
+          >
+            {VIEW_LABELS[v]}
+          </button>
+        ))}
+      </div>
+      <label className="flex items-center gap-2 text-[10px] font-bold uppercase tracking-wider text-text-dim">
+        Alerta acima de
+        <input
+          type="number"
+          min={0}
+          step={0.5}
+          className="w-20 bg-background border border-white/10 text-white text-xs rounded-lg px-2 py-1.5 outline-none focus:border-primary font-mono"
+          value={threshold}
+          onChange={(e) => { const value = parseFloat(e.target.value); if (Number.isFinite(value) && value >= 0) onThresholdChange(value); }}
+        />
+        %
+      </label>
+    </div>
+
+    <div className="overflow-x-auto max-h-[600px] custom-scrollbar">
+      {view === 'links' ? (
+        <table className="w-full text-sm text-left relative">
+          <thead className="text-xs text-primary font-bold uppercase bg-card border-b border-white/5 sticky top-0 z-10">
+            <tr>
+              <th className="px-6 py-4">Data</th>
+              <th className="px-6 py-4">Cliente</th>
+              <th className="px-6 py-4">Produto</th>
+              <th className="px-6 py-4 text-right">Devolvido</th>
+              <th className="px-6 py-4">Venda de origem</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-white/5">
+            {(rows as ReturnLink[]).map(link => (
+              <tr key={link.returnId} onClick={() => onRowClick('client', link.cnpj)} className="hover:bg-white/5 transition-colors group cursor-pointer">
+                <td className="px-6 py-4 font-mono text-xs text-text-dim">{fmtDate(link.date)}<div className="text-[10px]">Ped. {link.orderId || '-'}</div></td>
+                <td className="px-6 py-4 max-w-[240px]"><div className="font-bold text-text-main group-hover:text-primary text-xs uppercase truncate" title={link.companyName}>{link.companyName}</div><div className="text-[10px] text-text-dim uppercase">{link.salesRep}</div></td>
+                <td className="px-6 py-4 max-w-[240px]"><div className="text-xs text-text-main uppercase truncate" title={link.productDesc}>{link.productDesc}</div><div className="text-[10px] font-mono text-text-dim">{link.productCode} · {link.quantity} un.</div></td>
+                <td className="px-6 py-4 text-right font-bold text-danger">{fmtMoney(link.amount)}</td>
+                <td className="px-6 py-4 text-xs">
+                  <div className={`font-bold ${MATCH_LABELS[link.match].className}`}>{MATCH_LABELS[link.match].label}</div>
+                  {link.match !== 'none' && <div className="text-[10px] text-text-dim font-mono">{link.originalOrderId ? `Ped. ${link.originalOrderId}` : 'Sem pedido'} · {fmtDate(link.originalDate)} · {fmtMoney(link.originalAmount)}</div>}
+                </td>
+              </tr>
+            ))}
+            {rows.length === 0 && <tr><td colSpan={5} className="px-6 py-8 text-center text-xs text-text-dim">Nenhuma devolução no mês.</td></tr>}
+          </tbody>
+        </table>
+      ) : (
+        <table className="w-full text-sm text-left relative">
+          <thead className="text-xs text-primary font-bold uppercase bg-card border-b border-white/5 sticky top-0 z-10">
+            <tr>
+              <th className="px-6 py-4">{VIEW_LABELS[view]}</th>
+              <th className="px-6 py-4 text-right">Venda Bruta</th>
+              <th className="px-6 py-4 text-right">Devolvido</th>
+              <th className="px-6 py-4 text-right">Linhas DV</th>
+              <th className="px-6 py-4 text-right">Taxa</th>
+              <th className="px-6 py-4 text-right">Taxa Baseline</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-white/5">
+            {(rows as ReturnBreakdownRow[]).map(row => (
+              <tr key={row.id} onClick={() => onRowClick(view, row.id)} className={`hover:bg-white/5 transition-colors group ${view !== 'month' ? 'cursor-pointer' : ''}`}>
+                <td className="px-6 py-4 max-w-[300px]">
+                  <div className="font-bold text-text-main group-hover:text-primary text-xs uppercase truncate" title={row.name}>
+                    {row.flagged && <span className="text-warning mr-1" title={`Taxa acima de ${threshold}%`}>⚠</span>}{row.name}
+                  </div>
+                  {row.name !== row.id && <div className="text-[10px] font-mono text-text-dim">{row.id}</div>}
+                </td>
+                <td className="px-6 py-4 text-right text-text-dim">{fmtMoney(row.salesValue)}</td>
+                <td className="px-6 py-4 text-right font-bold text-text-main">{fmtMoney(row.returnValue)}</td>
+                <td className="px-6 py-4 text-right text-text-dim">{row.returnCount}</td>
+                <td className={`px-6 py-4 text-right font-bold ${row.flagged ? 'text-danger' : 'text-text-main'}`}>{row.returnRate.toFixed(1)}%</td>
+                <td className="px-6 py-4 text-right text-text-dim">{row.baselineReturnRate.toFixed(1)}%</td>
+              </tr>
+            ))}
+            {rows.length === 0 && <tr><td colSpan={6} className="px-6 py-8 text-center text-xs text-text-dim">Nenhuma devolução no mês.</td></tr>}
+          </tbody>
+        </table>
+      )}
+    </div>
+  </div>
+);
@@ -1,4 +1,5 @@
 import React from 'react';
+import { GoalAttainment } from '../types';
 
 interface StatCardProps {
   title: string;
@@ -6,9 +7,12 @@ interface StatCardProps {
   trend?: number;
   icon?: React.ReactNode;
   trendLabel?: string;
+  goal?: GoalAttainment;
+  projection?: { value: string, range?: string, trend: number }; // Fechamento projetado vs baseline (mês em andamento)
+  goalFormatter?: (v: number) => string; // Formata meta, falta e ritmo diário
 }
 
-export const StatCard: React.FC<StatCardProps> = ({ title, value, trend, icon, trendLabel = "vs. período anterior" }) => {
+export const StatCard: React.FC<StatCardProps> = ({ title, value, trend, icon, trendLabel = "vs. período anterior", goal, goalFormatter = (v) => v.toLocaleString('pt-BR', { maximumFractionDigits: 2 }), projection }) => {
   const isPositive = trend && trend >= 0;
 
   return (
@@ -28,6 +32,30 @@ export const StatCard: React.FC<StatCardProps> = ({ title, value, trend, icon, t
             <span className="ml-2 text-text-dim text-xs font-medium opacity-60">{trendLabel}</span>
           </div>
         )}
+        {projection && (
+          <div className="mt-2 text-xs text-text-dim" title={projection.range ? `Faixa provável: ${projection.range}` : undefined}>
+            <span className="uppercase tracking-wider text-[10px] font-bold">Projeção</span>{' '}
+            <span className="font-mono text-text-main">{projection.value}</span>{' '}
+            <span className={`font-bold ${projection.trend >= 0 ? 'text-success' : 'text-danger'}`}>{projection.trend >= 0 ? '+' : ''}{projection.trend.toFixed(1)}%</span>
+            {projection.range && <div className="text-[10px] font-mono opacity-60">{projection.range}</div>}
+          </div>
+        )}
+        {goal && (
+          <div className="mt-4 pt-3 border-t border-white/5 space-y-1.5">
+            <div className="flex items-center justify-between text-[10px] uppercase tracking-wider font-bold">
+              <span className="text-text-dim">Meta {goalFormatter(goal.target)}</span>
+              <span className={goal.attainment >= 100 ? 'text-success' : 'text-primary'}>{goal.attainment.toFixed(1)}%</span>
+            </div>
+            <div className="h-1.5 bg-background rounded-full overflow-hidden">
+              <div className={`h-full rounded-full ${goal.attainment >= 100 ? 'bg-success' : 'bg-primary'}`} style={{ width: `${Math.min(goal.attainment, 100)}%` }}></div>
+            </div>
+            <div className="text-[10px] text-text-dim">
+              {goal.gap > 0
+                ? <>Falta {goalFormatter(goal.gap)} · {goal.remainingDays > 0 ? `${goalFormatter(goal.dailyRunRate)}/dia útil (${goal.remainingDays} dias)` : 'mês encerrado'}</>
+                : 'Meta atingida'}
+            </div>
+          </div>
+        )}
       </div>
     </div>
   );
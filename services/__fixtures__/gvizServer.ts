@@ -0,0 +1,58 @@
+import { createServer } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { readFile } from 'node:fs/promises';
+import { fileURLToPath } from 'node:url';
+
+// --- GVIZ STAND-IN ---
+// Servidor local que responde como o endpoint gviz com respostas gravadas em __fixtures__/gviz/<cenário>.
+// URL: /<cenário>/<sheetId>/gviz/tq?tqx=out:csv[&sheet=...][&tq=...]
+// Sem tq -> full; consulta de resumo mensal (select year(...)) -> summary; demais consultas -> incremental.
+// Gravação ausente responde 400, como o gviz faz com consultas que a planilha não aceita.
+
+const FIXTURES_DIR = fileURLToPath(new URL('./gviz/', import.meta.url));
+
+const CONTENT_TYPES: Record<string, string> = {
+  csv: 'text/csv; charset=utf-8',
+  html: 'text/html; charset=utf-8'
+};
+
+export interface GvizStandIn {
+  baseUrl: (scenario: string) => string;
+  requests: URL[];
+  close: () => Promise<void>;
+}
+
+const fixtureName = (query: string | null): string => {
+  if (!query) return 'full';
+  return /^select year\(/i.test(query) ? 'summary' : 'incremental';
+};
+
+export const startGvizStandIn = async (): Promise<GvizStandIn> => {
+  const requests: URL[] = [];
+  const server = createServer(async (req, res) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    requests.push(url);
+    const [scenario] = url.pathname.split('/').filter(Boolean);
+    const name = fixtureName(url.searchParams.get('tq'));
+    for (const ext of Object.keys(CONTENT_TYPES)) {
+      try {
+        const body = await readFile(`${FIXTURES_DIR}${scenario}/${name}.${ext}`, 'utf-8');
+        res.writeHead(200, { 'Content-Type': CONTENT_TYPES[ext] });
+        res.end(body);
+        return;
+      } catch {
+        // Tenta a próxima extensão
+      }
+    }
+    res.writeHead(400, 'Bad Request', { 'Content-Type': 'text/plain' });
+    res.end(`Sem gravação para ${scenario}/${name}`);
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    baseUrl: scenario => `http://127.0.0.1:${port}/${scenario}`,
+    requests,
+    close: () => new Promise<void>((resolve, reject) => server.close(error => error ? reject(error) : resolve()))
+  };
+};
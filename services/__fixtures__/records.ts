@@ -0,0 +1,26 @@
+import { Channel, SaleRecord } from '../../types';
+
+// Venda mínima para testes: só o que cada caso sobrescreve importa
+let nextId = 0;
+
+export const makeRecord = (overrides: Partial<SaleRecord> = {}): SaleRecord => ({
+  id: `ROW-${nextId++}`,
+  date: '2025-03-10',
+  region: 'Sul',
+  division: 'Alimentos',
+  sector: 'Mercearia',
+  salesRep: 'Ana',
+  channel: Channel.RC,
+  supplier: 'Fornecedor A',
+  cnpj: '11.111.111/0001-11',
+  companyName: 'Mercado Alfa',
+  productCode: 'P001',
+  productDesc: 'Arroz',
+  amount: 100,
+  quantity: 1,
+  orderId: '1001',
+  operClass: 'VD',
+  paymentTerms: '30',
+  networkName: 'Independente',
+  ...overrides
+});
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { classifyABC, getAbcAnalysis, DEFAULT_ABC_THRESHOLDS } from './abcService';
+
+const CURRENT = [
+  { id: 'W', value: 5 },
+  { id: 'X', value: 50 },
+  { id: 'Y', value: 30 },
+  { id: 'Z', value: 10 },
+  { id: 'V', value: 5 },
+  { id: 'devolvido', value: -20 },
+  { id: 'parado', value: 0 }
+];
+
+describe('classifyABC', () => {
+  it('usa o acumulado antes da entidade para decidir a classe', () => {
+    const entries = classifyABC(CURRENT, DEFAULT_ABC_THRESHOLDS);
+
+    // Y fecha exatamente 80% e ainda é A; Z começa em 80% e já é B; V começa em 95% e é C
+    expect(entries.map(e => [e.id, e.cls, e.cumulativeShare])).toEqual([
+      ['X', 'A', 50],
+      ['Y', 'A', 80],
+      ['Z', 'B', 90],
+      ['W', 'B', 95],
+      ['V', 'C', 100]
+    ]);
+    expect(entries[0].share).toBe(50);
+  });
+
+  it('mantém na classe a entidade que cruza o corte', () => {
+    const entries = classifyABC([{ id: 'X', value: 70 }, { id: 'Y', value: 27 }, { id: 'Z', value: 3 }], DEFAULT_ABC_THRESHOLDS);
+
+    expect(entries.map(e => e.cls)).toEqual(['A', 'A', 'C']);
+  });
+
+  it('respeita cortes personalizados', () => {
+    const entries = classifyABC(CURRENT, { a: 50, b: 90 });
+
+    expect(entries.map(e => e.cls)).toEqual(['A', 'B', 'B', 'C', 'C']);
+  });
+});
+
+describe('getAbcAnalysis', () => {
+  it('resume as classes e conta as migrações em relação à baseline', () => {
+    const analysis = getAbcAnalysis(CURRENT, [{ id: 'Y', value: 90 }, { id: 'X', value: 10 }, { id: 'antigo', value: 1 }], DEFAULT_ABC_THRESHOLDS);
+
+    expect(analysis.baselineClasses).toEqual({ Y: 'A', X: 'B', antigo: 'C' });
+    expect(analysis.summary.A).toEqual({ count: 2, value: 80, share: 80 });
+    expect(analysis.summary.C).toEqual({ count: 1, value: 5, share: 5 });
+    expect(analysis.migration.B.A).toBe(1);
+    expect(analysis.migration.A.A).toBe(1);
+    expect(analysis.migration.none.B).toBe(2);
+    expect(analysis.migration.C.none).toBe(1);
+    expect(analysis.moved).toBe(1);
+  });
+});
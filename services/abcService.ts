@@ -0,0 +1,82 @@
+import { SaleRecord, ReferencePeriod, AbcClass, AbcThresholds, AbcEntry, AbcAnalysis } from '../types';
+import { isDateInRange } from './periodService';
+
+// --- ABC / PARETO CLASSIFICATION ---
+
+const THRESHOLDS_STORAGE_KEY = 'painel.abcThresholds';
+export const DEFAULT_ABC_THRESHOLDS: AbcThresholds = { a: 80, b: 95 };
+export const ABC_CLASSES: AbcClass[] = ['A', 'B', 'C'];
+
+const sanitizeThresholds = (raw: any): AbcThresholds | null => {
+  const a = Number(raw?.a);
+  const b = Number(raw?.b);
+  if (!Number.isFinite(a) || !Number.isFinite(b) || a <= 0 || b <= a || b >= 100) return null;
+  return { a, b };
+};
+
+export const loadAbcThresholds = (): AbcThresholds => {
+  try {
+    return sanitizeThresholds(JSON.parse(localStorage.getItem(THRESHOLDS_STORAGE_KEY) || 'null')) || DEFAULT_ABC_THRESHOLDS;
+  } catch {
+    return DEFAULT_ABC_THRESHOLDS;
+  }
+};
+
+// Retorna false (sem salvar) quando os cortes não formam uma curva válida
+export const saveAbcThresholds = (thresholds: AbcThresholds): boolean => {
+  const valid = sanitizeThresholds(thresholds);
+  if (!valid) return false;
+  localStorage.setItem(THRESHOLDS_STORAGE_KEY, JSON.stringify(valid));
+  return true;
+};
+
+// A entidade que cruza o corte ainda entra na classe (o acumulado *antes* dela decide)
+export const classifyABC = (items: { id: string, value: number }[], thresholds: AbcThresholds): AbcEntry[] => {
+  const positive = items.filter(i => i.value > 0).sort((x, y) => y.value - x.value);
+  const total = positive.reduce((acc, i) => acc + i.value, 0);
+  let cumulative = 0;
+  return positive.map(item => {
+    const before = total > 0 ? (cumulative / total) * 100 : 0;
+    cumulative += item.value;
+    const cls: AbcClass = before < thresholds.a ? 'A' : before < thresholds.b ? 'B' : 'C';
+    return { id: item.id, value: item.value, cls, share: (item.value / total) * 100, cumulativeShare: (cumulative / total) * 100 };
+  });
+};
+
+// Faturamento médio por mês da baseline, para entidades sem stats de baseline (ex: produtos)
+export const getBaselineRevenueBy = (data: SaleRecord[], keyFn: (r: SaleRecord) => string, period: ReferencePeriod): { id: string, value: number }[] => {
+  const ranges = period.baseline.ranges;
+  if (ranges.length === 0) return [];
+  const totals: Record<string, number> = {};
+  data.forEach(r => {
+    if (!ranges.some(range => isDateInRange(r.date, range))) return;
+    const id = keyFn(r);
+    if (id) totals[id] = (totals[id] || 0) + r.amount;
+  });
+  return Object.entries(totals).map(([id, total]) => ({ id, value: total / ranges.length }));
+};
+
+export const getAbcAnalysis = (current: { id: string, value: number }[], baseline: { id: string, value: number }[], thresholds: AbcThresholds): AbcAnalysis => {
+  const entries = classifyABC(current, thresholds);
+  const classes = Object.fromEntries(entries.map(e => [e.id, e.cls])) as Record<string, AbcClass>;
+  const baselineClasses = Object.fromEntries(classifyABC(baseline, thresholds).map(e => [e.id, e.cls])) as Record<string, AbcClass>;
+
+  const total = entries.reduce((acc, e) => acc + e.value, 0);
+  const summary = Object.fromEntries(ABC_CLASSES.map(cls => {
+    const inClass = entries.filter(e => e.cls === cls);
+    const value = inClass.reduce((acc, e) => acc + e.value, 0);
+    return [cls, { count: inClass.length, value, share: total > 0 ? (value / total) * 100 : 0 }];
+  })) as AbcAnalysis['summary'];
+
+  const keys: (AbcClass | 'none')[] = [...ABC_CLASSES, 'none'];
+  const migration = Object.fromEntries(keys.map(from => [from, Object.fromEntries(keys.map(to => [to, 0]))])) as AbcAnalysis['migration'];
+  let moved = 0;
+  new Set([...Object.keys(classes), ...Object.keys(baselineClasses)]).forEach(id => {
+    const from = baselineClasses[id] || 'none';
+    const to = classes[id] || 'none';
+    migration[from][to]++;
+    if (from !== 'none' && to !== 'none' && from !== to) moved++;
+  });
+
+  return { entries, classes, baselineClasses, summary, migration, moved };
+};
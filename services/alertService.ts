@@ -0,0 +1,220 @@
+import { EntityStats, KPIStats, ReferencePeriod, ReturnBreakdownRow, AlertSettings, AlertSeverity, AlertRule, AnomalyAlert, EntityType } from '../types';
+import { getSectorPivotData } from './dataService';
+import { formatMonthShort } from './periodService';
+
+// --- ANOMALY ALERTS ---
+// Regras sobre as mesmas agregações das tabelas (clientes, fornecedores, reps, matriz por setor).
+// Valores de volume do mês em aberto são comparados com o baseline proporcional aos dias úteis decorridos.
+
+const SETTINGS_STORAGE_KEY = 'painel.alertSettings';
+const DISMISSED_STORAGE_KEY = 'painel.dismissedAlerts';
+const MAX_DISMISSED = 500;
+
+export const DEFAULT_ALERT_SETTINGS: AlertSettings = { dropThreshold: 40, zScore: 2.5, minBaselineRevenue: 1000, termIncreaseDays: 15 };
+
+export const ALERT_RULE_LABELS: Record<AlertRule, string> = {
+  drop: 'Queda brusca',
+  outlier: 'Fora do padrão',
+  term: 'Prazo incomum',
+  returns: 'Pico de devolução'
+};
+
+export const ALERT_SEVERITY_LABELS: Record<AlertSeverity, string> = { critical: 'Crítico', warning: 'Atenção', info: 'Info' };
+
+const SEVERITY_ORDER: Record<AlertSeverity, number> = { critical: 0, warning: 1, info: 2 };
+
+const sanitizeSettings = (raw: any): AlertSettings => {
+  const pick = (key: keyof AlertSettings, min: number) => {
+    const value = Number(raw?.[key]);
+    return Number.isFinite(value) && value >= min ? value : DEFAULT_ALERT_SETTINGS[key];
+  };
+  return { dropThreshold: Math.min(pick('dropThreshold', 1), 100), zScore: pick('zScore', 1), minBaselineRevenue: pick('minBaselineRevenue', 0), termIncreaseDays: pick('termIncreaseDays', 1) };
+};
+
+export const loadAlertSettings = (): AlertSettings => {
+  try {
+    return sanitizeSettings(JSON.parse(localStorage.getItem(SETTINGS_STORAGE_KEY) || 'null'));
+  } catch {
+    return DEFAULT_ALERT_SETTINGS;
+  }
+};
+
+export const saveAlertSettings = (settings: AlertSettings): AlertSettings => {
+  const valid = sanitizeSettings(settings);
+  localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(valid));
+  return valid;
+};
+
+export const loadDismissedAlerts = (): string[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(DISMISSED_STORAGE_KEY) || '[]');
+    return Array.isArray(parsed) ? parsed.filter((id): id is string => typeof id === 'string') : [];
+  } catch {
+    return [];
+  }
+};
+
+// Os ids incluem o mês, então a lista só cresce; guardamos os mais recentes
+export const saveDismissedAlerts = (ids: string[]) => {
+  localStorage.setItem(DISMISSED_STORAGE_KEY, JSON.stringify(ids.slice(-MAX_DISMISSED)));
+};
+
+const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+const stdDev = (values: number[]) => {
+  const avg = mean(values);
+  return Math.sqrt(values.reduce((acc, v) => acc + (v - avg) ** 2, 0) / Math.max(values.length - 1, 1));
+};
+
+const fmtCurrency = (v: number) => `R$ ${v.toLocaleString('pt-BR', { maximumFractionDigits: 0 })}`;
+const fmtPct = (v: number) => `${v.toLocaleString('pt-BR', { maximumFractionDigits: 1 })}%`;
+
+export interface AlertInputs {
+  clients: EntityStats[];
+  suppliers: EntityStats[];
+  reps: EntityStats[];
+  pivot: ReturnType<typeof getSectorPivotData>;
+  returns: { client: ReturnBreakdownRow[], rep: ReturnBreakdownRow[] };
+  returnThreshold: number;
+  period: ReferencePeriod;
+  progress: number; // Fração de dias úteis decorridos no mês de referência (1 = fechado)
+}
+
+const ENTITY_LABELS: Partial<Record<EntityType, string>> = { client: 'Cliente', supplier: 'Fornecedor', rep: 'Representante' };
+
+// Queda vs baseline proporcional (um cliente que zerou é crítico)
+const getDropAlerts = (type: EntityType, stats: EntityStats[], { period, progress }: AlertInputs, settings: AlertSettings): AnomalyAlert[] =>
+  stats.flatMap(s => {
+    if (progress <= 0 || s.averagePastRevenue < settings.minBaselineRevenue) return [];
+    const expected = s.averagePastRevenue * progress;
+    const change = ((s.currentRevenue - expected) / expected) * 100;
+    if (change > -settings.dropThreshold) return [];
+    const severity: AlertSeverity = s.currentRevenue <= 0 || change <= -Math.min(90, settings.dropThreshold * 1.5) ? 'critical' : 'warning';
+    return [{
+      id: `drop|${type}|${s.id}|${period.currentMonth}`,
+      rule: 'drop',
+      severity,
+      title: `${ENTITY_LABELS[type]} ${s.name}: faturamento ${fmtPct(change)}`,
+      explanation: `${fmtCurrency(s.currentRevenue)} em ${formatMonthShort(period.currentMonth)} contra ${fmtCurrency(expected)} esperados (${period.baseline.shortLabel}${progress < 1 ? `, proporcional a ${fmtPct(progress * 100)} dos dias úteis` : ''}).`,
+      target: { type, id: s.id },
+      impact: s.averagePastRevenue
+    }];
+  });
+
+// Cada setor contra o próprio histórico mensal; volume do mês em aberto é extrapolado pelos dias úteis
+const SECTOR_METRICS: { key: keyof KPIStats, label: string, volume: boolean, format: (v: number) => string }[] = [
+  { key: 'totalRevenue', label: 'Faturamento', volume: true, format: fmtCurrency },
+  { key: 'averageTicket', label: 'Ticket médio', volume: false, format: fmtCurrency },
+  { key: 'skuPerPdv', label: 'SKU x PDV', volume: false, format: v => v.toFixed(2) }
+];
+const MIN_HISTORY_MONTHS = 3;
+const MIN_POPULATION = 5; // z-score entre entidades só com uma amostra razoável
+
+const getSectorOutlierAlerts = ({ pivot, period, progress }: AlertInputs, settings: AlertSettings): AnomalyAlert[] =>
+  pivot.rows.flatMap(row => {
+    if (row.total.totalRevenue < settings.minBaselineRevenue) return [];
+    return SECTOR_METRICS.flatMap(metric => {
+      const history = period.previousMonths.map(m => row.months[m]?.[metric.key] || 0).filter(v => v > 0);
+      const rawCurrent = row.months[period.currentMonth]?.[metric.key] || 0;
+      if (history.length < MIN_HISTORY_MONTHS || rawCurrent <= 0) return [];
+      const current = metric.volume && progress > 0 ? rawCurrent / progress : rawCurrent;
+      const deviation = stdDev(history);
+      if (deviation === 0) return [];
+      const z = (current - mean(history)) / deviation;
+      if (Math.abs(z) < settings.zScore) return [];
+      return [{
+        id: `outlier|sector|${row.sector}|${metric.key}|${period.currentMonth}`,
+        rule: 'outlier' as AlertRule,
+        severity: (z < 0 && Math.abs(z) >= settings.zScore * 1.5 ? 'critical' : z < 0 ? 'warning' : 'info') as AlertSeverity,
+        title: `Setor ${row.sector}: ${metric.label.toLowerCase()} ${z > 0 ? 'acima' : 'abaixo'} do padrão (z = ${z.toFixed(1)})`,
+        explanation: `${metric.format(current)}${metric.volume && progress < 1 ? ' (ritmo do mês)' : ''} contra média de ${metric.format(mean(history))} ± ${metric.format(deviation)} nos ${history.length} meses anteriores.`,
+        target: { type: 'sector' as const, id: row.sector },
+        impact: row.total.totalRevenue
+      }];
+    });
+  });
+
+// Reps comparados entre si pela variação vs baseline
+const getRepOutlierAlerts = ({ reps, period }: AlertInputs, settings: AlertSettings): AnomalyAlert[] => {
+  const eligible = reps.filter(r => r.averagePastRevenue >= settings.minBaselineRevenue);
+  if (eligible.length < MIN_POPULATION) return [];
+  const trends = eligible.map(r => r.revenueTrend);
+  const avg = mean(trends);
+  const deviation = stdDev(trends);
+  if (deviation === 0) return [];
+  return eligible.flatMap(r => {
+    const z = (r.revenueTrend - avg) / deviation;
+    if (Math.abs(z) < settings.zScore) return [];
+    return [{
+      id: `outlier|rep|${r.id}|${period.currentMonth}`,
+      rule: 'outlier' as AlertRule,
+      severity: (z < 0 ? 'warning' : 'info') as AlertSeverity,
+      title: `Representante ${r.name}: variação ${z > 0 ? 'muito acima' : 'muito abaixo'} da equipe (z = ${z.toFixed(1)})`,
+      explanation: `${fmtPct(r.revenueTrend)} vs ${period.baseline.shortLabel}, enquanto a equipe varia ${fmtPct(avg)} em média (desvio ${fmtPct(deviation)}).`,
+      target: { type: 'rep' as EntityType, id: r.id },
+      impact: r.averagePastRevenue
+    }];
+  });
+};
+
+// Prazo médio: setor vs o próprio baseline; cliente vs a carteira do mês
+const getTermAlerts = ({ pivot, clients, period }: AlertInputs, settings: AlertSettings): AnomalyAlert[] => {
+  const sectorAlerts: AnomalyAlert[] = pivot.rows.flatMap(row => {
+    const current = row.months[period.currentMonth]?.avgTerm || 0;
+    const base = row.total.avgTerm;
+    if (current <= 0 || base <= 0 || current - base < settings.termIncreaseDays) return [];
+    return [{
+      id: `term|sector|${row.sector}|${period.currentMonth}`,
+      rule: 'term',
+      severity: current - base >= settings.termIncreaseDays * 2 ? 'critical' : 'warning',
+      title: `Setor ${row.sector}: prazo médio subiu ${Math.round(current - base)} dias`,
+      explanation: `${Math.round(current)} dias em ${formatMonthShort(period.currentMonth)} contra ${Math.round(base)} dias (${period.baseline.shortLabel}).`,
+      target: { type: 'sector', id: row.sector },
+      impact: row.total.totalRevenue
+    }];
+  });
+
+  const active = clients.filter(c => c.currentRevenue > 0 && c.avgTerm > 0);
+  if (active.length < MIN_POPULATION) return sectorAlerts;
+  const terms = active.map(c => c.avgTerm);
+  const avg = mean(terms);
+  const deviation = stdDev(terms);
+  const clientAlerts: AnomalyAlert[] = deviation === 0 ? [] : active.flatMap(c => {
+    const z = (c.avgTerm - avg) / deviation;
+    if (z < settings.zScore || c.avgTerm - avg < settings.termIncreaseDays || c.currentRevenue < settings.minBaselineRevenue) return [];
+    return [{
+      id: `term|client|${c.id}|${period.currentMonth}`,
+      rule: 'term',
+      severity: 'warning',
+      title: `Cliente ${c.name}: prazo de ${Math.round(c.avgTerm)} dias`,
+      explanation: `Muito acima da carteira no mês (média ${Math.round(avg)} dias, z = ${z.toFixed(1)}) em ${fmtCurrency(c.currentRevenue)} faturados.`,
+      target: { type: 'client', id: c.id },
+      impact: c.averagePastRevenue
+    }];
+  });
+  return [...sectorAlerts, ...clientAlerts];
+};
+
+// Acima do limite configurado e pelo menos o dobro da taxa do baseline
+const getReturnAlerts = ({ returns, returnThreshold, period }: AlertInputs): AnomalyAlert[] =>
+  (['client', 'rep'] as const).flatMap(type => returns[type].flatMap(row => {
+    if (!row.flagged || row.returnRate < row.baselineReturnRate * 2) return [];
+    return [{
+      id: `returns|${type}|${row.id}|${period.currentMonth}`,
+      rule: 'returns' as AlertRule,
+      severity: (row.returnRate >= returnThreshold * 2 ? 'critical' : 'warning') as AlertSeverity,
+      title: `${ENTITY_LABELS[type]} ${row.name}: devolução de ${fmtPct(row.returnRate)}`,
+      explanation: `${fmtCurrency(row.returnValue)} devolvidos sobre ${fmtCurrency(row.salesValue)} vendidos; baseline ${fmtPct(row.baselineReturnRate)}, limite ${fmtPct(returnThreshold)}.`,
+      target: { type, id: row.id },
+      impact: row.salesValue
+    }];
+  }));
+
+export const getAnomalyAlerts = (inputs: AlertInputs, settings: AlertSettings): AnomalyAlert[] => [
+  ...getDropAlerts('client', inputs.clients, inputs, settings),
+  ...getDropAlerts('supplier', inputs.suppliers, inputs, settings),
+  ...getDropAlerts('rep', inputs.reps, inputs, settings),
+  ...getSectorOutlierAlerts(inputs, settings),
+  ...getRepOutlierAlerts(inputs, settings),
+  ...getTermAlerts(inputs, settings),
+  ...getReturnAlerts(inputs)
+].sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity] || b.impact - a.impact);
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { getAssociationRules, getCrossSellOpportunities, DEFAULT_BASKET_OPTIONS } from './basketService';
+import { makeRecord } from './__fixtures__/records';
+
+const OPTIONS = { ...DEFAULT_BASKET_OPTIONS, minPairCount: 2 };
+
+const item = (cnpj: string, orderId: string, productCode: string, extra = {}) =>
+  makeRecord({ cnpj, orderId, productCode, productDesc: `Produto ${productCode}`, companyName: `Cliente ${cnpj}`, ...extra });
+
+// Cestas por pedido: {A,B} {A,B} {A,C} {D} {D}; C aparece uma vez só e fica de fora dos pares
+const DATA = [
+  item('C1', '1', 'A'), item('C1', '1', 'B'),
+  item('C2', '2', 'A'), item('C2', '2', 'B'),
+  item('C3', '3', 'A'), item('C3', '3', 'C', { salesRep: 'Bia' }),
+  item('C4', '4', 'D'),
+  item('C5', '5', 'D'),
+  // Devolução não forma cesta
+  item('C4', '6', 'A', { operClass: 'DV', amount: -100 })
+];
+
+describe('getAssociationRules', () => {
+  it('gera as duas direções do par com confiança e lift', () => {
+    const rules = getAssociationRules(DATA, 'order', OPTIONS);
+
+    expect(rules.map(r => `${r.antecedent}->${r.consequent}`)).toEqual(['B->A', 'A->B']);
+    expect(rules[0]).toMatchObject({ antecedentDesc: 'Produto B', consequentDesc: 'Produto A', pairCount: 2, support: 40, confidence: 100 });
+    expect(rules[0].lift).toBeCloseTo(5 / 3, 6);
+    expect(rules[1].confidence).toBeCloseTo(200 / 3, 6);
+    expect(rules[1].lift).toBeCloseTo(5 / 3, 6);
+  });
+
+  it('descarta regras abaixo do lift mínimo', () => {
+    expect(getAssociationRules(DATA, 'order', { ...OPTIONS, minLift: 2 })).toEqual([]);
+  });
+
+  it('junta os pedidos do mesmo cliente na cesta por cliente', () => {
+    const data = [
+      item('C1', '1', 'A'), item('C1', '2', 'B'),
+      item('C2', '3', 'A'), item('C2', '4', 'B'),
+      item('C3', '5', 'C'), item('C4', '6', 'C')
+    ];
+
+    expect(getAssociationRules(data, 'order', OPTIONS)).toEqual([]);
+    expect(getAssociationRules(data, 'client', OPTIONS).map(r => `${r.antecedent}->${r.consequent}`)).toEqual(['A->B', 'B->A']);
+  });
+});
+
+describe('getCrossSellOpportunities', () => {
+  it('sugere o consequente a quem compra o antecedente e ainda não o leva', () => {
+    const opportunities = getCrossSellOpportunities(DATA, getAssociationRules(DATA, 'order', OPTIONS));
+
+    expect(opportunities).toHaveLength(1);
+    expect(opportunities[0]).toMatchObject({ cnpj: 'C3', companyName: 'Cliente C3', salesRep: 'Bia', productCode: 'A', suggestedCode: 'B', suggestedDesc: 'Produto B' });
+  });
+});
@@ -0,0 +1,131 @@
+import { SaleRecord, BasketKey, AssociationRule, CrossSellOpportunity } from '../types';
+
+// --- MARKET BASKET / CROSS-SELL ---
+// Co-ocorrência de produtos em vendas (VD), por pedido ou por cliente.
+
+export const BASKET_KEY_LABELS: Record<BasketKey, string> = {
+  order: 'Mesmo pedido',
+  client: 'Mesmo cliente'
+};
+
+export interface BasketOptions {
+  minPairCount: number; // Cestas mínimas com o par, para descartar coincidências
+  minConfidence: number; // %
+  minLift: number;
+  maxRules: number;
+}
+
+export const DEFAULT_BASKET_OPTIONS: BasketOptions = { minPairCount: 3, minConfidence: 10, minLift: 1.2, maxRules: 300 };
+
+// Limite de SKUs considerados (os mais frequentes): pares crescem com o quadrado do mix
+const MAX_BASKET_PRODUCTS = 400;
+const MAX_OPPORTUNITIES_PER_CLIENT = 3;
+
+const getBaskets = (data: SaleRecord[], basketKey: BasketKey): Set<string>[] => {
+  const baskets: Record<string, Set<string>> = {};
+  data.forEach(r => {
+    if (r.operClass !== 'VD' || !r.productCode) return;
+    const key = basketKey === 'order' ? `${r.cnpj}|${r.orderId}` : r.cnpj;
+    (baskets[key] = baskets[key] || new Set()).add(r.productCode);
+  });
+  return Object.values(baskets);
+};
+
+const getProductNames = (data: SaleRecord[]): Record<string, string> => {
+  const names: Record<string, string> = {};
+  data.forEach(r => { if (!names[r.productCode]) names[r.productCode] = r.productDesc || r.productCode; });
+  return names;
+};
+
+export const getAssociationRules = (data: SaleRecord[], basketKey: BasketKey, options: BasketOptions = DEFAULT_BASKET_OPTIONS): AssociationRule[] => {
+  const baskets = getBaskets(data, basketKey);
+  const total = baskets.length;
+  if (total === 0) return [];
+
+  const itemCounts: Record<string, number> = {};
+  baskets.forEach(b => b.forEach(code => { itemCounts[code] = (itemCounts[code] || 0) + 1; }));
+  const eligible = new Set(
+    Object.entries(itemCounts)
+      .filter(([, count]) => count >= options.minPairCount)
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, MAX_BASKET_PRODUCTS)
+      .map(([code]) => code)
+  );
+
+  const pairCounts: Record<string, number> = {};
+  baskets.forEach(b => {
+    const items = Array.from(b).filter(code => eligible.has(code)).sort();
+    for (let i = 0; i < items.length; i++) {
+      for (let j = i + 1; j < items.length; j++) {
+        const key = `${items[i]}\u0000${items[j]}`;
+        pairCounts[key] = (pairCounts[key] || 0) + 1;
+      }
+    }
+  });
+
+  const names = getProductNames(data);
+  const rules: AssociationRule[] = [];
+  Object.entries(pairCounts).forEach(([key, pairCount]) => {
+    if (pairCount < options.minPairCount) return;
+    const [a, b] = key.split('\u0000');
+    // Cada par gera as duas direções (X -> Y e Y -> X), com confianças diferentes
+    [[a, b], [b, a]].forEach(([x, y]) => {
+      const confidence = (pairCount / itemCounts[x]) * 100;
+      const lift = (pairCount / itemCounts[x]) / (itemCounts[y] / total);
+      if (confidence < options.minConfidence || lift < options.minLift) return;
+      rules.push({
+        antecedent: x,
+        antecedentDesc: names[x],
+        consequent: y,
+        consequentDesc: names[y],
+        pairCount,
+        support: (pairCount / total) * 100,
+        confidence,
+        lift
+      });
+    });
+  });
+
+  return rules
+    .sort((a, b) => b.confidence * b.lift - a.confidence * a.lift)
+    .slice(0, options.maxRules);
+};
+
+// "Compra X mas não Y": clientes do período que levam o antecedente e nunca levaram o consequente
+export const getCrossSellOpportunities = (data: SaleRecord[], rules: AssociationRule[]): CrossSellOpportunity[] => {
+  const clients: Record<string, { companyName: string, salesRep: string, lastDate: string, products: Set<string> }> = {};
+  data.forEach(r => {
+    if (r.operClass !== 'VD' || !r.cnpj) return;
+    const client = clients[r.cnpj] = clients[r.cnpj] || { companyName: r.companyName, salesRep: r.salesRep, lastDate: '', products: new Set() };
+    client.products.add(r.productCode);
+    // Rep responsável = o da venda mais recente
+    if (r.date >= client.lastDate) {
+      client.lastDate = r.date;
+      client.salesRep = r.salesRep;
+    }
+  });
+
+  const opportunities: CrossSellOpportunity[] = [];
+  Object.entries(clients).forEach(([cnpj, client]) => {
+    const suggested = new Set<string>();
+    // Regras já vêm ordenadas pela força; uma sugestão por produto-alvo
+    for (const rule of rules) {
+      if (suggested.size >= MAX_OPPORTUNITIES_PER_CLIENT) break;
+      if (!client.products.has(rule.antecedent) || client.products.has(rule.consequent) || suggested.has(rule.consequent)) continue;
+      suggested.add(rule.consequent);
+      opportunities.push({
+        cnpj,
+        companyName: client.companyName,
+        salesRep: client.salesRep,
+        productCode: rule.antecedent,
+        productDesc: rule.antecedentDesc,
+        suggestedCode: rule.consequent,
+        suggestedDesc: rule.consequentDesc,
+        confidence: rule.confidence,
+        lift: rule.lift
+      });
+    }
+  });
+
+  return opportunities.sort((a, b) => a.salesRep.localeCompare(b.salesRep) || b.confidence - a.confidence);
+};
@@ -0,0 +1,59 @@
+import { CachedDataset, CachedSession } from '../types';
+
+// --- INDEXEDDB CACHE ---
+// Guarda a última base carregada de cada fonte e a sessão do usuário para abrir o painel sem esperar a rede.
+
+const DB_NAME = 'painel-vendas';
+const DB_VERSION = 1;
+const DATASETS_STORE = 'datasets';
+const SESSION_STORE = 'session';
+const SESSION_KEY = 'current';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openCacheDB = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB indisponível neste navegador'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(DATASETS_STORE)) db.createObjectStore(DATASETS_STORE, { keyPath: 'sourceId' });
+      if (!db.objectStoreNames.contains(SESSION_STORE)) db.createObjectStore(SESSION_STORE);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  // Permite nova tentativa se a abertura falhar
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+};
+
+const runRequest = async <T>(storeName: string, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest): Promise<T> => {
+  const db = await openCacheDB();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = action(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result as T);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+export const saveCachedDataset = (dataset: CachedDataset): Promise<void> =>
+  runRequest<void>(DATASETS_STORE, 'readwrite', store => store.put(dataset));
+
+export const loadCachedDataset = (sourceId: string): Promise<CachedDataset | undefined> =>
+  runRequest<CachedDataset | undefined>(DATASETS_STORE, 'readonly', store => store.get(sourceId));
+
+export const deleteCachedDataset = (sourceId: string): Promise<void> =>
+  runRequest<void>(DATASETS_STORE, 'readwrite', store => store.delete(sourceId));
+
+export const saveCachedSession = (session: CachedSession): Promise<void> =>
+  runRequest<void>(SESSION_STORE, 'readwrite', store => store.put(session, SESSION_KEY));
+
+export const loadCachedSession = (): Promise<CachedSession | undefined> =>
+  runRequest<CachedSession | undefined>(SESSION_STORE, 'readonly', store => store.get(SESSION_KEY));
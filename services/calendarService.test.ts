@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { CalendarSettings } from '../types';
+import { DEFAULT_CALENDAR_SETTINGS, countBusinessDays, getEasterDate, getHoliday, getHolidays, getNthBusinessDay } from './calendarService';
+
+const settings = (extra: Partial<CalendarSettings> = {}): CalendarSettings => ({ ...DEFAULT_CALENDAR_SETTINGS, ...extra });
+
+describe('getEasterDate', () => {
+  it('calcula o domingo de Páscoa', () => {
+    expect(getEasterDate(2019)).toBe('2019-04-21');
+    expect(getEasterDate(2024)).toBe('2024-03-31');
+    expect(getEasterDate(2025)).toBe('2025-04-20');
+  });
+});
+
+describe('getHolidays', () => {
+  it('deriva da Páscoa a Sexta-feira Santa, o Carnaval e o Corpus Christi', () => {
+    const holidays = getHolidays(2025, settings());
+
+    expect(holidays.get('2025-04-18')?.name).toBe('Sexta-feira Santa');
+    expect(holidays.get('2025-03-03')?.name).toBe('Carnaval');
+    expect(holidays.get('2025-03-04')?.name).toBe('Carnaval');
+    expect(holidays.get('2025-06-19')?.name).toBe('Corpus Christi');
+  });
+
+  it('deixa de fora os pontos facultativos quando desativados', () => {
+    const holidays = getHolidays(2025, settings({ includeOptional: false }));
+
+    expect(holidays.has('2025-04-18')).toBe(true);
+    expect(holidays.has('2025-03-03')).toBe(false);
+    expect(holidays.has('2025-06-19')).toBe(false);
+  });
+
+  it('conta a Consciência Negra só a partir de 2024', () => {
+    const calendar = settings();
+
+    expect(getHoliday('2023-11-20', calendar)).toBeUndefined();
+    expect(getHoliday('2024-11-20', calendar)?.name).toBe('Dia da Consciência Negra');
+  });
+});
+
+describe('countBusinessDays', () => {
+  it('desconta fins de semana e feriados, com as duas pontas inclusive', () => {
+    const calendar = settings();
+
+    expect(countBusinessDays('2025-04-01', '2025-04-30', calendar)).toBe(20);
+    expect(countBusinessDays('2025-04-18', '2025-04-21', calendar)).toBe(0);
+    expect(countBusinessDays('2025-04-22', '2025-04-22', calendar)).toBe(1);
+  });
+
+  it('só desconta a Consciência Negra nos anos em que ela vale', () => {
+    const calendar = settings();
+
+    expect(countBusinessDays('2023-11-01', '2023-11-30', calendar)).toBe(20);
+    expect(countBusinessDays('2024-11-01', '2024-11-30', calendar)).toBe(19);
+  });
+
+  it('desconta feriados estaduais e folgas da empresa', () => {
+    const calendar = settings({ state: 'SP', companyDaysOff: [{ date: '2025-07-10', name: 'Inventário' }] });
+
+    expect(countBusinessDays('2025-07-07', '2025-07-11', calendar)).toBe(3);
+  });
+});
+
+describe('getNthBusinessDay', () => {
+  it('pula feriados e fins de semana até o n-ésimo dia útil', () => {
+    const calendar = settings();
+
+    expect(getNthBusinessDay('2025-04', 1, calendar)).toBe('2025-04-01');
+    expect(getNthBusinessDay('2025-04', 14, calendar)).toBe('2025-04-22');
+    expect(getNthBusinessDay('2025-03', 1, calendar)).toBe('2025-03-05');
+  });
+
+  it('devolve o último dia do mês quando o mês tem menos dias úteis', () => {
+    expect(getNthBusinessDay('2025-04', 25, settings())).toBe('2025-04-30');
+  });
+});
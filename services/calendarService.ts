@@ -0,0 +1,185 @@
+import { CalendarSettings, CustomHoliday, Holiday, HolidayScope } from '../types';
+
+// --- BUSINESS-DAY CALENDAR ---
+// Datas como 'YYYY-MM-DD'; meio-dia local evita saltos de horário de verão ao somar dias.
+// Dia útil = segunda a sexta que não seja feriado nacional, estadual (UF escolhida), municipal ou folga da empresa.
+
+const CALENDAR_STORAGE_KEY = 'painel.calendarSettings';
+export const DEFAULT_CALENDAR_SETTINGS: CalendarSettings = { state: '', includeOptional: true, municipalHolidays: [], companyDaysOff: [] };
+
+export const HOLIDAY_SCOPE_LABELS: Record<HolidayScope, string> = { national: 'Nacional', state: 'Estadual', municipal: 'Municipal', company: 'Empresa' };
+
+// `fromYear`: feriado só vale a partir daquele ano (bases antigas não perdem o dia útil)
+const NATIONAL_HOLIDAYS: (CustomHoliday & { fromYear?: number })[] = [
+  { date: '01-01', name: 'Confraternização Universal' },
+  { date: '04-21', name: 'Tiradentes' },
+  { date: '05-01', name: 'Dia do Trabalho' },
+  { date: '09-07', name: 'Independência do Brasil' },
+  { date: '10-12', name: 'Nossa Senhora Aparecida' },
+  { date: '11-02', name: 'Finados' },
+  { date: '11-15', name: 'Proclamação da República' },
+  { date: '11-20', name: 'Dia da Consciência Negra', fromYear: 2024 }, // Lei 14.759/2023
+  { date: '12-25', name: 'Natal' }
+];
+
+// Feriados estaduais fixos mais comuns; os móveis ou específicos podem ser cadastrados como municipais
+export const STATE_HOLIDAYS: Record<string, CustomHoliday[]> = {
+  AC: [{ date: '01-23', name: 'Dia do Evangélico' }, { date: '06-15', name: 'Aniversário do Acre' }, { date: '09-05', name: 'Dia da Amazônia' }, { date: '11-17', name: 'Tratado de Petrópolis' }],
+  AL: [{ date: '06-24', name: 'São João' }, { date: '06-29', name: 'São Pedro' }, { date: '09-16', name: 'Emancipação Política de Alagoas' }],
+  AM: [{ date: '09-05', name: 'Elevação do Amazonas a Província' }],
+  AP: [{ date: '03-19', name: 'São José' }, { date: '09-13', name: 'Criação do Território do Amapá' }],
+  BA: [{ date: '07-02', name: 'Independência da Bahia' }],
+  CE: [{ date: '03-19', name: 'São José' }, { date: '03-25', name: 'Data Magna do Ceará' }],
+  DF: [{ date: '11-30', name: 'Dia do Evangélico' }],
+  ES: [],
+  GO: [],
+  MA: [{ date: '07-28', name: 'Adesão do Maranhão à Independência' }],
+  MG: [],
+  MS: [{ date: '10-11', name: 'Criação do Estado' }],
+  MT: [],
+  PA: [{ date: '08-15', name: 'Adesão do Pará à Independência' }],
+  PB: [{ date: '08-05', name: 'Fundação do Estado' }],
+  PE: [{ date: '03-06', name: 'Revolução Pernambucana' }, { date: '06-24', name: 'São João' }],
+  PI: [{ date: '10-19', name: 'Dia do Piauí' }],
+  PR: [{ date: '12-19', name: 'Emancipação Política do Paraná' }],
+  RJ: [{ date: '04-23', name: 'São Jorge' }],
+  RN: [{ date: '10-03', name: 'Mártires de Cunhaú e Uruaçu' }],
+  RO: [{ date: '01-04', name: 'Criação do Estado' }, { date: '06-18', name: 'Dia do Evangélico' }],
+  RR: [{ date: '10-05', name: 'Criação do Estado' }],
+  RS: [{ date: '09-20', name: 'Revolução Farroupilha' }],
+  SC: [{ date: '08-11', name: 'Data Magna de Santa Catarina' }],
+  SE: [{ date: '07-08', name: 'Emancipação Política de Sergipe' }],
+  SP: [{ date: '07-09', name: 'Revolução Constitucionalista' }],
+  TO: [{ date: '03-18', name: 'Autonomia do Tocantins' }, { date: '09-08', name: 'Nossa Senhora da Natividade' }, { date: '10-05', name: 'Criação do Estado' }]
+};
+
+const toDate = (date: string): Date => new Date(`${date}T12:00:00`);
+
+const toKey = (d: Date): string =>
+  `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+
+export const addDays = (date: string, days: number): string => {
+  const d = toDate(date);
+  d.setDate(d.getDate() + days);
+  return toKey(d);
+};
+
+export const getMonthBounds = (month: string): { start: string, end: string } => {
+  const [year, m] = month.split('-').map(Number);
+  return { start: `${month}-01`, end: `${month}-${String(new Date(year, m, 0).getDate()).padStart(2, '0')}` };
+};
+
+// Domingo de Páscoa (algoritmo de Meeus/Jones/Butcher, calendário gregoriano)
+export const getEasterDate = (year: number): string => {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+};
+
+const isCustomHolidayDate = (value: string): boolean => /^(\d{4}-)?(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])$/.test(value);
+
+const sanitizeCustomHolidays = (raw: any): CustomHoliday[] => Array.isArray(raw)
+  ? raw.filter(h => h && isCustomHolidayDate(String(h.date))).map(h => ({ date: String(h.date), name: String(h.name || '').trim() }))
+  : [];
+
+export const loadCalendarSettings = (): CalendarSettings => {
+  try {
+    const raw = JSON.parse(localStorage.getItem(CALENDAR_STORAGE_KEY) || 'null');
+    if (!raw) return DEFAULT_CALENDAR_SETTINGS;
+    return {
+      state: typeof raw.state === 'string' && raw.state in STATE_HOLIDAYS ? raw.state : '',
+      includeOptional: raw.includeOptional !== false,
+      municipalHolidays: sanitizeCustomHolidays(raw.municipalHolidays),
+      companyDaysOff: sanitizeCustomHolidays(raw.companyDaysOff)
+    };
+  } catch {
+    return DEFAULT_CALENDAR_SETTINGS;
+  }
+};
+
+export const saveCalendarSettings = (settings: CalendarSettings) => {
+  localStorage.setItem(CALENDAR_STORAGE_KEY, JSON.stringify(settings));
+};
+
+export const parseCustomHolidayDate = (value: string): string | null => {
+  const clean = value.trim();
+  // Aceita também "dd/mm" e "dd/mm/aaaa"
+  const br = clean.match(/^(\d{1,2})\/(\d{1,2})(?:\/(\d{4}))?$/);
+  const normalized = br ? `${br[3] ? `${br[3]}-` : ''}${br[2].padStart(2, '0')}-${br[1].padStart(2, '0')}` : clean;
+  return isCustomHolidayDate(normalized) ? normalized : null;
+};
+
+// Feriados do ano, indexados pela data; as configurações são imutáveis (estado do React), então cacheamos por objeto
+const holidayCache = new WeakMap<CalendarSettings, Map<number, Map<string, Holiday>>>();
+
+export const getHolidays = (year: number, settings: CalendarSettings): Map<string, Holiday> => {
+  let byYear = holidayCache.get(settings);
+  if (!byYear) {
+    byYear = new Map();
+    holidayCache.set(settings, byYear);
+  }
+  const cached = byYear.get(year);
+  if (cached) return cached;
+
+  const holidays = new Map<string, Holiday>();
+  const add = (list: CustomHoliday[], scope: HolidayScope) => list.forEach(h => {
+    const date = h.date.length === 5 ? `${year}-${h.date}` : h.date;
+    if (date.startsWith(`${year}-`) && !holidays.has(date)) holidays.set(date, { date, name: h.name, scope });
+  });
+
+  const easter = getEasterDate(year);
+  add(NATIONAL_HOLIDAYS.filter(h => !h.fromYear || year >= h.fromYear), 'national');
+  add([{ date: addDays(easter, -2), name: 'Sexta-feira Santa' }], 'national');
+  if (settings.includeOptional) {
+    add([
+      { date: addDays(easter, -48), name: 'Carnaval' },
+      { date: addDays(easter, -47), name: 'Carnaval' },
+      { date: addDays(easter, 60), name: 'Corpus Christi' }
+    ], 'national');
+  }
+  add(STATE_HOLIDAYS[settings.state] || [], 'state');
+  add(settings.municipalHolidays, 'municipal');
+  add(settings.companyDaysOff, 'company');
+
+  byYear.set(year, holidays);
+  return holidays;
+};
+
+export const getHoliday = (date: string, settings: CalendarSettings): Holiday | undefined =>
+  getHolidays(Number(date.slice(0, 4)), settings).get(date);
+
+export const isBusinessDay = (date: string, settings: CalendarSettings): boolean => {
+  const day = toDate(date).getDay();
+  return day !== 0 && day !== 6 && !getHoliday(date, settings);
+};
+
+// Dias úteis entre duas datas, inclusive
+export const countBusinessDays = (start: string, end: string, settings: CalendarSettings): number => {
+  let count = 0;
+  for (let date = start; date <= end; date = addDays(date, 1)) {
+    if (isBusinessDay(date, settings)) count++;
+  }
+  return count;
+};
+
+// Data do n-ésimo dia útil do mês (1 = primeiro); o último dia do mês se o mês tiver menos
+export const getNthBusinessDay = (month: string, n: number, settings: CalendarSettings): string => {
+  const { start, end } = getMonthBounds(month);
+  let count = 0;
+  for (let date = start; date <= end; date = addDays(date, 1)) {
+    if (isBusinessDay(date, settings) && ++count >= n) return date;
+  }
+  return end;
+};
@@ -0,0 +1,84 @@
+import { SaleRecord, ReferencePeriod, ChurnClient, ChurnStatus } from '../types';
+import { isDateInRange, toMonthKey } from './periodService';
+import { buildCSV } from './csvExport';
+
+// --- CLIENT CHURN & REACTIVATION ---
+// Compara a positivação (saldo líquido > 0) do mês de referência com a dos meses da baseline.
+// Recebe o histórico completo até o mês de referência, já filtrado pelas dimensões do painel,
+// para distinguir cliente novo de cliente reativado.
+
+export const CHURN_STATUS_LABELS: Record<ChurnStatus, string> = {
+  churned: 'Perdidos',
+  new: 'Novos',
+  reactivated: 'Reativados'
+};
+
+const netByClient = (records: SaleRecord[]): Record<string, number> => {
+  const net: Record<string, number> = {};
+  records.forEach(r => { net[r.cnpj] = (net[r.cnpj] || 0) + r.amount; });
+  return net;
+};
+
+export const getChurnAnalysis = (history: SaleRecord[], period: ReferencePeriod): ChurnClient[] => {
+  const byClient: Record<string, SaleRecord[]> = {};
+  history.forEach(r => {
+    if (!r.cnpj || toMonthKey(r.date) > period.currentMonth) return;
+    (byClient[r.cnpj] = byClient[r.cnpj] || []).push(r);
+  });
+
+  const currentNet = netByClient(history.filter(r => toMonthKey(r.date) === period.currentMonth));
+  const rangesNet = period.baseline.ranges.map(range => netByClient(history.filter(r => isDateInRange(r.date, range))));
+
+  const clients: ChurnClient[] = [];
+  Object.entries(byClient).forEach(([cnpj, records]) => {
+    const isActiveNow = (currentNet[cnpj] || 0) > 0;
+    const wasActiveInBaseline = rangesNet.some(net => (net[cnpj] || 0) > 0);
+
+    let status: ChurnStatus | null = null;
+    if (wasActiveInBaseline && !isActiveNow) status = 'churned';
+    else if (isActiveNow && !wasActiveInBaseline) {
+      // Compra anterior ao mês (fora da baseline) = reativação; sem nenhuma = cliente novo
+      const boughtBefore = records.some(r => r.operClass === 'VD' && toMonthKey(r.date) < period.currentMonth);
+      status = boughtBefore ? 'reactivated' : 'new';
+    }
+    if (!status) return;
+
+    const sorted = [...records].sort((a, b) => a.date.localeCompare(b.date));
+    const latest = sorted[sorted.length - 1];
+    const lastSale = [...sorted].reverse().find(r => r.operClass === 'VD');
+
+    const monthly: Record<string, number> = {};
+    records.forEach(r => { monthly[toMonthKey(r.date)] = (monthly[toMonthKey(r.date)] || 0) + r.amount; });
+    const activeMonths = Object.values(monthly).filter(v => v > 0);
+
+    clients.push({
+      cnpj,
+      companyName: latest.companyName,
+      status,
+      salesRep: (lastSale || latest).salesRep,
+      region: latest.region,
+      sector: latest.sector,
+      lastPurchaseDate: lastSale?.date || '',
+      avgMonthlyRevenue: activeMonths.length > 0 ? activeMonths.reduce((a, b) => a + b, 0) / activeMonths.length : 0,
+      currentRevenue: currentNet[cnpj] || 0,
+      baselineRevenue: rangesNet.length > 0 ? rangesNet.reduce((acc, net) => acc + (net[cnpj] || 0), 0) / rangesNet.length : 0
+    });
+  });
+
+  // Maior média mensal primeiro: prioridade na lista de ligações
+  return clients.sort((a, b) => b.avgMonthlyRevenue - a.avgMonthlyRevenue);
+};
+
+// Lista de ligações: agrupada por representante, clientes de maior média mensal primeiro
+export const buildCallListCSV = (clients: ChurnClient[]): string => {
+  const money = (value: number) => value.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  const headers = ['Representante', 'Situação', 'CNPJ', 'Razão Social', 'Região', 'Setor', 'Última Compra', 'Média Mensal (R$)', 'Baseline (R$)', 'Mês Atual (R$)'];
+  const rows = [...clients]
+    .sort((a, b) => a.salesRep.localeCompare(b.salesRep) || b.avgMonthlyRevenue - a.avgMonthlyRevenue)
+    .map(c => [
+      c.salesRep, CHURN_STATUS_LABELS[c.status], c.cnpj, c.companyName, c.region, c.sector,
+      c.lastPurchaseDate ? c.lastPurchaseDate.split('-').reverse().join('/') : '-',
+      money(c.avgMonthlyRevenue), money(c.baselineRevenue), money(c.currentRevenue)
+    ]);
+  return buildCSV([headers, ...rows]);
+};
@@ -0,0 +1,166 @@
+import Papa from 'papaparse';
+import { ColumnMapping, ColumnMappingProfile, MappableField } from '../types';
+
+// --- FIELD DEFINITIONS ---
+
+export interface FieldDefinition {
+  field: MappableField;
+  label: string;
+  aliases: string[]; // Cabeçalhos conhecidos dos exports do ERP, em ordem de prioridade
+  required?: boolean;
+}
+
+export const SALE_RECORD_FIELDS: FieldDefinition[] = [
+  { field: 'date', label: 'Data NFE', aliases: ['Data NFE', 'Data'], required: true },
+  { field: 'amount', label: 'Valor', aliases: ['SOMA Valor', 'Valor', 'Faturamento'], required: true },
+  { field: 'quantity', label: 'Quantidade', aliases: ['SOMA Quantidade', 'Quantidade'] },
+  { field: 'cnpj', label: 'CNPJ / Cliente', aliases: ['CNPJ', 'Cliente'], required: true },
+  { field: 'companyName', label: 'Razão Social', aliases: ['Razão Social', 'Razao Social', 'Nome'] },
+  { field: 'productCode', label: 'Cód. Produto', aliases: ['Cód. Produto', 'Cod. Produto', 'Produto'], required: true },
+  { field: 'productDesc', label: 'Descrição', aliases: ['Descrição', 'Descricao'] },
+  { field: 'orderId', label: 'Num. Pedido', aliases: ['Num. Pedido', 'Pedido'], required: true },
+  { field: 'operClass', label: 'Classe Oper.', aliases: ['Classe Oper.', 'Classe Oper'] },
+  { field: 'channel', label: 'Canal', aliases: ['Canal'] },
+  { field: 'region', label: 'Região', aliases: ['Região', 'Regiao'] },
+  { field: 'division', label: 'Divisão', aliases: ['Divisão', 'Divisao'] },
+  { field: 'sector', label: 'Setor', aliases: ['Setor'] },
+  { field: 'salesRep', label: 'Representante', aliases: ['Representante da venda', 'Representante'] },
+  { field: 'supplier', label: 'Fornecedor', aliases: ['Fornecedor'] },
+  { field: 'paymentTerms', label: 'Prazos', aliases: ['Prazos', 'Cond. Pagto'] },
+  { field: 'networkName', label: 'Rede', aliases: ['Nome Rede A', 'Nome Rede R/I', 'Rede'] },
+  { field: 'city', label: 'Cidade', aliases: ['Cidade', 'Município', 'Municipio', 'City'] },
+  { field: 'state', label: 'UF', aliases: ['UF', 'Estado', 'State'] }
+];
+
+// --- HEADER MATCHING ---
+
+// "  Região " -> "regiao"
+export const normalizeHeader = (header: string): string => header
+  .normalize('NFD').replace(/[\u0300-\u036f]/g, '')
+  .toLowerCase().replace(/\s+/g, ' ').trim();
+
+export const detectCSVHeaders = (csvText: string): string[] => {
+  const result = Papa.parse(csvText, { header: false, preview: 1, skipEmptyLines: true });
+  const firstRow = (result.data[0] || []) as string[];
+  return firstRow.map(h => (h || '').toString()).filter(h => h.trim().length > 0);
+};
+
+const findHeader = (headers: string[], candidate: string): string | undefined => {
+  const target = normalizeHeader(candidate);
+  return headers.find(h => normalizeHeader(h) === target);
+};
+
+// Cabeçalhos do arquivo que batem com os candidatos, na ordem dos candidatos
+const matchHeaders = (headers: string[], candidates: string[]): string[] => {
+  const matches: string[] = [];
+  candidates.forEach(candidate => {
+    const header = findHeader(headers, candidate);
+    if (header && !matches.includes(header)) matches.push(header);
+  });
+  return matches;
+};
+
+// Perfil salvo aplicado aos cabeçalhos do arquivo: só as colunas do perfil que existem nele
+const resolveProfileMapping = (headers: string[], profile: ColumnMappingProfile): ColumnMapping => {
+  const mapping: ColumnMapping = {};
+  SALE_RECORD_FIELDS.forEach(def => {
+    const matches = matchHeaders(headers, profile.mapping[def.field] || []);
+    if (matches.length > 0) mapping[def.field] = matches;
+  });
+  return mapping;
+};
+
+// Sugere o mapeamento a partir dos cabeçalhos detectados.
+// Perfil salvo que reconhece alguma coluna do arquivo manda sozinho: campo deixado sem coluna no perfil continua sem coluna.
+// Sem perfil (ou perfil de outro layout): aliases conhecidos (match exato normalizado) -> match parcial pelo alias principal.
+export const suggestColumnMapping = (headers: string[], profile?: ColumnMappingProfile): ColumnMapping => {
+  if (profile) {
+    const profileMapping = resolveProfileMapping(headers, profile);
+    if (Object.keys(profileMapping).length > 0) return profileMapping;
+  }
+
+  const mapping: ColumnMapping = {};
+  const used = new Set<string>();
+
+  SALE_RECORD_FIELDS.forEach(def => {
+    const matches = matchHeaders(headers, def.aliases);
+    if (matches.length > 0) {
+      mapping[def.field] = matches;
+      matches.forEach(h => used.add(h));
+    }
+  });
+
+  SALE_RECORD_FIELDS.forEach(def => {
+    if (mapping[def.field]) return;
+    const primary = normalizeHeader(def.aliases[0]);
+    const partial = headers.find(h => !used.has(h) && normalizeHeader(h).includes(primary));
+    if (partial) {
+      mapping[def.field] = [partial];
+      used.add(partial);
+    }
+  });
+
+  return mapping;
+};
+
+export const getMissingRequiredFields = (mapping: ColumnMapping): FieldDefinition[] => {
+  return SALE_RECORD_FIELDS.filter(def => def.required && !(mapping[def.field] && mapping[def.field]!.length > 0));
+};
+
+// Lê o primeiro valor não vazio entre as colunas mapeadas
+export const readMappedValue = (row: Record<string, any>, mapping: ColumnMapping, field: MappableField): string => {
+  const columns = mapping[field] || [];
+  for (const column of columns) {
+    const value = row[column];
+    if (value !== undefined && value !== null && value.toString().trim() !== '') return value.toString();
+  }
+  return '';
+};
+
+// --- PROFILE PERSISTENCE ---
+
+const PROFILES_STORAGE_KEY = 'painel.columnMappingProfiles';
+const ACTIVE_PROFILE_STORAGE_KEY = 'painel.columnMappingActiveProfile';
+
+export const loadMappingProfiles = (): ColumnMappingProfile[] => {
+  try {
+    const raw = localStorage.getItem(PROFILES_STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (e) {
+    console.warn('Invalid column mapping profiles in storage', e);
+    return [];
+  }
+};
+
+const storeMappingProfiles = (profiles: ColumnMappingProfile[]) => {
+  localStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify(profiles));
+};
+
+export const saveMappingProfile = (name: string, mapping: ColumnMapping): ColumnMappingProfile[] => {
+  const profile: ColumnMappingProfile = { name: name.trim(), mapping, updatedAt: new Date().toISOString() };
+  const profiles = loadMappingProfiles().filter(p => p.name !== profile.name);
+  const updated = [...profiles, profile].sort((a, b) => a.name.localeCompare(b.name));
+  storeMappingProfiles(updated);
+  setActiveProfileName(profile.name);
+  return updated;
+};
+
+export const deleteMappingProfile = (name: string): ColumnMappingProfile[] => {
+  const updated = loadMappingProfiles().filter(p => p.name !== name);
+  storeMappingProfiles(updated);
+  if (getActiveProfileName() === name) setActiveProfileName('');
+  return updated;
+};
+
+export const getActiveProfileName = (): string => localStorage.getItem(ACTIVE_PROFILE_STORAGE_KEY) || '';
+
+export const setActiveProfileName = (name: string) => {
+  if (name) localStorage.setItem(ACTIVE_PROFILE_STORAGE_KEY, name);
+  else localStorage.removeItem(ACTIVE_PROFILE_STORAGE_KEY);
+};
+
+export const getActiveProfile = (): ColumnMappingProfile | undefined => {
+  const name = getActiveProfileName();
+  return name ? loadMappingProfiles().find(p => p.name === name) : undefined;
+};
@@ -0,0 +1,18 @@
+import { describe, expect, it } from 'vitest';
+import { buildCSV, buildTableCSV } from './csvExport';
+
+describe('buildCSV', () => {
+  it('coloca toda célula entre aspas e duplica aspas internas', () => {
+    expect(buildCSV([['Nome', 'Valor'], ['Loja "Centro" #2', 1234.5], ['', null]])).toBe('"Nome","Valor"\n"Loja ""Centro"" #2","1234.5"\n"",""');
+  });
+});
+
+describe('buildTableCSV', () => {
+  it('exporta só os campos simples, na ordem em que aparecem', () => {
+    const rows = [
+      { label: '30/60 dias', revenue: 100, rawValues: ['30/60', '30-60'] },
+      { label: 'À vista', revenue: 50, rawValues: [], extra: true }
+    ];
+    expect(buildTableCSV(rows)).toBe('"label","revenue","extra"\n"30/60 dias","100",""\n"À vista","50","true"');
+  });
+});
@@ -0,0 +1,37 @@
+// --- CSV EXPORT ---
+// Formato único das exportações: vírgula como separador, toda célula entre aspas e BOM para o Excel ler UTF-8
+
+export type CSVValue = string | number | boolean | null | undefined;
+
+const CSV_SEPARATOR = ',';
+
+export const csvCell = (value: CSVValue): string => `"${String(value ?? '').replace(/"/g, '""')}"`;
+
+export const buildCSV = (lines: CSVValue[][]): string =>
+  lines.map(line => line.map(csvCell).join(CSV_SEPARATOR)).join('\n');
+
+// Linhas de uma tabela: uma coluna por campo simples; listas e objetos aninhados ficam de fora
+export const buildTableCSV = (rows: object[]): string => {
+  const columns: string[] = [];
+  const nested = new Set<string>();
+  rows.forEach(row => Object.entries(row).forEach(([key, value]) => {
+    if (value !== null && typeof value === 'object') nested.add(key);
+    else if (!columns.includes(key)) columns.push(key);
+  }));
+  const flat = columns.filter(key => !nested.has(key));
+  return buildCSV([flat, ...rows.map(row => flat.map(key => (row as Record<string, CSVValue>)[key]))]);
+};
+
+export const downloadFile = (content: string, fileName: string, mimeType: string) => {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.setAttribute('href', url);
+  link.setAttribute('download', fileName);
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+export const downloadCSV = (csv: string, fileName: string) => downloadFile('\uFEFF' + csv, fileName, 'text/csv;charset=utf-8');
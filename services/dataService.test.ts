@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { parseCSVWithReport } from './dataService';
+
+describe('parseCSVWithReport', () => {
+  it('informa a linha do arquivo mesmo com linhas em branco e campos com quebra de linha', () => {
+    const csv = [
+      'Data NFE,Valor,CNPJ,Descrição',
+      '06/01/2025,100,11.111.111/0001-11,Arroz',
+      '',
+      'sem data,50,22.222.222/0001-22,Feijão',
+      '10/02/2025,"1.500,00",33.333.333/0001-33,"Kit',
+      'com duas linhas"',
+      '',
+      '2025/13/01,20,11.111.111/0001-11,Café',
+      ''
+    ].join('\r\n');
+
+    const { records, report } = parseCSVWithReport(csv, 'teste.csv');
+
+    expect(report.totalRows).toBe(4);
+    expect(records).toHaveLength(2);
+    expect(report.rejectedRows.map(r => [r.rowNumber, r.reason])).toEqual([
+      [4, 'Data inválida: "sem data"'],
+      [8, 'Data inválida: "2025/13/01"']
+    ]);
+  });
+
+  it('rejeita datas que não existem no calendário', () => {
+    const csv = [
+      'Data NFE,Valor,CNPJ',
+      '31/02/2025,30,22.222.222/0001-22',
+      '29/02/2024,40,33.333.333/0001-33',
+      '2025-04-31,50,11.111.111/0001-11',
+      '2025-12-31,60,11.111.111/0001-11'
+    ].join('\n');
+
+    const { records, report } = parseCSVWithReport(csv, 'teste.csv');
+
+    expect(records.map(r => r.date)).toEqual(['2024-02-29', '2025-12-31']);
+    expect(report.rejectedRows.map(r => [r.rowNumber, r.reason])).toEqual([
+      [2, 'Data inválida: "31/02/2025"'],
+      [4, 'Data inválida: "2025-04-31"']
+    ]);
+  });
+});
@@ -1,219 +1,330 @@
-import { SaleRecord, Channel, FilterState, KPIStats, ChartDataPoint, EntityStats, ProductStats, MonthlyMetric, SupplierStats, GeoStats } from '../types';
+import { SaleRecord, Channel, FilterState, FilterDimension, KPIStats, ChartDataPoint, EntityStats, ProductStats, MonthlyMetric, SectorMonthlyMetric, SupplierStats, GeoStats, ReferencePeriod, ComparisonBaseline, ColumnMapping, MappableField, ImportReport, ImportResult, DateRange, CalendarSettings, BusinessDayKPIs, BusinessDayPace, PaymentSchedule, KpiRules } from '../types';
 import Papa from 'papaparse';
+import { formatMonthShort, isDateInRange, getPeriodMonths, toMonthKey } from './periodService';
+import { countBusinessDays, getMonthBounds, getNthBusinessDay } from './calendarService';
+import { parsePaymentTerms } from './paymentTerms';
+import { suggestColumnMapping, readMappedValue } from './columnMapping';
 
-// --- GOOGLE SHEETS FETCHING ---
+// --- CSV PARSING ---
 
-const GOOGLE_SHEET_ID = '1qQVshadN_2h0mZTTeE5Ao23bNXPHgOqVacjWp_KPDXs';
-const GOOGLE_SHEET_URL = `https://docs.google.com/spreadsheets/d/${GOOGLE_SHEET_ID}/gviz/tq?tqx=out:csv`;
+export const parseAmount = (val: string): number => {
+  if (!val) return 0;
+  let str = val.toString().trim();
+  
+  // Handle negative currency strings like "-R$ 1.000,00" or "R$ -1.000,00"
+  const isExplicitNegative = str.includes('-');
 
-export const fetchGoogleSheetsData = async (): Promise<SaleRecord[]> => {
-  try {
-    const response = await fetch(GOOGLE_SHEET_URL);
-    if (!response.ok) {
-      throw new Error(`Failed to fetch data: ${response.statusText}`);
-    }
-    const csvText = await response.text();
-    return parseCSV(csvText);
-  } catch (error) {
-    console.error("Error fetching Google Sheet:", error);
-    return [];
+  // Remove R$ (case insensitive) and spaces
+  str = str.replace(/R\$/gi, '').trim();
+  
+  // Remove everything that is NOT digit, comma, or dot
+  // We temporarily remove the minus sign here to parse the number cleanly
+  let clean = str.replace(/[^0-9,.]/g, ''); 
+
+  // Brazilian Format Logic:
+  // 1.234,56 -> 1234.56
+  // 1.000 -> 1000
+  // 100,50 -> 100.50
+  if (clean.includes(',') && clean.includes('.')) {
+       clean = clean.replace(/\./g, '').replace(',', '.');
+  } else if (clean.includes(',')) {
+       clean = clean.replace(',', '.');
   }
+  
+  // NaN sinaliza valor não numérico (tratado como 0 e reportado)
+  const num = parseFloat(clean);
+  if (isNaN(num)) return NaN;
+  
+  // Apply sign
+  return isExplicitNegative ? -Math.abs(num) : num;
 };
 
-// --- CSV PARSING ---
+// Aceita "2025-11-03", "03/11/2025" e "3/11/2025 00:00:00"; retorna '' se a data não for válida
+const parseDate = (val: string): string => {
+  if (!val) return '';
+  const str = val.trim().split(/[\sT]/)[0];
+  let year = '', month = '', day = '';
+  if (/^\d{4}-\d{1,2}-\d{1,2}$/.test(str)) {
+    [year, month, day] = str.split('-');
+  } else {
+    const parts = str.split('/');
+    if (parts.length !== 3 || parts[2].length !== 4) return '';
+    [day, month, year] = parts;
+  }
+  const y = parseInt(year, 10), m = parseInt(month, 10), d = parseInt(day, 10);
+  // A data precisa existir no calendário: 31/02 não vira 03/03
+  const date = new Date(y, m - 1, d, 12);
+  if (isNaN(date.getTime()) || date.getFullYear() !== y || date.getMonth() !== m - 1 || date.getDate() !== d) return '';
+  return `${year}-${String(m).padStart(2, '0')}-${String(d).padStart(2, '0')}`;
+};
 
-export const parseCSV = (csvText: string): SaleRecord[] => {
+// Valor acima deste múltiplo da mediana (em módulo) é sinalizado como suspeito
+const SUSPICIOUS_AMOUNT_MEDIAN_FACTOR = 50;
+
+// Linha sem número de pedido recebe `UNK-<índice>`: identifica só a própria linha, não um pedido
+const UNKNOWN_ORDER_PREFIX = 'UNK-';
+
+export const hasOrderId = (r: SaleRecord): boolean => !!r.orderId && !r.orderId.startsWith(UNKNOWN_ORDER_PREFIX);
+
+const createEmptyReport = (source: string): ImportReport => ({
+  source,
+  importedAt: new Date().toISOString(),
+  totalRows: 0,
+  acceptedRows: 0,
+  rejectedRows: [],
+  defaultedFields: {},
+  unknownChannels: {},
+  suspiciousAmounts: [],
+  warnings: []
+});
+
+// Sem mapeamento explícito, usa a sugestão automática baseada nos aliases conhecidos
+export const parseCSVWithReport = (csvText: string, source: string, mapping?: ColumnMapping, previewRows?: number): ImportResult => {
+  const rows: any[] = [];
+  const lineNumbers: number[] = [];
+  const parseWarnings: string[] = [];
+  // Linha de cada registro no arquivo: o cursor marca o fim do registro lido (com a quebra de linha final),
+  // e quebras de linha dentro de campos entre aspas são descontadas para chegar à linha onde ele começa
+  let scanned = 0;
+  let newlines = 0;
   const result = Papa.parse(csvText, {
     header: true,
     skipEmptyLines: true,
     dynamicTyping: false,
+    preview: previewRows || 0,
+    step: (step) => {
+      for (; scanned < step.meta.cursor; scanned++) {
+        if (csvText.charCodeAt(scanned) === 10) newlines++;
+      }
+      const row = step.data as Record<string, any>;
+      const fieldNewlines = Object.values(row).reduce((acc: number, value) => acc + (typeof value === 'string' ? value.split('\n').length - 1 : 0), 0);
+      const endsWithBreak = csvText.charCodeAt(step.meta.cursor - 1) === 10;
+      const lineNumber = newlines + (endsWithBreak ? 0 : 1) - fieldNewlines;
+      rows.push(row);
+      lineNumbers.push(lineNumber);
+      step.errors.forEach(err => {
+        if (parseWarnings.length < 50) parseWarnings.push(`Linha ${lineNumber}: ${err.message}`);
+      });
+    }
   });
 
   const records: SaleRecord[] = [];
-  const rows = result.data as any[];
+  const rowNumbers: Record<string, number> = {};
+  const report = createEmptyReport(source);
+  const columns = mapping || suggestColumnMapping(result.meta.fields || []);
+  const read = (row: any, field: MappableField) => readMappedValue(row, columns, field);
+
+  report.totalRows = rows.length;
+  report.warnings.push(...parseWarnings);
+
+  // Conta campos que caíram no valor padrão por falta de conteúdo na coluna
+  const withDefault = (row: any, field: MappableField, fallback: string): string => {
+    const value = read(row, field);
+    if (value) return value;
+    report.defaultedFields[field] = (report.defaultedFields[field] || 0) + 1;
+    return fallback;
+  };
 
   rows.forEach((row, index) => {
+    const rowNumber = lineNumbers[index];
     try {
-      const parseAmount = (val: string) => {
-        if (!val) return 0;
-        let str = val.toString().trim();
-        
-        // Handle negative currency strings like "-R$ 1.000,00" or "R$ -1.000,00"
-        const isExplicitNegative = str.includes('-');
+      const dateStr = read(row, 'date');
+      const date = parseDate(dateStr);
+      if (!date) {
+        report.rejectedRows.push({ rowNumber, reason: dateStr ? `Data inválida: "${dateStr}"` : 'Data ausente', raw: row });
+        return;
+      }
 
-        // Remove R$ (case insensitive) and spaces
-        str = str.replace(/R\$/gi, '').trim();
-        
-        // Remove everything that is NOT digit, comma, or dot
-        // We temporarily remove the minus sign here to parse the number cleanly
-        let clean = str.replace(/[^0-9,.]/g, ''); 
-
-        // Brazilian Format Logic:
-        // 1.234,56 -> 1234.56
-        // 1.000 -> 1000
-        // 100,50 -> 100.50
-        if (clean.includes(',') && clean.includes('.')) {
-             clean = clean.replace(/\./g, '').replace(',', '.');
-        } else if (clean.includes(',')) {
-             clean = clean.replace(',', '.');
-        }
-        
-        const num = parseFloat(clean);
-        if (isNaN(num)) return 0;
-        
-        // Apply sign
-        return isExplicitNegative ? -Math.abs(num) : num;
-      };
-
-      const parseDate = (val: string) => {
-        if (!val) return '';
-        if (val.match(/^\d{4}-\d{2}-\d{2}$/)) return val;
-        const parts = val.split('/');
-        if (parts.length === 3) {
-          return `${parts[2]}-${parts[1]}-${parts[0]}`;
-        }
-        return '';
-      };
-      
-      const sector = row['Setor'] || 'N/A';
+      const sector = withDefault(row, 'sector', 'N/A');
       
-      const region = row['Região'] || row['Regiao'] || 'N/A';
-      const division = row['Divisão'] || row['Divisao'] || 'N/A';
-      const channelStr = row['Canal'] || 'N/A';
-      const channel = Object.values(Channel).includes(channelStr as Channel) ? (channelStr as Channel) : Channel.VD; 
+      const region = withDefault(row, 'region', 'N/A');
+      const division = withDefault(row, 'division', 'N/A');
+      const channelStr = withDefault(row, 'channel', 'N/A');
+      const isKnownChannel = Object.values(Channel).includes(channelStr as Channel);
+      const channel = isKnownChannel ? (channelStr as Channel) : Channel.VD; 
+      if (!isKnownChannel) report.unknownChannels[channelStr] = (report.unknownChannels[channelStr] || 0) + 1;
       
-      const amountStr = row['SOMA Valor'] || row['Valor'] || row['Faturamento'] || '0';
-      const amount = parseAmount(amountStr);
+      const amountStr = withDefault(row, 'amount', '0');
+      const parsedAmount = parseAmount(amountStr);
+      const amount = isNaN(parsedAmount) ? 0 : parsedAmount;
 
-      const qtyStr = row['SOMA Quantidade'] || row['Quantidade'] || '0';
+      const qtyStr = withDefault(row, 'quantity', '0');
       const quantity = parseInt(qtyStr, 10) || 0;
 
-      const dateStr = row['Data NFE'] || row['Data'] || '';
-      const date = parseDate(dateStr);
-
-      const cnpj = row['CNPJ'] || row['Cliente'] || `UNKNOWN-${index}`; 
-      const companyName = row['Razão Social'] || row['Razao Social'] || row['Nome'] || 'Cliente Desconhecido';
+      const cnpj = withDefault(row, 'cnpj', `UNKNOWN-${index}`); 
+      const companyName = withDefault(row, 'companyName', 'Cliente Desconhecido');
       
-      const productCode = row['Cód. Produto'] || row['Cod. Produto'] || row['Produto'] || 'N/A';
-      const productDesc = row['Descrição'] || row['Descricao'] || 'Produto Desconhecido';
+      const productCode = withDefault(row, 'productCode', 'N/A');
+      const productDesc = withDefault(row, 'productDesc', 'Produto Desconhecido');
       
-      const orderId = row['Num. Pedido'] || row['Pedido'] || `UNK-${index}`;
+      const orderId = withDefault(row, 'orderId', `${UNKNOWN_ORDER_PREFIX}${index}`);
       
-      const operClass = (row['Classe Oper.'] === 'DV' || row['Classe Oper'] === 'DV') ? 'DV' : 'VD';
+      const operClass = (columns.operClass || []).some(col => row[col] === 'DV') ? 'DV' : 'VD';
       
-      const paymentTerms = row['Prazos'] || row['Cond. Pagto'] || '';
+      const paymentTerms = withDefault(row, 'paymentTerms', '');
       
-      const networkName = row['Nome Rede A'] || row['Nome Rede R/I'] || row['Rede'] || 'Independente';
-      const supplier = row['Fornecedor'] || 'N/A';
-      const salesRep = row['Representante da venda'] || row['Representante'] || 'N/A';
+      const networkName = withDefault(row, 'networkName', 'Independente');
+      const supplier = withDefault(row, 'supplier', 'N/A');
+      const salesRep = withDefault(row, 'salesRep', 'N/A');
       
       // Capture Geo Info if available (Common in Brazilian ERP exports)
-      const city = row['Cidade'] || row['Município'] || row['Municipio'] || row['City'] || '';
-      const state = row['UF'] || row['Estado'] || row['State'] || '';
-
-      if (date) {
-        records.push({
-          id: `ROW-${index}`,
-          date,
-          region,
-          division,
-          sector,
-          salesRep,
-          channel,
-          supplier,
-          cnpj,
-          companyName,
-          productCode,
-          productDesc,
-          amount,
-          quantity,
-          orderId,
-          operClass,
-          paymentTerms,
-          networkName,
-          city,
-          state
-        });
+      const city = withDefault(row, 'city', '');
+      const state = withDefault(row, 'state', '');
+
+      const id = `ROW-${index}`;
+      rowNumbers[id] = rowNumber;
+      if (isNaN(parsedAmount)) {
+        report.suspiciousAmounts.push({ rowNumber, recordId: id, amount, reason: `Valor não numérico: "${amountStr}"` });
+      } else if (operClass === 'VD' && amount < 0) {
+        report.suspiciousAmounts.push({ rowNumber, recordId: id, amount, reason: 'Venda (VD) com valor negativo' });
+      } else if (operClass === 'DV' && amount > 0) {
+        report.suspiciousAmounts.push({ rowNumber, recordId: id, amount, reason: 'Devolução (DV) com valor positivo' });
+      } else if (amount === 0 && quantity !== 0) {
+        report.suspiciousAmounts.push({ rowNumber, recordId: id, amount, reason: 'Valor zerado com quantidade informada' });
       }
+
+      records.push({
+        id,
+        date,
+        region,
+        division,
+        sector,
+        salesRep,
+        channel,
+        supplier,
+        cnpj,
+        companyName,
+        productCode,
+        productDesc,
+        amount,
+        quantity,
+        orderId,
+        operClass,
+        paymentTerms,
+        networkName,
+        city,
+        state
+      });
     } catch (e) {
-      console.warn(`Error parsing row ${index}`, e);
+      report.rejectedRows.push({ rowNumber, reason: `Erro ao interpretar linha: ${e instanceof Error ? e.message : String(e)}`, raw: row });
     }
   });
 
-  return records.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+  // Outliers: valores muito acima da mediana da base
+  const absAmounts = records.map(r => Math.abs(r.amount)).filter(v => v > 0).sort((a, b) => a - b);
+  if (absAmounts.length > 0) {
+    const median = absAmounts[Math.floor(absAmounts.length / 2)];
+    const limit = median * SUSPICIOUS_AMOUNT_MEDIAN_FACTOR;
+    const flagged = new Set(report.suspiciousAmounts.map(s => s.recordId));
+    records.forEach(r => {
+      if (Math.abs(r.amount) > limit && !flagged.has(r.id)) {
+        report.suspiciousAmounts.push({ rowNumber: rowNumbers[r.id], recordId: r.id, amount: r.amount, reason: `Valor ${SUSPICIOUS_AMOUNT_MEDIAN_FACTOR}x acima da mediana (R$ ${median.toLocaleString('pt-BR', { maximumFractionDigits: 2 })})` });
+      }
+    });
+  }
+  report.suspiciousAmounts.sort((a, b) => a.rowNumber - b.rowNumber);
+  report.acceptedRows = records.length;
+
+  return {
+    records: records.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime()),
+    report
+  };
+};
+
+export const parseCSV = (csvText: string, mapping?: ColumnMapping, previewRows?: number): SaleRecord[] => {
+  return parseCSVWithReport(csvText, 'CSV', mapping, previewRows).records;
 };
 
 // --- FILTER LOGIC ---
 
-export const filterData = (data: SaleRecord[], filters: FilterState): SaleRecord[] => {
-  return data.filter(record => {
-    const recordMonth = record.date.substring(0, 7); 
-    
-    const inDateRange = recordMonth >= filters.startMonth && recordMonth <= filters.endMonth;
+export const FILTER_DIMENSIONS: FilterDimension[] = [
+  'division', 'region', 'sector', 'salesRep', 'channel', 'supplier',
+  'productCode', 'cnpj', 'networkName', 'city', 'state', 'paymentTerms'
+];
+
+// Inclusão vazia (ou 'all') = todos; exclusão remove valores depois da inclusão
+const matchesDimension = (record: SaleRecord, dim: FilterDimension, filters: FilterState): boolean => {
+  const value = record[dim] || '';
+  const include = filters[dim];
+  if (include && include.length > 0 && !include.includes('all') && !include.includes(value)) return false;
+  const exclude = filters.exclude?.[dim];
+  if (exclude && exclude.length > 0 && exclude.includes(value)) return false;
+  return true;
+};
 
-    const matches = (recordValue: string, filterValues: string[]) => {
-        if (!filterValues || filterValues.length === 0 || filterValues.includes('all')) return true;
-        return filterValues.includes(recordValue);
-    };
+const isInMonthRange = (record: SaleRecord, filters: FilterState): boolean => {
+  const recordMonth = record.date.substring(0, 7);
+  return recordMonth >= filters.startMonth && recordMonth <= filters.endMonth;
+};
 
-    const matchesDivision = matches(record.division, filters.division);
-    const matchesRegion = matches(record.region, filters.region);
-    const matchesSector = matches(record.sector, filters.sector);
-    const matchesRep = matches(record.salesRep, filters.salesRep);
-    const matchesChannel = matches(record.channel, filters.channel);
-    const matchesSupplier = matches(record.supplier, filters.supplier);
+const matchesFilters = (record: SaleRecord, filters: FilterState): boolean =>
+  isInMonthRange(record, filters) && FILTER_DIMENSIONS.every(dim => matchesDimension(record, dim, filters));
 
-    return matchesDivision && matchesRegion && matchesSector && matchesRep && matchesChannel && matchesSupplier && inDateRange;
-  });
+export const filterData = (data: SaleRecord[], filters: FilterState): SaleRecord[] => {
+  return data.filter(record => matchesFilters(record, filters));
 };
 
+// Opções de cada dimensão consideram as demais (inclusões e exclusões), mas não ela própria,
+// para que valores excluídos continuem visíveis na lista.
+// Uma passada só: registro aceito por todas as dimensões entra em todas as listas; barrado por uma
+// única dimensão entra só na lista dela; barrado por duas ou mais não entra em nenhuma
 export const getCascadingOptions = (data: SaleRecord[], currentFilters: FilterState) => {
-  const getOptionsFor = (key: keyof SaleRecord, filtersToApply: Partial<FilterState>) => {
-    const subset = data.filter(record => {
-        const recordMonth = record.date.substring(0, 7);
-        if (recordMonth < currentFilters.startMonth || recordMonth > currentFilters.endMonth) return false;
-
-        if (filtersToApply.division && !filtersToApply.division.includes('all') && filtersToApply.division.length > 0 && !filtersToApply.division.includes(record.division)) return false;
-        if (filtersToApply.region && !filtersToApply.region.includes('all') && filtersToApply.region.length > 0 && !filtersToApply.region.includes(record.region)) return false;
-        if (filtersToApply.sector && !filtersToApply.sector.includes('all') && filtersToApply.sector.length > 0 && !filtersToApply.sector.includes(record.sector)) return false;
-        if (filtersToApply.salesRep && !filtersToApply.salesRep.includes('all') && filtersToApply.salesRep.length > 0 && !filtersToApply.salesRep.includes(record.salesRep)) return false;
-        if (filtersToApply.channel && !filtersToApply.channel.includes('all') && filtersToApply.channel.length > 0 && !filtersToApply.channel.includes(record.channel)) return false;
-        if (filtersToApply.supplier && !filtersToApply.supplier.includes('all') && filtersToApply.supplier.length > 0 && !filtersToApply.supplier.includes(record.supplier)) return false;
-        return true;
+  const options = Object.fromEntries(FILTER_DIMENSIONS.map(dim => [dim, new Set<string>()])) as Record<FilterDimension, Set<string>>;
+  data.forEach(record => {
+    if (!isInMonthRange(record, currentFilters)) return;
+    let rejectedBy: FilterDimension | undefined;
+    for (const dim of FILTER_DIMENSIONS) {
+      if (matchesDimension(record, dim, currentFilters)) continue;
+      if (rejectedBy) return;
+      rejectedBy = dim;
+    }
+    (rejectedBy ? [rejectedBy] : FILTER_DIMENSIONS).forEach(dim => {
+      const value = record[dim];
+      if (value) options[dim].add(value);
     });
-    return Array.from(new Set(subset.map(r => r[key] as string))).filter(Boolean).sort();
+  });
+  const getOptionsFor = (dim: FilterDimension) => Array.from(options[dim]).sort();
+
+  return {
+    divisions: getOptionsFor('division'),
+    regions: getOptionsFor('region'),
+    sectors: getOptionsFor('sector'),
+    reps: getOptionsFor('salesRep'),
+    channels: getOptionsFor('channel'),
+    suppliers: getOptionsFor('supplier'),
+    products: getOptionsFor('productCode'),
+    clients: getOptionsFor('cnpj'),
+    networks: getOptionsFor('networkName'),
+    cities: getOptionsFor('city'),
+    states: getOptionsFor('state'),
+    paymentTerms: getOptionsFor('paymentTerms')
   };
-  
-  const { division, ...filtersNoDivision } = currentFilters;
-  const divisions = getOptionsFor('division', filtersNoDivision);
-
-  const { region, ...filtersNoRegion } = currentFilters;
-  const regions = getOptionsFor('region', filtersNoRegion);
-
-  const { sector, ...filtersNoSector } = currentFilters;
-  const sectors = getOptionsFor('sector', filtersNoSector);
-
-  const { salesRep, ...filtersNoRep } = currentFilters;
-  const reps = getOptionsFor('salesRep', filtersNoRep);
-
-  const { channel, ...filtersNoChannel } = currentFilters;
-  const channels = getOptionsFor('channel', filtersNoChannel); 
-
-  const { supplier, ...filtersNoSupplier } = currentFilters;
-  const suppliers = getOptionsFor('supplier', filtersNoSupplier);
+};
 
-  return { divisions, regions, sectors, reps, channels, suppliers };
+// Rótulos legíveis para dimensões identificadas por código (produto -> descrição, CNPJ -> razão social)
+export const getFilterOptionLabels = (data: SaleRecord[]): Partial<Record<FilterDimension, Record<string, string>>> => {
+  const products: Record<string, string> = {};
+  const clients: Record<string, string> = {};
+  data.forEach(r => {
+    if (r.productCode && !products[r.productCode] && r.productDesc) products[r.productCode] = `${r.productCode} - ${r.productDesc}`;
+    if (r.cnpj && !clients[r.cnpj] && r.companyName) clients[r.cnpj] = `${r.cnpj} - ${r.companyName}`;
+  });
+  return { productCode: products, cnpj: clients };
 };
 
 // --- KPI CALCULATIONS ---
 
-const calculateStatsInternal = (data: SaleRecord[]) => {
-    // 1. Faturamento (Líquido: Vendas + Devoluções Negativas)
-    const totalRevenue = data.reduce((acc, curr) => acc + curr.amount, 0);
+// `rules` escolhe a variante de cada KPI (registro de indicadores em metricService); DEFAULT_KPI_RULES reproduz a regra original
+const calculateStatsInternal = (data: SaleRecord[], rules: KpiRules) => {
+    const sales = data.filter(r => r.operClass === 'VD');
+    const returns = data.filter(r => r.operClass === 'DV');
+
+    // 1. Faturamento (Líquido: Vendas + Devoluções Negativas | Bruto: só vendas)
+    const totalRevenue = (rules.totalRevenue === 'gross' ? sales : data).reduce((acc, curr) => acc + curr.amount, 0);
   
-    // 2. Positivação (Clientes Ativos: Saldo Líquido > 0)
+    // 2. Positivação (Clientes Ativos: Saldo Líquido > 0 | Bruta: qualquer venda)
     const clientNetRevenue: Record<string, number> = {};
-    data.forEach(r => {
+    (rules.positivacao === 'gross' ? sales : data).forEach(r => {
         clientNetRevenue[r.cnpj] = (clientNetRevenue[r.cnpj] || 0) + r.amount;
     });
     // Cliente só conta como positivado se o saldo final for positivo
@@ -223,12 +334,9 @@ const calculateStatsInternal = (data: SaleRecord[]) => {
         
     const positivacao = activeClients.length;
   
-    // 3. Pedidos (Líquido: Pedidos Venda - Pedidos Devolução)
-    const sales = data.filter(r => r.operClass === 'VD');
-    const returns = data.filter(r => r.operClass === 'DV');
-    
+    // 3. Pedidos (Líquido: Pedidos Venda - Pedidos Devolução | Bruto: só pedidos de venda)
     const distinctOrdersVD = new Set(sales.map(r => r.orderId)).size;
-    const distinctOrdersDV = new Set(returns.map(r => r.orderId)).size;
+    const distinctOrdersDV = rules.totalOrders === 'gross' ? 0 : new Set(returns.map(r => r.orderId)).size;
     // Evita negativo
     const totalOrders = Math.max(0, distinctOrdersVD - distinctOrdersDV);
   
@@ -256,96 +364,134 @@ const calculateStatsInternal = (data: SaleRecord[]) => {
     activeClients.forEach(cnpj => {
         if (clientSkuMap[cnpj]) {
             const vdCount = clientSkuMap[cnpj].vd.size;
-            const dvCount = clientSkuMap[cnpj].dv.size;
+            const dvCount = rules.skuPerPdv === 'gross' ? 0 : clientSkuMap[cnpj].dv.size;
             // Subtração simples de contagem de SKUs distintos, conforme regra do usuário.
             const netSkus = Math.max(0, vdCount - dvCount);
             totalNetSkus += netSkus;
         }
     });
 
-    const skuPerPdv = positivacao > 0 ? totalNetSkus / positivacao : 0;
+    let skuPerPdv = positivacao > 0 ? totalNetSkus / positivacao : 0;
+
+    // Variante "por pedido": SKUs distintos em cada pedido de venda, em média
+    if (rules.skuPerPdv === 'perOrder') {
+        const orderSkus: Record<string, Set<string>> = {};
+        sales.forEach(r => {
+            if (!orderSkus[r.orderId]) orderSkus[r.orderId] = new Set();
+            orderSkus[r.orderId].add(r.productCode);
+        });
+        const orders = Object.values(orderSkus);
+        skuPerPdv = orders.length > 0 ? orders.reduce((acc, skus) => acc + skus.size, 0) / orders.length : 0;
+    }
   
-    // 6. Parcela Média (Weighted) - Considera apenas Vendas (VD) para não distorcer prazos com devoluções
+    // 6/7. Parcela Média e Prazo Médio (ponderados pelo valor) - Apenas Vendas, para não distorcer prazos com devoluções.
+    // A condição é interpretada uma vez por pedido + condição + data; condições não reconhecidas ficam fora das duas médias.
     let totalWeightedInstallments = 0;
-    let totalSalesForInstallments = 0;
-  
-    sales.forEach(r => {
-      if (r.paymentTerms) {
-          let installmentCount = 0;
-          const dateMatches = r.paymentTerms.match(/\d{2}\/\d{2}\/\d{4}/g);
-          if (dateMatches && dateMatches.length > 0) {
-              installmentCount = dateMatches.length;
-          } else {
-             const count = r.paymentTerms.split(/[-\/]/).filter(s => s.trim().length > 0).length;
-             if (count > 0) installmentCount = count;
-          }
-
-          if (installmentCount > 0) {
-              totalWeightedInstallments += (installmentCount * r.amount);
-              totalSalesForInstallments += r.amount;
-          }
-      }
-    });
-    const avgInstallments = totalSalesForInstallments > 0 ? totalWeightedInstallments / totalSalesForInstallments : 0;
-  
-    // 7. Prazo Médio (Weighted by Amount) - Apenas Vendas
     let totalWeightedDays = 0;
+    let totalSalesForTerms = 0;
     let totalSalesForTerm = 0;
-    const orderTermCache: Record<string, number> = {};
+    const orderScheduleCache: Record<string, PaymentSchedule> = {};
 
     sales.forEach(r => {
-      if (r.paymentTerms && r.date) {
-        let avgDaysForOrder = 0;
-        if (orderTermCache[r.orderId] !== undefined) {
-             avgDaysForOrder = orderTermCache[r.orderId];
-        } else {
-            const [y, m, d] = r.date.split('-').map(Number);
-            const nfeDate = new Date(y, m - 1, d); 
-            const dateMatches = [...r.paymentTerms.matchAll(/(\d{2})\/(\d{2})\/(\d{4})/g)];
-            if (dateMatches.length > 0) {
-                let currentOrderTotalDays = 0;
-                dateMatches.forEach(match => {
-                    const day = parseInt(match[1], 10);
-                    const month = parseInt(match[2], 10) - 1; 
-                    const year = parseInt(match[3], 10);
-                    const dueDate = new Date(year, month, day);
-                    const diffTime = dueDate.getTime() - nfeDate.getTime();
-                    const diffDays = Math.round(diffTime / (1000 * 60 * 60 * 24)); 
-                    currentOrderTotalDays += diffDays;
-                });
-                avgDaysForOrder = currentOrderTotalDays / dateMatches.length;
-            } else {
-                const daysParts = r.paymentTerms.split(/[-\/]/).map(d => parseInt(d, 10));
-                let validDaysCount = 0;
-                let validDaysSum = 0;
-                daysParts.forEach(day => {
-                    if (!isNaN(day) && day > 0 && day < 2000) { 
-                    validDaysSum += day;
-                    validDaysCount++;
-                    }
-                });
-                if (validDaysCount > 0) avgDaysForOrder = validDaysSum / validDaysCount;
-            }
-            orderTermCache[r.orderId] = avgDaysForOrder;
-        }
-        if (avgDaysForOrder >= 0) {
-            totalWeightedDays += (avgDaysForOrder * r.amount);
-            totalSalesForTerm += r.amount;
-        }
+      if (!r.paymentTerms || !r.date) return;
+      const key = `${r.orderId}|${r.paymentTerms}|${r.date}`;
+      const schedule = orderScheduleCache[key] || (orderScheduleCache[key] = parsePaymentTerms(r.paymentTerms, r.date));
+      if (schedule.kind === 'unparsed') return;
+      totalWeightedInstallments += schedule.installments.length * r.amount;
+      totalSalesForTerms += r.amount;
+      // Vencimento anterior à nota é erro de cadastro: conta a parcela, mas não o prazo
+      if (schedule.avgDays >= 0) {
+          totalWeightedDays += schedule.avgDays * r.amount;
+          totalSalesForTerm += r.amount;
       }
     });
+    const avgInstallments = totalSalesForTerms > 0 ? totalWeightedInstallments / totalSalesForTerms : 0;
     const avgTerm = totalSalesForTerm > 0 ? totalWeightedDays / totalSalesForTerm : 0;
 
     return { totalRevenue, positivacao, totalOrders, averageTicket, skuPerPdv, avgInstallments, avgTerm };
 };
 
-export const calculateKPIs = (data: SaleRecord[]): KPIStats => {
-    return calculateStatsInternal(data);
+export const calculateKPIs = (data: SaleRecord[], rules: KpiRules): KPIStats => {
+    return calculateStatsInternal(data, rules);
+};
+
+const KPI_KEYS: (keyof KPIStats)[] = ['totalRevenue', 'positivacao', 'totalOrders', 'averageTicket', 'skuPerPdv', 'avgInstallments', 'avgTerm'];
+
+const averageStats = (statsList: KPIStats[]): KPIStats => {
+    const avg: Partial<KPIStats> = {};
+    KPI_KEYS.forEach(key => {
+        const sum = statsList.reduce((acc, curr) => acc + curr[key], 0);
+        avg[key] = statsList.length > 0 ? sum / statsList.length : 0;
+    });
+    return avg as KPIStats;
+};
+
+// Baseline = média simples dos KPIs de cada intervalo (um por mês)
+export const calculateBaselineKPIs = (data: SaleRecord[], baseline: ComparisonBaseline, rules: KpiRules): KPIStats => {
+    return averageStats(baseline.ranges.map(range => calculateStatsInternal(data.filter(r => isDateInRange(r.date, range)), rules)));
+};
+
+export const calcTrend = (current: number, base: number): number => {
+    if (base === 0) return current > 0 ? 100 : 0;
+    return ((current - base) / base) * 100;
+};
+
+// --- BUSINESS-DAY COMPARISONS ---
+// Totais divididos pelos dias úteis do intervalo: um mês com feriados não parece "pior" só por ter menos dias
+
+const toBusinessDayKPIs = (stats: KPIStats, businessDays: number): BusinessDayKPIs => ({
+    businessDays,
+    revenuePerBusinessDay: businessDays > 0 ? stats.totalRevenue / businessDays : 0,
+    ordersPerBusinessDay: businessDays > 0 ? stats.totalOrders / businessDays : 0
+});
+
+export const calculateBusinessDayKPIs = (data: SaleRecord[], range: DateRange, calendar: CalendarSettings, rules: KpiRules): BusinessDayKPIs => {
+    return toBusinessDayKPIs(calculateStatsInternal(data.filter(r => isDateInRange(r.date, range)), rules), countBusinessDays(range.start, range.end, calendar));
+};
+
+export const calculateBaselineBusinessDayKPIs = (data: SaleRecord[], baseline: ComparisonBaseline, calendar: CalendarSettings, rules: KpiRules): BusinessDayKPIs => {
+    const list = baseline.ranges.map(range => calculateBusinessDayKPIs(data, range, calendar, rules));
+    const avg = (key: keyof BusinessDayKPIs) => list.length > 0 ? list.reduce((acc, k) => acc + k[key], 0) / list.length : 0;
+    return { businessDays: avg('businessDays'), revenuePerBusinessDay: avg('revenuePerBusinessDay'), ordersPerBusinessDay: avg('ordersPerBusinessDay') };
+};
+
+// Mês de referência vai até `asOfDate` (última venda da base) enquanto estiver aberto
+const getCurrentMonthRange = (period: ReferencePeriod, asOfDate: string): DateRange => {
+    const { start, end } = getMonthBounds(period.currentMonth);
+    return { start, end: asOfDate && asOfDate < end ? asOfDate : end };
+};
+
+// Ritmo: realizado até o n-ésimo dia útil vs a média do baseline até o mesmo dia útil de cada mês
+export const getBusinessDayPace = (data: SaleRecord[], period: ReferencePeriod, asOfDate: string, calendar: CalendarSettings, rules: KpiRules): BusinessDayPace => {
+    const current = calculateBusinessDayKPIs(data, getCurrentMonthRange(period, asOfDate), calendar, rules);
+    const businessDay = current.businessDays;
+    const samePoint = period.baseline.ranges.map(range => {
+        const sameDay = getNthBusinessDay(toMonthKey(range.start), Math.max(businessDay, 1), calendar);
+        return calculateStatsInternal(data.filter(r => isDateInRange(r.date, { start: range.start, end: sameDay < range.end ? sameDay : range.end })), rules).totalRevenue;
+    });
+    const samePointRevenue = samePoint.length > 0 ? samePoint.reduce((a, b) => a + b, 0) / samePoint.length : 0;
+    return {
+        businessDay,
+        current,
+        baseline: calculateBaselineBusinessDayKPIs(data, period.baseline, calendar, rules),
+        samePointRevenue,
+        pace: calcTrend(current.revenuePerBusinessDay * businessDay, samePointRevenue)
+    };
+};
+
+// Dias úteis de cada coluna da matriz por setor; o baseline é a média dos seus intervalos
+export const getPeriodBusinessDays = (period: ReferencePeriod, asOfDate: string, calendar: CalendarSettings): { months: Record<string, number>, baseline: number } => {
+    const months = Object.fromEntries(getPeriodMonths(period).map(m => {
+        const range = m === period.currentMonth ? getCurrentMonthRange(period, asOfDate) : getMonthBounds(m);
+        return [m, countBusinessDays(range.start, range.end, calendar)];
+    }));
+    const rangeDays = period.baseline.ranges.map(range => countBusinessDays(range.start, range.end, calendar));
+    return { months, baseline: rangeDays.length > 0 ? rangeDays.reduce((a, b) => a + b, 0) / rangeDays.length : 0 };
 };
 
 // --- AGGREGATIONS ---
 
-export const getMonthlyEvolution = (data: SaleRecord[]): MonthlyMetric[] => {
+export const getMonthlyEvolution = (data: SaleRecord[], rules: KpiRules): MonthlyMetric[] => {
     const grouped: Record<string, SaleRecord[]> = {};
     data.forEach(r => {
         const monthKey = r.date.substring(0, 7);
@@ -353,16 +499,14 @@ export const getMonthlyEvolution = (data: SaleRecord[]): MonthlyMetric[] => {
         grouped[monthKey].push(r);
     });
     const metrics = Object.entries(grouped).map(([monthKey, records]) => {
-        const stats = calculateStatsInternal(records);
-        const [year, month] = monthKey.split('-');
-        const monthNames = ['Jan', 'Fev', 'Mar', 'Abr', 'Mai', 'Jun', 'Jul', 'Ago', 'Set', 'Out', 'Nov', 'Dez'];
-        const name = monthNames[parseInt(month) - 1] || monthKey;
-        return { name: name, sortKey: monthKey, revenue: stats.totalRevenue, positivacao: stats.positivacao, ticketMedio: stats.averageTicket, skuPdv: stats.skuPerPdv };
+        const stats = calculateStatsInternal(records, rules);
+        const name = formatMonthShort(monthKey);
+        return { name: name, sortKey: monthKey, revenue: stats.totalRevenue, positivacao: stats.positivacao, ticketMedio: stats.averageTicket, skuPdv: stats.skuPerPdv, kpis: stats };
     });
     return metrics.sort((a, b) => a.sortKey.localeCompare(b.sortKey));
 };
 
-export const getSectorMonthlyEvolution = (data: SaleRecord[]) => {
+export const getSectorMonthlyEvolution = (data: SaleRecord[], rules: KpiRules): SectorMonthlyMetric[] => {
     const grouped: Record<string, SaleRecord[]> = {};
     data.forEach(r => {
         const monthKey = r.date.substring(0, 7);
@@ -370,10 +514,8 @@ export const getSectorMonthlyEvolution = (data: SaleRecord[]) => {
         grouped[monthKey].push(r);
     });
     const metrics = Object.entries(grouped).map(([monthKey, records]) => {
-        const [year, month] = monthKey.split('-');
-        const monthNames = ['Jan', 'Fev', 'Mar', 'Abr', 'Mai', 'Jun', 'Jul', 'Ago', 'Set', 'Out', 'Nov', 'Dez'];
-        const name = monthNames[parseInt(month) - 1] || monthKey;
-        const row: any = { name: name, sortKey: monthKey };
+        const name = formatMonthShort(monthKey);
+        const row: SectorMonthlyMetric = { name: name, sortKey: monthKey, sectors: {} };
         const sectorGroups: Record<string, SaleRecord[]> = {};
         records.forEach(r => {
              const s = r.sector || 'N/A';
@@ -381,49 +523,38 @@ export const getSectorMonthlyEvolution = (data: SaleRecord[]) => {
              sectorGroups[s].push(r);
         });
         Object.entries(sectorGroups).forEach(([sector, sRecords]) => {
-             const stats = calculateStatsInternal(sRecords);
-             row[sector] = { revenue: stats.totalRevenue, positivacao: stats.positivacao, ticketMedio: stats.averageTicket, skuPdv: stats.skuPerPdv };
+             const stats = calculateStatsInternal(sRecords, rules);
+             row.sectors[sector] = stats;
         });
         return row;
     });
     return metrics.sort((a, b) => a.sortKey.localeCompare(b.sortKey));
 };
 
-export const getSectorPivotData = (data: SaleRecord[]) => {
+export const getSectorPivotData = (data: SaleRecord[], period: ReferencePeriod, rules: KpiRules) => {
     const months = Array.from(new Set(data.map(r => r.date.substring(0, 7)))).sort();
     const sectors = Array.from(new Set(data.map(r => r.sector))).sort();
-    const closedMonths = ['2025-08', '2025-09', '2025-10'];
     const monthTotals: Record<string, KPIStats> = {};
     months.forEach(m => {
         const monthlyRecords = data.filter(r => r.date.startsWith(m));
-        monthTotals[m] = calculateStatsInternal(monthlyRecords);
+        monthTotals[m] = calculateStatsInternal(monthlyRecords, rules);
     });
-    const calculateAverageOfMonths = (monthDataMap: Record<string, KPIStats>): KPIStats => {
-        const stats: any = {};
-        const keys: (keyof KPIStats)[] = ['totalRevenue', 'positivacao', 'totalOrders', 'averageTicket', 'skuPerPdv', 'avgInstallments', 'avgTerm'];
-        keys.forEach(key => {
-            let sum = 0;
-            closedMonths.forEach(m => { if (monthDataMap[m]) sum += monthDataMap[m][key]; });
-            stats[key] = sum / 3;
-        });
-        return stats as KPIStats;
-    };
-    const grandTotal = calculateAverageOfMonths(monthTotals);
+    const grandTotal = calculateBaselineKPIs(data, period.baseline, rules);
     const rows = sectors.map(sector => {
         const sectorRecords = data.filter(r => r.sector === sector);
         const monthStats: Record<string, KPIStats> = {};
         months.forEach(m => {
             const smRecords = sectorRecords.filter(r => r.date.startsWith(m));
-            monthStats[m] = calculateStatsInternal(smRecords);
+            monthStats[m] = calculateStatsInternal(smRecords, rules);
         });
-        const rowAverage = calculateAverageOfMonths(monthStats);
+        const rowAverage = calculateBaselineKPIs(sectorRecords, period.baseline, rules);
         return { sector, months: monthStats, total: rowAverage };
     });
     rows.sort((a, b) => b.total.totalRevenue - a.total.totalRevenue);
     return { rows, months, monthTotals, grandTotal };
 };
 
-const getStatsByGroup = (data: SaleRecord[], groupKeyFn: (r: SaleRecord) => string): EntityStats[] => {
+const getStatsByGroup = (data: SaleRecord[], groupKeyFn: (r: SaleRecord) => string, period: ReferencePeriod, rules: KpiRules): EntityStats[] => {
   const groups: Record<string, { records: SaleRecord[], name: string, region: string, sector: string }> = {};
   data.forEach(r => {
     const key = groupKeyFn(r);
@@ -433,13 +564,10 @@ const getStatsByGroup = (data: SaleRecord[], groupKeyFn: (r: SaleRecord) => stri
     if (r.companyName && key === r.cnpj) groups[key].name = r.companyName; 
   });
   return Object.entries(groups).map(([id, group]) => {
-    const novRecords = group.records.filter(r => r.date.startsWith('2025-11'));
-    const novStats = calculateStatsInternal(novRecords);
-    const augRev = calculateStatsInternal(group.records.filter(r => r.date.startsWith('2025-08'))).totalRevenue;
-    const sepRev = calculateStatsInternal(group.records.filter(r => r.date.startsWith('2025-09'))).totalRevenue;
-    const octRev = calculateStatsInternal(group.records.filter(r => r.date.startsWith('2025-10'))).totalRevenue;
-    const avgPastRevenue = (augRev + sepRev + octRev) / 3;
-    const currentRevenue = novStats.totalRevenue;
+    const currentRecords = group.records.filter(r => r.date.startsWith(period.currentMonth));
+    const currentStats = calculateStatsInternal(currentRecords, rules);
+    const avgPastRevenue = calculateBaselineKPIs(group.records, period.baseline, rules).totalRevenue;
+    const currentRevenue = currentStats.totalRevenue;
     let revenueTrend = 0;
     if (avgPastRevenue > 0) revenueTrend = ((currentRevenue - avgPastRevenue) / avgPastRevenue) * 100;
     else if (currentRevenue > 0) revenueTrend = 100;
@@ -450,31 +578,31 @@ const getStatsByGroup = (data: SaleRecord[], groupKeyFn: (r: SaleRecord) => stri
       averagePastRevenue: avgPastRevenue,
       revenueTrend: revenueTrend,
       currentRevenue: currentRevenue,
-      orders: novStats.totalOrders,
-      skuPerPdv: novStats.skuPerPdv,
-      avgTicket: novStats.averageTicket,
-      avgInstallments: novStats.avgInstallments,
-      avgTerm: novStats.avgTerm,
+      orders: currentStats.totalOrders,
+      skuPerPdv: currentStats.skuPerPdv,
+      avgTicket: currentStats.averageTicket,
+      avgInstallments: currentStats.avgInstallments,
+      avgTerm: currentStats.avgTerm,
       region: group.region,
       sector: group.sector
     };
   }).sort((a, b) => b.revenue - a.revenue);
 };
 
-export const getNetworkStats = (data: SaleRecord[]): EntityStats[] => getStatsByGroup(data, (r) => r.networkName);
-export const getClientStats = (data: SaleRecord[]): EntityStats[] => getStatsByGroup(data, (r) => r.cnpj);
-export const getSupplierStats = (data: SaleRecord[]): SupplierStats[] => {
-    const stats = getStatsByGroup(data, (r) => r.supplier);
+export const getNetworkStats = (data: SaleRecord[], period: ReferencePeriod, rules: KpiRules): EntityStats[] => getStatsByGroup(data, (r) => r.networkName, period, rules);
+export const getClientStats = (data: SaleRecord[], period: ReferencePeriod, rules: KpiRules): EntityStats[] => getStatsByGroup(data, (r) => r.cnpj, period, rules);
+export const getSupplierStats = (data: SaleRecord[], period: ReferencePeriod, rules: KpiRules): SupplierStats[] => {
+    const stats = getStatsByGroup(data, (r) => r.supplier, period, rules);
     return stats.map(s => {
-         const suppRecords = data.filter(r => r.supplier === s.id && r.operClass === 'VD' && r.date.startsWith('2025-11'));
+         const suppRecords = data.filter(r => r.supplier === s.id && r.operClass === 'VD' && r.date.startsWith(period.currentMonth));
          const skuCount = new Set(suppRecords.map(r => r.productCode)).size;
          return { ...s, skuCount };
     }).sort((a, b) => b.revenue - a.revenue);
 };
-export const getProductStats = (data: SaleRecord[]): ProductStats[] => {
+export const getProductStats = (data: SaleRecord[], period: ReferencePeriod): ProductStats[] => {
     const map: Record<string, ProductStats & { uniqueClients: Set<string>, uniqueOrders: Set<string> }> = {};
-    const novData = data.filter(r => r.date.startsWith('2025-11')); 
-    novData.forEach(r => {
+    const currentData = data.filter(r => r.date.startsWith(period.currentMonth));
+    currentData.forEach(r => {
         if (!map[r.productCode]) map[r.productCode] = { code: r.productCode, desc: r.productDesc, revenue: 0, quantity: 0, supplier: r.supplier, division: r.division, uniqueClients: new Set(), uniqueOrders: new Set(), clientCount: 0, orderCount: 0 };
         // Revenue handles itself (amount is negative for DV)
         const val = r.amount;
@@ -488,7 +616,7 @@ export const getProductStats = (data: SaleRecord[]): ProductStats[] => {
     });
     return Object.values(map).map(p => ({ ...p, clientCount: p.uniqueClients.size, orderCount: p.uniqueOrders.size })).sort((a,b) => b.revenue - a.revenue);
 };
-export const getRepStats = (data: SaleRecord[]): EntityStats[] => getStatsByGroup(data, (r) => r.salesRep);
+export const getRepStats = (data: SaleRecord[], period: ReferencePeriod, rules: KpiRules): EntityStats[] => getStatsByGroup(data, (r) => r.salesRep, period, rules);
 
 // --- GEO INTELLIGENCE ---
 // ... (Geo code remains unchanged)
@@ -0,0 +1,66 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { DataSourceConfig } from '../types';
+import { buildGvizUrl, loadDataSource } from './dataSources';
+import { GvizStandIn, startGvizStandIn } from './__fixtures__/gvizServer';
+
+const SHEET_ID = '1AbCdEfGhIjKlMnOp';
+
+let gviz: GvizStandIn;
+
+beforeAll(async () => { gviz = await startGvizStandIn(); });
+afterAll(() => gviz.close());
+beforeEach(() => { gviz.requests.length = 0; });
+
+const sheetSource = (scenario: string, extra: Partial<DataSourceConfig> = {}): DataSourceConfig => ({
+  id: 'sheet-test',
+  name: 'Planilha de teste',
+  kind: 'googleSheets',
+  sheetId: SHEET_ID,
+  baseUrl: gviz.baseUrl(scenario),
+  ...extra
+});
+
+describe('buildGvizUrl', () => {
+  it('usa o endpoint público do Google sem baseUrl', () => {
+    expect(buildGvizUrl({ id: 'a', name: 'A', kind: 'googleSheets', sheetId: SHEET_ID }))
+      .toBe(`https://docs.google.com/spreadsheets/d/${SHEET_ID}/gviz/tq?tqx=out:csv`);
+  });
+
+  it('troca o endpoint pelo baseUrl e codifica aba e consulta', () => {
+    const url = buildGvizUrl({ id: 'a', name: 'A', kind: 'googleSheets', sheetId: SHEET_ID, sheetName: 'Vendas 2025', baseUrl: 'http://localhost:8080/gviz/' }, 'select * where A > 1');
+    expect(url).toBe(`http://localhost:8080/gviz/${SHEET_ID}/gviz/tq?tqx=out:csv&sheet=Vendas%202025&tq=select%20*%20where%20A%20%3E%201`);
+  });
+});
+
+describe('loadDataSource', () => {
+  it('carrega a planilha pelo baseUrl informado', async () => {
+    const { records, report } = await loadDataSource(sheetSource('vendas', { sheetName: 'Vendas 2025' }));
+
+    expect(gviz.requests).toHaveLength(1);
+    expect(gviz.requests[0].pathname).toBe(`/vendas/${SHEET_ID}/gviz/tq`);
+    expect(gviz.requests[0].searchParams.get('sheet')).toBe('Vendas 2025');
+    expect(report.source).toBe('Planilha de teste');
+    expect(report.rejectedRows).toEqual([]);
+    expect(records).toHaveLength(7);
+    expect(records[0]).toMatchObject({ date: '2025-01-06', cnpj: '11.111.111/0001-11', orderId: '1001', amount: 100, paymentTerms: '30/60' });
+    expect(records.reduce((acc, r) => acc + r.amount, 0)).toBe(1600);
+  });
+
+  it('carrega um CSV por URL', async () => {
+    const { records } = await loadDataSource({ id: 'csv-test', name: 'CSV de teste', kind: 'csvUrl', url: `${gviz.baseUrl('vendas')}/export/gviz/tq` });
+    expect(records).toHaveLength(7);
+  });
+
+  it('rejeita a página HTML devolvida para planilha privada', async () => {
+    await expect(loadDataSource(sheetSource('privada'))).rejects.toThrow('A resposta não é um CSV');
+  });
+
+  it('informa o status HTTP quando a planilha não responde', async () => {
+    await expect(loadDataSource(sheetSource('inexistente'))).rejects.toThrow('HTTP 400');
+  });
+
+  it('exige o ID da planilha', async () => {
+    await expect(loadDataSource(sheetSource('vendas', { sheetId: '' }))).rejects.toThrow('ID da planilha não informado');
+    expect(gviz.requests).toHaveLength(0);
+  });
+});
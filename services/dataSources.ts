@@ -0,0 +1,141 @@
+import { DataSourceConfig, DataSourceKind, ImportResult } from '../types';
+import { parseCSVWithReport } from './dataService';
+import { detectCSVHeaders, suggestColumnMapping, loadMappingProfiles } from './columnMapping';
+
+// --- ADAPTERS ---
+// Interface comum: toda fonte devolve os registros e o relatório de importação.
+
+export interface DataSourceAdapter {
+  kind: DataSourceKind;
+  label: string;
+  load: (config: DataSourceConfig) => Promise<ImportResult>;
+}
+
+export const GVIZ_BASE_URL = 'https://docs.google.com/spreadsheets/d';
+
+export const buildGvizUrl = (config: DataSourceConfig, query?: string): string => {
+  const base = (config.baseUrl || GVIZ_BASE_URL).replace(/\/+$/, '');
+  let url = `${base}/${encodeURIComponent(config.sheetId || '')}/gviz/tq?tqx=out:csv`;
+  if (config.sheetName) url += `&sheet=${encodeURIComponent(config.sheetName)}`;
+  if (query) url += `&tq=${encodeURIComponent(query)}`;
+  return url;
+};
+
+export const fetchText = async (url: string): Promise<string> => {
+  let response: Response;
+  try {
+    response = await fetch(url);
+  } catch (error) {
+    throw new Error(`Falha de rede ao acessar ${url}`);
+  }
+  if (!response.ok) {
+    throw new Error(`Falha ao buscar dados: HTTP ${response.status} ${response.statusText}`.trim());
+  }
+  const text = await response.text();
+  // O gviz responde com uma página HTML (status 200) quando a planilha não é pública
+  if ((response.headers.get('content-type') || '').includes('text/html') || /^\s*<(!doctype|html)/i.test(text)) {
+    throw new Error('A resposta não é um CSV (planilha privada ou endereço incorreto?)');
+  }
+  return text;
+};
+
+const googleSheetsAdapter: DataSourceAdapter = {
+  kind: 'googleSheets',
+  label: 'Google Sheets',
+  load: async (config) => {
+    if (!config.sheetId) throw new Error('ID da planilha não informado');
+    return parseSourceCSV(config, await fetchText(buildGvizUrl(config)));
+  }
+};
+
+const csvUrlAdapter: DataSourceAdapter = {
+  kind: 'csvUrl',
+  label: 'CSV (URL)',
+  load: async (config) => {
+    if (!config.url) throw new Error('URL do CSV não informada');
+    return parseSourceCSV(config, await fetchText(config.url));
+  }
+};
+
+// Bases carregadas de arquivo nesta sessão (já mapeadas e, se for o caso, mescladas), por id da fonte
+const localDatasets = new Map<string, ImportResult>();
+
+export const registerLocalDataset = (sourceId: string, result: ImportResult) => {
+  localDatasets.set(sourceId, result);
+};
+
+const localFileAdapter: DataSourceAdapter = {
+  kind: 'localFile',
+  label: 'Arquivo local',
+  load: async (config) => {
+    const result = localDatasets.get(config.id);
+    if (!result) throw new Error(`Arquivo "${config.fileName || config.name}" não está disponível nesta sessão. Carregue-o novamente.`);
+    return result;
+  }
+};
+
+export const DATA_SOURCE_ADAPTERS: Record<DataSourceKind, DataSourceAdapter> = {
+  googleSheets: googleSheetsAdapter,
+  csvUrl: csvUrlAdapter,
+  localFile: localFileAdapter
+};
+
+export const describeSource = (config: DataSourceConfig): string => {
+  switch (config.kind) {
+    case 'googleSheets': return `Planilha ${config.sheetId}${config.sheetName ? ` · aba "${config.sheetName}"` : ''}${config.baseUrl ? ` · via ${config.baseUrl}` : ''}`;
+    case 'csvUrl': return config.url || '';
+    case 'localFile': return config.fileName || config.name;
+  }
+};
+
+// Aplica o perfil de mapeamento da fonte (ou a sugestão automática) e gera o relatório
+export const parseSourceCSV = (config: DataSourceConfig, csvText: string): ImportResult => {
+  const profile = config.mappingProfile ? loadMappingProfiles().find(p => p.name === config.mappingProfile) : undefined;
+  const mapping = suggestColumnMapping(detectCSVHeaders(csvText), profile);
+  return parseCSVWithReport(csvText, config.name, mapping);
+};
+
+// Lança erro em vez de devolver lista vazia: quem chama registra o status da fonte
+export const loadDataSource = async (config: DataSourceConfig): Promise<ImportResult> => {
+  const adapter = DATA_SOURCE_ADAPTERS[config.kind];
+  if (!adapter) throw new Error(`Tipo de fonte desconhecido: ${config.kind}`);
+  return adapter.load(config);
+};
+
+// --- REGISTRY PERSISTENCE ---
+
+const SOURCES_STORAGE_KEY = 'painel.dataSources';
+const ACTIVE_SOURCE_STORAGE_KEY = 'painel.activeDataSource';
+
+export const DEFAULT_DATA_SOURCE: DataSourceConfig = {
+  id: 'default-sheet',
+  name: 'Planilha Oficial',
+  kind: 'googleSheets',
+  sheetId: '1qQVshadN_2h0mZTTeE5Ao23bNXPHgOqVacjWp_KPDXs'
+};
+
+export const createSourceId = (kind: DataSourceKind): string => `${kind}-${Date.now().toString(36)}`;
+
+export const loadDataSources = (): DataSourceConfig[] => {
+  try {
+    const raw = localStorage.getItem(SOURCES_STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : null;
+    if (Array.isArray(parsed) && parsed.length > 0) return parsed;
+  } catch (e) {
+    console.warn('Invalid data sources in storage', e);
+  }
+  return [DEFAULT_DATA_SOURCE];
+};
+
+export const saveDataSources = (sources: DataSourceConfig[]) => {
+  localStorage.setItem(SOURCES_STORAGE_KEY, JSON.stringify(sources));
+};
+
+export const getActiveSourceId = (sources: DataSourceConfig[]): string => {
+  const stored = localStorage.getItem(ACTIVE_SOURCE_STORAGE_KEY);
+  return stored && sources.some(s => s.id === stored) ? stored : sources[0]?.id || '';
+};
+
+export const setActiveSourceId = (id: string) => {
+  localStorage.setItem(ACTIVE_SOURCE_STORAGE_KEY, id);
+};
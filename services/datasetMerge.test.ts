@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { mergeDatasets } from './datasetMerge';
+import { makeRecord } from './__fixtures__/records';
+
+describe('mergeDatasets', () => {
+  it('descarta linhas repetidas do mesmo pedido', () => {
+    const existing = [makeRecord({ id: 'ROW-0', orderId: '500', productCode: 'P001' })];
+    const incoming = [makeRecord({ id: 'ROW-0', orderId: '500', productCode: 'P001' }), makeRecord({ id: 'ROW-1', orderId: '500', productCode: 'P002' })];
+    const merge = mergeDatasets(existing, incoming, {}, 'b1');
+    expect(merge.duplicatesSkipped).toBe(1);
+    expect(merge.records.map(r => r.productCode)).toEqual(['P001', 'P002']);
+  });
+
+  it('não trata como duplicadas linhas sem pedido que só coincidem no id gerado', () => {
+    const existing = [makeRecord({ id: 'ROW-0', orderId: 'UNK-0', cnpj: '11.111.111/0001-11', amount: 100 })];
+    const incoming = [makeRecord({ id: 'ROW-0', orderId: 'UNK-0', cnpj: '22.222.222/0001-22', amount: 250 })];
+    const merge = mergeDatasets(existing, incoming, {}, 'b2');
+    expect(merge.duplicatesSkipped).toBe(0);
+    expect(merge.records).toHaveLength(2);
+  });
+
+  it('linha sem pedido com o mesmo conteúdo em outro arquivo é duplicada', () => {
+    const existing = [makeRecord({ id: 'ROW-4', orderId: 'UNK-4', amount: 100 })];
+    const incoming = [makeRecord({ id: 'ROW-0', orderId: 'UNK-0', amount: 100 })];
+    expect(mergeDatasets(existing, incoming, {}, 'b3').duplicatesSkipped).toBe(1);
+  });
+
+  it('substitui o mês inteiro quando pedido', () => {
+    const existing = [makeRecord({ date: '2025-03-01', orderId: '1' }), makeRecord({ date: '2025-02-01', orderId: '2' })];
+    const incoming = [makeRecord({ date: '2025-03-15', orderId: '3' })];
+    const merge = mergeDatasets(existing, incoming, { '2025-03': 'replace' }, 'b4');
+    expect(merge.removed).toBe(1);
+    expect(merge.records.map(r => r.orderId)).toEqual(['2', '3']);
+  });
+});
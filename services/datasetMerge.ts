@@ -0,0 +1,72 @@
+import { SaleRecord, MonthOverlap, MergeResult, MonthConflictResolution } from '../types';
+import { toMonthKey } from './periodService';
+import { hasOrderId } from './dataService';
+
+// --- MERGE & DEDUPLICATION ---
+// Cada export do ERP traz um mês; o append junta os arquivos numa base única.
+
+// Campos que identificam uma linha sem número de pedido
+const CONTENT_KEY_FIELDS: (keyof SaleRecord)[] = [
+  'date', 'operClass', 'cnpj', 'productCode', 'amount', 'quantity', 'channel', 'region', 'division', 'sector',
+  'salesRep', 'supplier', 'paymentTerms', 'networkName', 'city', 'state'
+];
+
+// Chave composta de uma linha de nota: mesmo pedido, produto, data e classe = mesma linha.
+// Sem número de pedido o id gerado (`UNK-<linha>`) se repete entre arquivos: vale o conteúdo inteiro da linha
+export const getRecordKey = (r: SaleRecord): string => hasOrderId(r)
+  ? [r.orderId, r.productCode, r.date, r.operClass].join('|')
+  : ['*', ...CONTENT_KEY_FIELDS.map(field => r[field] ?? '')].join('|');
+
+const countByMonth = (records: SaleRecord[]): Record<string, number> => {
+  const counts: Record<string, number> = {};
+  records.forEach(r => {
+    const month = toMonthKey(r.date);
+    counts[month] = (counts[month] || 0) + 1;
+  });
+  return counts;
+};
+
+export const detectMonthOverlaps = (existing: SaleRecord[], incoming: SaleRecord[]): MonthOverlap[] => {
+  const existingCounts = countByMonth(existing);
+  const incomingCounts = countByMonth(incoming);
+  return Object.keys(incomingCounts)
+    .filter(month => existingCounts[month])
+    .sort()
+    .map(month => ({ month, existingCount: existingCounts[month], incomingCount: incomingCounts[month] }));
+};
+
+// Meses sem resolução explícita são tratados como "keepBoth" (append com deduplicação)
+export const mergeDatasets = (
+  existing: SaleRecord[],
+  incoming: SaleRecord[],
+  resolutions: Record<string, MonthConflictResolution>,
+  batchId: string
+): MergeResult => {
+  const replacedMonths = Object.keys(resolutions).filter(m => resolutions[m] === 'replace').sort();
+  const replaced = new Set(replacedMonths);
+
+  const kept = existing.filter(r => !replaced.has(toMonthKey(r.date)));
+  const existingKeys = new Set(kept.map(getRecordKey));
+
+  let duplicatesSkipped = 0;
+  const added: SaleRecord[] = [];
+  incoming.forEach(r => {
+    // Duplicidade só é verificada contra a base anterior: linhas repetidas dentro do mesmo arquivo são legítimas
+    if (existingKeys.has(getRecordKey(r))) {
+      duplicatesSkipped++;
+      return;
+    }
+    // Prefixo garante ids únicos entre arquivos (todos começam em ROW-0)
+    added.push({ ...r, id: `${batchId}-${r.id}` });
+  });
+
+  const records = [...kept, ...added].sort((a, b) => a.date.localeCompare(b.date));
+
+  return {
+    records,
+    added: added.length,
+    duplicatesSkipped,
+    removed: existing.length - kept.length,
+    replacedMonths
+  };
+};
@@ -0,0 +1,94 @@
+import { SaleRecord, EntityRef, EntityType, EntityDetail, OrderSummary, TopItem, ReferencePeriod, KpiRules } from '../types';
+import { calculateKPIs, calculateBaselineKPIs, getMonthlyEvolution } from './dataService';
+import { toMonthKey } from './periodService';
+
+// --- ENTITY DETAIL ---
+// Drill-down de uma linha das tabelas: todos os registros da entidade dentro dos filtros atuais.
+
+export const ENTITY_KEYS: Record<EntityType, (r: SaleRecord) => string> = {
+  client: r => r.cnpj,
+  product: r => r.productCode,
+  supplier: r => r.supplier,
+  network: r => r.networkName,
+  rep: r => r.salesRep
+};
+
+export const ENTITY_LABELS: Record<EntityType, string> = {
+  client: 'Cliente',
+  product: 'Produto',
+  supplier: 'Fornecedor',
+  network: 'Rede',
+  rep: 'Representante'
+};
+
+const TOP_ITEMS_LIMIT = 15;
+
+export const getEntityName = (data: SaleRecord[], ref: EntityRef): string => {
+  const sample = data.find(r => ENTITY_KEYS[ref.type](r) === ref.id);
+  if (!sample) return ref.id;
+  if (ref.type === 'client') return sample.companyName || ref.id;
+  if (ref.type === 'product') return sample.productDesc || ref.id;
+  return ref.id;
+};
+
+export const getEntityRecords = (data: SaleRecord[], ref: EntityRef): SaleRecord[] =>
+  data.filter(r => ENTITY_KEYS[ref.type](r) === ref.id);
+
+const describeEntity = (ref: EntityRef, records: SaleRecord[]): { name: string, subtitle: string } => {
+  const sample = records[0];
+  if (!sample) return { name: ref.id, subtitle: ENTITY_LABELS[ref.type] };
+  switch (ref.type) {
+    case 'client': return { name: sample.companyName || ref.id, subtitle: `CNPJ ${ref.id} · ${sample.networkName || 'Sem rede'} · ${[sample.city, sample.state].filter(Boolean).join('/') || sample.region}` };
+    case 'product': return { name: sample.productDesc || ref.id, subtitle: `Código ${ref.id} · ${sample.supplier}` };
+    case 'supplier': return { name: ref.id, subtitle: `Fornecedor · ${new Set(records.map(r => r.productCode)).size} SKUs` };
+    case 'network': return { name: ref.id, subtitle: `Rede · ${new Set(records.map(r => r.cnpj)).size} lojas` };
+    case 'rep': return { name: ref.id, subtitle: `Representante · ${Array.from(new Set(records.map(r => r.sector))).filter(Boolean).join(', ') || sample.region}` };
+  }
+};
+
+// Ranking por faturamento líquido; subValue = clientes (para produtos) ou quantidade (para clientes)
+const getTopItems = (records: SaleRecord[], type: EntityType): TopItem[] => {
+  const groups: Record<string, { name: string, value: number, sub: Set<string>, quantity: number }> = {};
+  records.forEach(r => {
+    const id = ENTITY_KEYS[type](r);
+    if (!groups[id]) groups[id] = { name: type === 'product' ? r.productDesc : r.companyName, value: 0, sub: new Set(), quantity: 0 };
+    groups[id].value += r.amount;
+    groups[id].quantity += r.operClass === 'DV' ? -r.quantity : r.quantity;
+    groups[id].sub.add(r.cnpj);
+  });
+  return Object.entries(groups)
+    .map(([id, g]) => ({ id, name: g.name || id, value: g.value, subValue: type === 'product' ? g.sub.size : g.quantity }))
+    .sort((a, b) => b.value - a.value)
+    .slice(0, TOP_ITEMS_LIMIT);
+};
+
+export const getOrderSummaries = (records: SaleRecord[]): OrderSummary[] => {
+  const orders: Record<string, OrderSummary> = {};
+  records.forEach(r => {
+    const key = `${r.orderId}|${r.operClass}`;
+    if (!orders[key]) {
+      orders[key] = { orderId: r.orderId, date: r.date, operClass: r.operClass, cnpj: r.cnpj, companyName: r.companyName, salesRep: r.salesRep, paymentTerms: r.paymentTerms, amount: 0, itemCount: 0 };
+    }
+    orders[key].amount += r.amount;
+    orders[key].itemCount += 1;
+    if (r.date > orders[key].date) orders[key].date = r.date;
+  });
+  return Object.values(orders).sort((a, b) => b.date.localeCompare(a.date) || b.orderId.localeCompare(a.orderId));
+};
+
+export const getEntityDetail = (data: SaleRecord[], ref: EntityRef, period: ReferencePeriod, rules: KpiRules): EntityDetail => {
+  const records = getEntityRecords(data, ref);
+  const topItemsType: EntityType = ref.type === 'product' ? 'client' : 'product';
+  const orders = getOrderSummaries(records);
+  return {
+    ref,
+    ...describeEntity(ref, records),
+    currentKPIs: calculateKPIs(records.filter(r => toMonthKey(r.date) === period.currentMonth), rules),
+    baselineKPIs: calculateBaselineKPIs(records, period.baseline, rules),
+    monthly: getMonthlyEvolution(records, rules),
+    topItemsType,
+    topItems: getTopItems(records, topItemsType),
+    orders: orders.filter(o => o.operClass === 'VD'),
+    returns: orders.filter(o => o.operClass === 'DV')
+  };
+};
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { KPIStats } from '../types';
+import { getMonthForecast } from './forecastService';
+import { buildReferencePeriod } from './periodService';
+import { DEFAULT_CALENDAR_SETTINGS } from './calendarService';
+import { DEFAULT_KPI_RULES } from './metricService';
+import { makeRecord } from './__fixtures__/records';
+
+// Setembro/2025 tem 22 dias úteis; até 10/09 são 8
+const PERIOD = buildReferencePeriod('2025-09');
+const BASELINE: KPIStats = { totalRevenue: 900, positivacao: 3, totalOrders: 3, averageTicket: 300, skuPerPdv: 1, avgInstallments: 1, avgTerm: 30 };
+
+const sale = (date: string, amount: number, cnpj: string, orderId: string) => makeRecord({ date, amount, cnpj, orderId });
+
+const CURRENT = [
+  sale('2025-09-02', 100, 'A', '1'),
+  sale('2025-09-09', 300, 'B', '2')
+];
+
+// 8º dia útil: 12/08 e 10/07. Agosto tinha 1/4 do faturamento e metade dos pedidos até lá; julho, metade de tudo
+const HISTORY = [
+  sale('2025-08-05', 100, 'A', '11'),
+  sale('2025-08-20', 300, 'B', '12'),
+  sale('2025-07-03', 200, 'A', '21'),
+  sale('2025-07-25', 200, 'B', '22')
+];
+
+const forecast = (data = CURRENT, asOfDate = '2025-09-10') =>
+  getMonthForecast(data, PERIOD, asOfDate, BASELINE, DEFAULT_CALENDAR_SETTINGS, DEFAULT_KPI_RULES);
+
+describe('getMonthForecast', () => {
+  it('repete o realizado quando o mês já fechou', () => {
+    const result = forecast([...CURRENT, ...HISTORY], '2025-09-30');
+
+    expect(result).toMatchObject({ month: '2025-09', elapsedDays: 22, totalDays: 22, curveMonths: 0 });
+    expect(result.metrics.totalRevenue).toEqual({ actual: 400, projected: 400, low: 400, high: 400, baseline: 900, method: 'closed' });
+  });
+
+  it('trata o mês sem data de corte como fechado', () => {
+    expect(forecast(CURRENT, '').metrics.totalOrders.method).toBe('closed');
+  });
+
+  it('projeta pelo ritmo por dia útil sem histórico suficiente', () => {
+    const result = forecast([...CURRENT, ...HISTORY.slice(0, 2)]);
+
+    expect(result).toMatchObject({ elapsedDays: 8, totalDays: 22, curveMonths: 1 });
+    expect(result.metrics.totalRevenue).toEqual({ actual: 400, projected: 1100, low: 400, high: 1100, baseline: 900, method: 'runRate' });
+    expect(result.metrics.positivacao.projected).toBe(5.5);
+  });
+
+  it('ignora vendas posteriores à data de corte', () => {
+    const result = forecast([...CURRENT, sale('2025-09-15', 500, 'C', '3')]);
+
+    expect(result.metrics.totalRevenue.actual).toBe(400);
+  });
+
+  it('projeta pela curva dos meses anteriores, com a faixa pela dispersão entre eles', () => {
+    const result = forecast([...CURRENT, ...HISTORY]);
+    const revenue = result.metrics.totalRevenue;
+
+    expect(result.curveMonths).toBe(2);
+    expect(revenue.method).toBe('curve');
+    // 400 / 0,25 = 1600 e 400 / 0,5 = 800
+    expect(revenue.projected).toBe(1200);
+    expect(revenue.low).toBeCloseTo(1200 - 1.28 * Math.sqrt(2 * 400 ** 2), 6);
+    expect(revenue.high).toBeCloseTo(1200 + 1.28 * Math.sqrt(2 * 400 ** 2), 6);
+    expect(result.metrics.totalOrders).toEqual({ actual: 2, projected: 4, low: 4, high: 4, baseline: 3, method: 'curve' });
+  });
+});
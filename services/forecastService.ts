@@ -0,0 +1,79 @@
+import { SaleRecord, KPIStats, ReferencePeriod, ForecastMetric, MetricForecast, MonthForecast, CalendarSettings, KpiRules } from '../types';
+import { calculateKPIs } from './dataService';
+import { toMonthKey, shiftMonth } from './periodService';
+import { countBusinessDays, getMonthBounds, getNthBusinessDay } from './calendarService';
+
+// --- MONTH-END FORECAST ---
+// Projeta o fechamento do mês de referência a partir do realizado até a última venda.
+// Com histórico, usa a curva intra-mês: em cada mês anterior, quanto do total já estava feito
+// no mesmo dia útil; a dispersão entre os meses dá a faixa de confiança. Sem histórico, ritmo por dia útil.
+
+export const FORECAST_METRICS: ForecastMetric[] = ['totalRevenue', 'totalOrders', 'positivacao'];
+
+const CURVE_MONTHS = 6;
+const MIN_CURVE_MONTHS = 2;
+const CONFIDENCE_Z = 1.28; // ~80%
+
+const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+const stdDev = (values: number[]) => {
+  const avg = mean(values);
+  return Math.sqrt(values.reduce((acc, v) => acc + (v - avg) ** 2, 0) / Math.max(values.length - 1, 1));
+};
+
+const closedForecast = (kpis: KPIStats, baseline: KPIStats): Record<ForecastMetric, MetricForecast> =>
+  Object.fromEntries(FORECAST_METRICS.map(metric => [metric, {
+    actual: kpis[metric], projected: kpis[metric], low: kpis[metric], high: kpis[metric], baseline: baseline[metric], method: 'closed'
+  }])) as Record<ForecastMetric, MetricForecast>;
+
+// `data` = registros filtrados (meses anteriores incluídos); `asOfDate` vem da base inteira,
+// para o recorte não parecer "atrasado" só porque um rep ainda não vendeu no dia
+export const getMonthForecast = (data: SaleRecord[], period: ReferencePeriod, asOfDate: string, baselineKPIs: KPIStats, calendar: CalendarSettings, rules: KpiRules): MonthForecast => {
+  const month = period.currentMonth;
+  const { start, end } = getMonthBounds(month);
+  const currentRecords = data.filter(r => toMonthKey(r.date) === month && r.date <= asOfDate);
+  const actual = calculateKPIs(currentRecords, rules);
+  const totalDays = countBusinessDays(start, end, calendar);
+  const elapsedDays = asOfDate ? Math.min(countBusinessDays(start, asOfDate, calendar), totalDays) : 0;
+
+  const base = { month, asOfDate, elapsedDays, totalDays, curveMonths: 0 };
+  if (!asOfDate || asOfDate >= end || elapsedDays >= totalDays) {
+    return { ...base, metrics: closedForecast(actual, baselineKPIs) };
+  }
+
+  // Fração do mês histórico já realizada no mesmo dia útil, por indicador
+  const shares: Record<ForecastMetric, number[]> = { totalRevenue: [], totalOrders: [], positivacao: [] };
+  for (let i = 1; i <= CURVE_MONTHS; i++) {
+    const pastMonth = shiftMonth(month, -i);
+    const monthRecords = data.filter(r => toMonthKey(r.date) === pastMonth);
+    if (monthRecords.length === 0) continue;
+    const cutoff = getNthBusinessDay(pastMonth, Math.max(elapsedDays, 1), calendar);
+    const full = calculateKPIs(monthRecords, rules);
+    const partial = calculateKPIs(monthRecords.filter(r => r.date <= cutoff), rules);
+    FORECAST_METRICS.forEach(metric => {
+      if (full[metric] > 0 && partial[metric] > 0) shares[metric].push(partial[metric] / full[metric]);
+    });
+  }
+
+  const runRate = (value: number) => elapsedDays > 0 ? (value / elapsedDays) * totalDays : value;
+  const metrics = Object.fromEntries(FORECAST_METRICS.map(metric => {
+    const value = actual[metric];
+    const metricShares = shares[metric];
+    if (metricShares.length < MIN_CURVE_MONTHS || value <= 0) {
+      const projected = Math.max(runRate(value), value);
+      return [metric, { actual: value, projected, low: value, high: projected, baseline: baselineKPIs[metric], method: 'runRate' }];
+    }
+    const projections = metricShares.map(share => value / share);
+    const projected = mean(projections);
+    const spread = CONFIDENCE_Z * stdDev(projections);
+    return [metric, {
+      actual: value,
+      projected,
+      low: Math.max(value, projected - spread),
+      high: projected + spread,
+      baseline: baselineKPIs[metric],
+      method: 'curve'
+    }];
+  })) as Record<ForecastMetric, MetricForecast>;
+
+  return { ...base, curveMonths: Math.min(...FORECAST_METRICS.map(m => shares[m].length)), metrics };
+};
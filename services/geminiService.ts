@@ -1,15 +1,34 @@
 import { GoogleGenAI } from "@google/genai";
-import { KPIStats, FilterState, TopItem, EntityStats } from "../types";
+import { KPIStats, FilterState, TopItem, EntityStats, ReferencePeriod, AssociationRule } from "../types";
+import { MONTH_NAMES_LONG } from "./periodService";
 
 const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
 
+// Contexto sazonal (Brasil) por mês do ano, usado para orientar as sugestões de mix
+const SEASONAL_CONTEXT: string[] = [
+  'Verão, férias escolares e volta às aulas (Protetores, Pós-sol, Hidratação, Repelentes).',
+  'Auge do verão e Carnaval (Protetores, Hidratação, Ressaca, Preservativos).',
+  'Fim do verão e volta à rotina (Vitaminas, Imunidade, Dermocosméticos).',
+  'Outono, início das viroses (Antigripais, Vitamina C, Imunidade).',
+  'Outono e Dia das Mães (Dermocosméticos, Antialérgicos, Antigripais).',
+  'Início do inverno e festas juninas (Antigripais, Xaropes, Hidratantes labiais).',
+  'Inverno e férias escolares (Antigripais, Xaropes, Vitaminas, Pele seca).',
+  'Inverno seco, Dia dos Pais (Hidratantes, Soro fisiológico, Antialérgicos).',
+  'Início da primavera (Antialérgicos, Colírios, Dermocosméticos).',
+  'Primavera, calor começando (Protetores, Repelentes, Vitaminas).',
+  'Pré-Verão, Black Friday (Dor muscular, Protetores, Digestivos, Projeto Verão).',
+  'Festas de fim de ano e férias (Digestivos, Hepatoprotetores, Ressaca, Protetores).'
+];
+
 export const generateStrategicInsights = async (
   currentKpis: KPIStats,
   avgKpis: KPIStats,
   filters: FilterState,
+  period: ReferencePeriod,
   topClients: TopItem[],
   topProducts: TopItem[],
-  topReps: TopItem[]
+  topReps: TopItem[],
+  basketRules: AssociationRule[] = []
 ): Promise<string> => {
   
   // Helper para formatar moeda e percentual
@@ -25,20 +44,19 @@ export const generateStrategicInsights = async (
   const skuDiff = diff(currentKpis.skuPerPdv, avgKpis.skuPerPdv);
   const termDiff = diff(currentKpis.avgTerm, avgKpis.avgTerm);
 
+  const [year, month] = period.currentMonth.split('-').map(Number);
+  const monthName = (MONTH_NAMES_LONG[month - 1] || period.currentMonth).toUpperCase();
+  const baselineLabel = period.baseline.label.toUpperCase();
+  const seasonality = SEASONAL_CONTEXT[month - 1] || '';
+
   // Construct a prompt context
   const context = `
     ATUE COMO: Consultor de Inteligência Comercial (O "Segundo Cérebro" do Gerente de Vendas).
-    OBJETIVO: Analisar racionalmente os dados de NOVEMBRO vs MÉDIA (Ago-Out) para encontrar correlações e oportunidades de mix.
+    OBJETIVO: Analisar racionalmente os dados de ${monthName}/${year} vs BASE DE COMPARAÇÃO "${baselineLabel}" para encontrar correlações e oportunidades de mix.
     TOM DE VOZ: Analítico, Racional, Colaborativo e Estratégico. Baseado em dados.
-    SAZONALIDADE ATUAL: Novembro/Brasil (Pré-Verão, Esquenta Black Friday, Preparação Final de Ano).
-    
-    CONTEXTO DE SAZONALIDADE (Novembro/Verão):
-    - Aumento de atividade física (Dor muscular, contusões).
-    - Cuidados com a pele/Sol (Protetores, Pós-sol, Hidratantes).
-    - Festas/Confraternizações (Digestivos, Hepatoprotetores, Ressaca).
-    - Estética e Vitaminas (Projeto Verão).
+    SAZONALIDADE ATUAL: ${monthName}/Brasil - ${seasonality}
 
-    DADOS COMPARATIVOS (NOVEMBRO vs MÉDIA):
+    DADOS COMPARATIVOS (${monthName} vs ${baselineLabel}):
 
     1. FATURAMENTO:
        - Atual: R$ ${fmt(currentKpis.totalRevenue)} (Var: ${revDiff > 0 ? '+' : ''}${revDiff.toFixed(1)}%)
@@ -58,6 +76,9 @@ export const generateStrategicInsights = async (
     TOP REPRESENTANTES (Para análise de perfil):
     ${topReps.slice(0, 3).map(r => `- ${r.name}: R$ ${fmt(r.value)}`).join('\n')}
 
+    ASSOCIAÇÕES DE COMPRA REAIS (itens levados no mesmo pedido; confiança = % dos pedidos com X que também têm Y; lift > 1 = acima do acaso):
+    ${basketRules.length > 0 ? basketRules.slice(0, 8).map(r => `- ${r.antecedentDesc} -> ${r.consequentDesc} (confiança ${r.confidence.toFixed(0)}%, lift ${r.lift.toFixed(1)})`).join('\n') : '- Sem associações relevantes no período.'}
+
     FILTROS APLICADOS:
     - Região: ${filters.region.join(', ') || 'Nacional'}
     - Canal: ${filters.channel.join(', ') || 'Geral'}
@@ -71,16 +92,16 @@ export const generateStrategicInsights = async (
     Exemplo de Racional: "Notamos uma queda na Positivação (-X%), porém um aumento no SKU x PDV. Isso indica que a equipe está focando em fidelizar e vender mais mix para os mesmos clientes (Perfil Consultor), ao invés de abrir novos pontos (Perfil Tirador de Pedido).")
     *Cruze os dados acima para validar essa hipótese.*
 
-    ### 🌞 OPORTUNIDADES DE MIX (SAZONALIDADE NOVEMBRO)
-    (Olhe para os "Top Produtos" listados acima. Baseado neles e na época do ano (Verão/Festas), o que está faltando?
-    Ex: "O produto X está vendendo bem. Para aumentar o ticket, sugiro ofertar Y e Z que são complementares para a categoria [Dor/Pele/Gastro/Vitamina].")
+    ### 🌞 OPORTUNIDADES DE MIX (SAZONALIDADE ${monthName})
+    (Olhe para os "Top Produtos" e para as "Associações de Compra Reais" listados acima. Priorize pares com associação comprovada nos dados em vez de complementos genéricos, e use a época do ano para escolher quais ativar.
+    Ex: "Quem compra X leva Y em 45% dos pedidos (lift 3,2). Clientes que compram X sem Y são a lista de ataque imediata.")
 
     ### 🔍 HIPÓTESES ESTRATÉGICAS
     (Levante perguntas para o gerente refletir, não ordens.
     Ex: "Considerando que o Rep X tem alto Mix mas baixa cobertura, faria sentido replicar a abordagem técnica dele para a equipe, ou precisamos de uma campanha de reativação de inativos?")
 
     ### 🚀 SUGESTÕES TÁTICAS
-    (2 ou 3 ações pontuais de mix ou foco comercial baseadas nos dados. Ex: "Campanha de 'Kit Verão' focando nos itens X e Y para recuperar a positivação.")
+    (2 ou 3 ações pontuais de mix ou foco comercial baseadas nos dados. Ex: "Campanha de kit sazonal focando nos itens X e Y para recuperar a positivação.")
 
     Mantenha o texto analítico e focado em gerar valor intelectual para a tomada de decisão.
   `;
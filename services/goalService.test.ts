@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { SalesGoal } from '../types';
+import { getGoalForFilters } from './goalService';
+import { createEmptyFilters } from './urlState';
+import { makeRecord } from './__fixtures__/records';
+
+const MONTH = '2025-03';
+
+const goal = (scope: SalesGoal['scope'], target: string, value: number): SalesGoal => ({ month: MONTH, scope, target, metric: 'totalRevenue', value });
+
+const data = [
+  makeRecord({ region: 'Sul', sector: 'Mercearia', salesRep: 'Ana' }),
+  makeRecord({ region: 'Sul', sector: 'Bebidas', salesRep: 'Bruno' })
+];
+
+describe('getGoalForFilters', () => {
+  it('usa as metas do escopo do filtro mais específico', () => {
+    const goals = [goal('region', 'Sul', 1000), goal('sector', 'Mercearia', 400), goal('sector', 'Bebidas', 600)];
+    const filters = { ...createEmptyFilters(), sector: ['Mercearia'] };
+    expect(getGoalForFilters(goals, MONTH, 'totalRevenue', filters, data.slice(0, 1))).toBe(400);
+  });
+
+  it('soma metas de escopos mais específicos quando o do filtro não tem meta', () => {
+    const goals = [goal('rep', 'Ana', 300), goal('rep', 'Bruno', 500)];
+    expect(getGoalForFilters(goals, MONTH, 'totalRevenue', createEmptyFilters(), data)).toBe(800);
+  });
+
+  it('não mede um setor ou rep contra a meta da região inteira', () => {
+    const goals = [goal('region', 'Sul', 1000)];
+    expect(getGoalForFilters(goals, MONTH, 'totalRevenue', { ...createEmptyFilters(), sector: ['Mercearia'] }, data.slice(0, 1))).toBeUndefined();
+    expect(getGoalForFilters(goals, MONTH, 'totalRevenue', { ...createEmptyFilters(), salesRep: ['Ana'] }, data.slice(0, 1))).toBeUndefined();
+  });
+
+  it('ignora metas de outro mês ou indicador', () => {
+    const goals = [{ ...goal('region', 'Sul', 1000), month: '2025-02' }, { ...goal('region', 'Sul', 50), metric: 'positivacao' as const }];
+    expect(getGoalForFilters(goals, MONTH, 'totalRevenue', createEmptyFilters(), data)).toBeUndefined();
+  });
+});
@@ -0,0 +1,180 @@
+import Papa from 'papaparse';
+import { SaleRecord, FilterState, SalesGoal, GoalScope, GoalMetric, GoalAttainment, CalendarSettings } from '../types';
+import { isMonthKey } from './periodService';
+import { parseAmount } from './dataService';
+import { normalizeHeader } from './columnMapping';
+import { addDays, countBusinessDays, getMonthBounds } from './calendarService';
+import { buildCSV } from './csvExport';
+
+// --- SALES GOALS (METAS) ---
+
+const GOALS_STORAGE_KEY = 'painel.salesGoals';
+
+export const GOAL_SCOPE_LABELS: Record<GoalScope, string> = { rep: 'Representante', sector: 'Setor', region: 'Região' };
+export const GOAL_METRIC_LABELS: Record<GoalMetric, string> = { totalRevenue: 'Faturamento', positivacao: 'Positivação', skuPerPdv: 'SKU x PDV' };
+
+// Campo do SaleRecord de cada escopo
+export const GOAL_SCOPE_FIELDS: Record<GoalScope, 'salesRep' | 'sector' | 'region'> = { rep: 'salesRep', sector: 'sector', region: 'region' };
+
+// Cabeçalhos aceitos na importação (sem acento/caixa)
+const CSV_COLUMNS: Record<keyof SalesGoal, string[]> = {
+  month: ['mes', 'month'],
+  scope: ['escopo', 'scope', 'nivel'],
+  target: ['alvo', 'nome', 'target'],
+  metric: ['indicador', 'metrica', 'metric'],
+  value: ['meta', 'valor', 'value']
+};
+
+const SCOPE_ALIASES: Record<string, GoalScope> = { rep: 'rep', representante: 'rep', vendedor: 'rep', setor: 'sector', sector: 'sector', regiao: 'region', region: 'region' };
+const METRIC_ALIASES: Record<string, GoalMetric> = {
+  faturamento: 'totalRevenue', totalrevenue: 'totalRevenue', receita: 'totalRevenue',
+  positivacao: 'positivacao', clientes: 'positivacao',
+  skuxpdv: 'skuPerPdv', skupdv: 'skuPerPdv', skuperpdv: 'skuPerPdv', mix: 'skuPerPdv'
+};
+
+const normalize = (value: string): string => normalizeHeader(value).replace(/[^a-z0-9]/g, '');
+
+// Como parseAmount, mas "150.000" é milhar (metas costumam ser digitadas assim), não 150
+export const parseGoalValue = (val: string): number => {
+  const clean = (val || '').replace(/R\$/gi, '').trim();
+  if (/^\d{1,3}(\.\d{3})+$/.test(clean)) return parseFloat(clean.replace(/\./g, ''));
+  return parseAmount(clean);
+};
+
+const goalKey = (g: Pick<SalesGoal, 'month' | 'scope' | 'target' | 'metric'>) => `${g.month}|${g.scope}|${g.target}|${g.metric}`;
+
+const sanitizeGoal = (raw: any): SalesGoal | null => {
+  if (!raw || !isMonthKey(String(raw.month)) || !Object.hasOwn(GOAL_SCOPE_LABELS, raw.scope) || !Object.hasOwn(GOAL_METRIC_LABELS, raw.metric)) return null;
+  const target = String(raw.target || '').trim();
+  const value = Number(raw.value);
+  if (!target || !Number.isFinite(value) || value < 0) return null;
+  return { month: raw.month, scope: raw.scope, target, metric: raw.metric, value };
+};
+
+export const loadSalesGoals = (): SalesGoal[] => {
+  try {
+    const raw = localStorage.getItem(GOALS_STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed.map(sanitizeGoal).filter((g): g is SalesGoal => !!g) : [];
+  } catch (e) {
+    console.warn('Metas salvas inválidas, ignorando.', e);
+    return [];
+  }
+};
+
+const storeSalesGoals = (goals: SalesGoal[]) => {
+  localStorage.setItem(GOALS_STORAGE_KEY, JSON.stringify(goals));
+};
+
+// Mesma combinação mês + escopo + alvo + indicador substitui a meta anterior
+const mergeGoals = (current: SalesGoal[], incoming: SalesGoal[]): SalesGoal[] => {
+  const keys = new Set(incoming.map(goalKey));
+  return [...current.filter(g => !keys.has(goalKey(g))), ...incoming]
+    .sort((a, b) => a.month.localeCompare(b.month) || a.scope.localeCompare(b.scope) || a.target.localeCompare(b.target) || a.metric.localeCompare(b.metric));
+};
+
+export const saveSalesGoal = (goal: SalesGoal): SalesGoal[] => {
+  const valid = sanitizeGoal(goal);
+  const current = loadSalesGoals();
+  if (!valid) return current;
+  const updated = mergeGoals(current, [valid]);
+  storeSalesGoals(updated);
+  return updated;
+};
+
+export const deleteSalesGoal = (goal: SalesGoal): SalesGoal[] => {
+  const updated = loadSalesGoals().filter(g => goalKey(g) !== goalKey(goal));
+  storeSalesGoals(updated);
+  return updated;
+};
+
+// --- IMPORT / EXPORT (CSV: mes,escopo,alvo,indicador,meta) ---
+
+export const exportSalesGoalsCSV = (goals: SalesGoal[]): string => {
+  const lines = goals.map(g => [g.month, g.scope, g.target, g.metric, g.value.toLocaleString('pt-BR', { maximumFractionDigits: 2, useGrouping: false })]);
+  return buildCSV([['mes', 'escopo', 'alvo', 'indicador', 'meta'], ...lines]);
+};
+
+export const importSalesGoalsCSV = (csvText: string): { goals: SalesGoal[], imported: number, skipped: number } => {
+  const parsed = Papa.parse<Record<string, string>>(csvText.trim(), { header: true, skipEmptyLines: true });
+  const headers = parsed.meta.fields || [];
+  const columnOf = (field: keyof SalesGoal) => headers.find(h => CSV_COLUMNS[field].includes(normalize(h)));
+  const columns = Object.fromEntries((Object.keys(CSV_COLUMNS) as (keyof SalesGoal)[]).map(f => [f, columnOf(f)])) as Record<keyof SalesGoal, string | undefined>;
+  const missing = (Object.keys(columns) as (keyof SalesGoal)[]).filter(f => !columns[f]);
+  if (missing.length > 0) throw new Error(`Colunas obrigatórias ausentes: ${missing.map(f => CSV_COLUMNS[f][0]).join(', ')}`);
+
+  let skipped = 0;
+  const incoming: SalesGoal[] = [];
+  parsed.data.forEach(row => {
+    const rawMonth = (row[columns.month!] || '').trim();
+    // Aceita YYYY-MM e MM/YYYY
+    const month = /^\d{2}\/\d{4}$/.test(rawMonth) ? `${rawMonth.slice(3)}-${rawMonth.slice(0, 2)}` : rawMonth;
+    const goal = sanitizeGoal({
+      month,
+      scope: SCOPE_ALIASES[normalize(row[columns.scope!] || '')],
+      target: row[columns.target!],
+      metric: METRIC_ALIASES[normalize(row[columns.metric!] || '')],
+      value: parseGoalValue(row[columns.value!] || '')
+    });
+    if (goal) incoming.push(goal);
+    else skipped++;
+  });
+  if (incoming.length === 0) throw new Error('Nenhuma meta válida encontrada no arquivo');
+
+  const updated = mergeGoals(loadSalesGoals(), incoming);
+  storeSalesGoals(updated);
+  return { goals: updated, imported: incoming.length, skipped };
+};
+
+// --- ATTAINMENT ---
+
+// Dias úteis restantes após a última data com venda no mês
+export const getRemainingBusinessDays = (data: SaleRecord[], month: string, calendar: CalendarSettings): number => {
+  const lastDate = data.reduce((max, r) => r.date.startsWith(month) && r.date > max ? r.date : max, '');
+  const { start, end } = getMonthBounds(month);
+  if (!lastDate) return countBusinessDays(start, end, calendar);
+  return lastDate >= end ? 0 : countBusinessDays(addDays(lastDate, 1), end, calendar);
+};
+
+export const getGoalAttainment = (target: number, actual: number, remainingDays: number): GoalAttainment => {
+  const gap = Math.max(0, target - actual);
+  return {
+    target,
+    actual,
+    attainment: target > 0 ? (actual / target) * 100 : 0,
+    gap,
+    remainingDays,
+    dailyRunRate: remainingDays > 0 ? gap / remainingDays : gap
+  };
+};
+
+// Faturamento e positivação somam entre alvos; SKU x PDV é a média das metas
+const aggregateGoals = (goals: SalesGoal[], metric: GoalMetric): number | undefined => {
+  if (goals.length === 0) return undefined;
+  const sum = goals.reduce((acc, g) => acc + g.value, 0);
+  return metric === 'skuPerPdv' ? sum / goals.length : sum;
+};
+
+// Meta por alvo de um escopo (ex: setor -> meta), para as linhas do pivot
+export const getGoalsByTarget = (goals: SalesGoal[], month: string, scope: GoalScope, metric: GoalMetric): Record<string, number> =>
+  Object.fromEntries(goals.filter(g => g.month === month && g.scope === scope && g.metric === metric).map(g => [g.target, g.value]));
+
+// Escopos do mais amplo ao mais específico
+const SCOPES_BY_BREADTH: GoalScope[] = ['region', 'sector', 'rep'];
+
+// Meta do recorte atual: o escopo segue o filtro mais específico (rep > setor > região), caindo só para escopos
+// mais específicos quando não há metas cadastradas nele (metas de setores ou reps somam a do recorte; a da
+// região inteira não serve para um setor). Soma as metas dos alvos presentes nos dados filtrados.
+export const getGoalForFilters = (goals: SalesGoal[], month: string, metric: GoalMetric, filters: FilterState, data: SaleRecord[]): number | undefined => {
+  const monthGoals = goals.filter(g => g.month === month && g.metric === metric);
+  if (monthGoals.length === 0) return undefined;
+
+  const preferred: GoalScope = filters.salesRep.length > 0 ? 'rep' : filters.sector.length > 0 ? 'sector' : 'region';
+  for (const scope of SCOPES_BY_BREADTH.slice(SCOPES_BY_BREADTH.indexOf(preferred))) {
+    const field = GOAL_SCOPE_FIELDS[scope];
+    const targets = new Set(data.map(r => r[field]).filter(Boolean));
+    const matched = monthGoals.filter(g => g.scope === scope && targets.has(g.target));
+    if (matched.length > 0) return aggregateGoals(matched, metric);
+  }
+  return undefined;
+};
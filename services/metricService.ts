@@ -0,0 +1,275 @@
+import { KPIStats, KpiRules, KpiDefinition, CustomMetric, MetricFormat, ReferencePeriod } from '../types';
+import { normalizeHeader } from './columnMapping';
+import { getPeriodMonths, formatMonthShort } from './periodService';
+import { buildCSV } from './csvExport';
+
+// --- METRIC REGISTRY ---
+// Definição de cada KPI, variantes de regra escolhidas nas configurações e métricas por fórmula.
+// As fórmulas são interpretadas por um parser próprio (só números, indicadores, + - * / e parênteses), nunca por eval.
+
+const RULES_STORAGE_KEY = 'painel.kpiRules';
+const CUSTOM_METRICS_STORAGE_KEY = 'painel.customMetrics';
+
+export const DEFAULT_KPI_RULES: KpiRules = { totalRevenue: 'net', positivacao: 'net', totalOrders: 'net', skuPerPdv: 'net' };
+
+export const KPI_DEFINITIONS: KpiDefinition[] = [
+  {
+    key: 'totalRevenue', label: 'Faturamento', format: 'currency',
+    description: 'Soma do valor das notas no período.',
+    variants: [
+      { id: 'net', label: 'Líquido', description: 'Vendas menos devoluções.' },
+      { id: 'gross', label: 'Bruto', description: 'Só vendas (VD); devoluções ignoradas.' }
+    ]
+  },
+  {
+    key: 'positivacao', label: 'Positivação', format: 'integer',
+    description: 'Clientes que compraram no período.',
+    variants: [
+      { id: 'net', label: 'Líquida', description: 'Clientes com saldo (vendas - devoluções) maior que zero.' },
+      { id: 'gross', label: 'Bruta', description: 'Clientes com ao menos uma venda, mesmo que tenham devolvido tudo.' }
+    ]
+  },
+  {
+    key: 'totalOrders', label: 'Pedidos', format: 'integer',
+    description: 'Pedidos distintos no período.',
+    variants: [
+      { id: 'net', label: 'Líquidos', description: 'Pedidos de venda menos pedidos de devolução.' },
+      { id: 'gross', label: 'Brutos', description: 'Só pedidos de venda.' }
+    ]
+  },
+  { key: 'averageTicket', label: 'Ticket Médio', format: 'currency', description: 'Faturamento / Pedidos, conforme as regras escolhidas para cada um.' },
+  {
+    key: 'skuPerPdv', label: 'SKU x PDV', format: 'number',
+    description: 'Mix médio de produtos.',
+    variants: [
+      { id: 'net', label: 'Líquido por cliente', description: 'SKUs distintos vendidos menos SKUs distintos devolvidos, por cliente positivado.' },
+      { id: 'gross', label: 'Bruto por cliente', description: 'SKUs distintos vendidos por cliente positivado, sem abater devoluções.' },
+      { id: 'perOrder', label: 'Por pedido', description: 'SKUs distintos por pedido de venda.' }
+    ]
+  },
+  { key: 'avgInstallments', label: 'Parcela Média', format: 'number', description: 'Quantidade de parcelas da condição de pagamento, ponderada pelo valor vendido.' },
+  { key: 'avgTerm', label: 'Prazo Médio', format: 'days', description: 'Média dos vencimentos em dias após a nota, ponderada pelo valor vendido.' }
+];
+
+export const METRIC_FORMAT_LABELS: Record<MetricFormat, string> = {
+  currency: 'Moeda (R$)',
+  number: 'Número',
+  integer: 'Inteiro',
+  percent: 'Percentual',
+  days: 'Dias'
+};
+
+export const formatMetricValue = (value: number, format: MetricFormat): string => {
+  switch (format) {
+    case 'currency': return `R$ ${value.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+    case 'integer': return Math.round(value).toLocaleString('pt-BR');
+    case 'percent': return `${value.toLocaleString('pt-BR', { maximumFractionDigits: 1 })}%`;
+    case 'days': return `${value.toLocaleString('pt-BR', { maximumFractionDigits: 0 })} dias`;
+    default: return value.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  }
+};
+
+// --- RULE VARIANTS ---
+
+const sanitizeRules = (raw: any): KpiRules => {
+  const rules = { ...DEFAULT_KPI_RULES };
+  KPI_DEFINITIONS.forEach(def => {
+    if (def.variants && def.variants.some(v => v.id === raw?.[def.key])) rules[def.key] = raw[def.key];
+  });
+  return rules;
+};
+
+export const loadKpiRules = (): KpiRules => {
+  try {
+    return sanitizeRules(JSON.parse(localStorage.getItem(RULES_STORAGE_KEY) || 'null'));
+  } catch {
+    return DEFAULT_KPI_RULES;
+  }
+};
+
+export const saveKpiRules = (rules: KpiRules): KpiRules => {
+  const sanitized = sanitizeRules(rules);
+  localStorage.setItem(RULES_STORAGE_KEY, JSON.stringify(sanitized));
+  return sanitized;
+};
+
+// --- FORMULAS ---
+
+// Nomes aceitos nas fórmulas (sem acento/caixa); as chaves do KPIStats também valem
+export const FORMULA_VARIABLES: Record<string, keyof KPIStats> = {
+  faturamento: 'totalRevenue',
+  positivacao: 'positivacao',
+  pedidos: 'totalOrders',
+  ticket: 'averageTicket',
+  sku_pdv: 'skuPerPdv',
+  parcelas: 'avgInstallments',
+  prazo: 'avgTerm'
+};
+
+type Token = { kind: 'number', value: number } | { kind: 'name', value: string } | { kind: 'op', value: string };
+type Evaluator = (kpis: KPIStats) => number;
+
+const tokenize = (formula: string): Token[] => {
+  const tokens: Token[] = [];
+  const pattern = /\s*(?:(\d+(?:[.,]\d+)?)|([\p{L}_][\p{L}\p{N}_]*)|([-+*/()]))/uy;
+  let index = 0;
+  while (index < formula.length) {
+    if (!formula.slice(index).trim()) break;
+    pattern.lastIndex = index;
+    const match = pattern.exec(formula);
+    if (!match) throw new Error(`Caractere inválido na posição ${index + 1}: "${formula.slice(index).trim()[0]}"`);
+    if (match[1]) tokens.push({ kind: 'number', value: parseFloat(match[1].replace(',', '.')) });
+    else if (match[2]) tokens.push({ kind: 'name', value: match[2] });
+    else tokens.push({ kind: 'op', value: match[3] });
+    index = pattern.lastIndex;
+  }
+  return tokens;
+};
+
+const resolveVariable = (name: string): keyof KPIStats => {
+  const normalized = normalizeHeader(name);
+  const key = FORMULA_VARIABLES[normalized] || KPI_DEFINITIONS.find(d => d.key.toLowerCase() === normalized)?.key;
+  if (!key) throw new Error(`Indicador desconhecido: "${name}"`);
+  return key;
+};
+
+// Gramática: expr = termo (('+'|'-') termo)* ; termo = fator (('*'|'/') fator)* ; fator = ('-'|'+') fator | número | indicador | '(' expr ')'
+const parseFormula = (formula: string): Evaluator => {
+  const tokens = tokenize(formula);
+  if (tokens.length === 0) throw new Error('Fórmula vazia');
+  let pos = 0;
+  const peekOp = () => tokens[pos]?.kind === 'op' ? tokens[pos].value : null;
+
+  const parseFactor = (): Evaluator => {
+    const token = tokens[pos++];
+    if (!token) throw new Error('Fórmula incompleta');
+    if (token.kind === 'number') return () => token.value;
+    if (token.kind === 'name') {
+      const key = resolveVariable(token.value);
+      return (kpis) => kpis[key] || 0;
+    }
+    if (token.value === '-') {
+      const inner = parseFactor();
+      return (kpis) => -inner(kpis);
+    }
+    if (token.value === '+') return parseFactor();
+    if (token.value === '(') {
+      const inner = parseExpression();
+      if (peekOp() !== ')') throw new Error('Parêntese não fechado');
+      pos++;
+      return inner;
+    }
+    throw new Error(`Operador inesperado: "${token.value}"`);
+  };
+
+  const parseTerm = (): Evaluator => {
+    let left = parseFactor();
+    while (peekOp() === '*' || peekOp() === '/') {
+      const op = tokens[pos++].value;
+      const l = left;
+      const right = parseFactor();
+      // Divisão por zero vira 0, como os KPIs base (ticket sem pedidos = 0)
+      left = op === '*' ? (kpis) => l(kpis) * right(kpis) : (kpis) => { const d = right(kpis); return d !== 0 ? l(kpis) / d : 0; };
+    }
+    return left;
+  };
+
+  const parseExpression = (): Evaluator => {
+    let left = parseTerm();
+    while (peekOp() === '+' || peekOp() === '-') {
+      const op = tokens[pos++].value;
+      const l = left;
+      const right = parseTerm();
+      left = op === '+' ? (kpis) => l(kpis) + right(kpis) : (kpis) => l(kpis) - right(kpis);
+    }
+    return left;
+  };
+
+  const evaluator = parseExpression();
+  if (pos < tokens.length) throw new Error(`Trecho inesperado: "${tokens[pos].value}"`);
+  return evaluator;
+};
+
+const compiledFormulas = new Map<string, Evaluator>();
+
+// Lança Error com a mensagem para o usuário quando a fórmula é inválida
+export const compileFormula = (formula: string): Evaluator => {
+  const cached = compiledFormulas.get(formula);
+  if (cached) return cached;
+  const evaluator = parseFormula(formula);
+  compiledFormulas.set(formula, evaluator);
+  return evaluator;
+};
+
+export const validateFormula = (formula: string): string | null => {
+  try {
+    compileFormula(formula);
+    return null;
+  } catch (e) {
+    return e instanceof Error ? e.message : String(e);
+  }
+};
+
+export const evaluateCustomMetric = (metric: CustomMetric, kpis: KPIStats): number => {
+  const value = compileFormula(metric.formula)(kpis);
+  return Number.isFinite(value) ? value : 0;
+};
+
+// --- CUSTOM METRICS ---
+
+const sanitizeCustomMetric = (raw: any): CustomMetric | null => {
+  const label = String(raw?.label || '').trim();
+  const formula = String(raw?.formula || '').trim();
+  if (!raw?.id || !label || validateFormula(formula)) return null;
+  return {
+    id: String(raw.id),
+    label,
+    formula,
+    format: Object.hasOwn(METRIC_FORMAT_LABELS, raw.format) ? raw.format : 'number',
+    showCard: raw.showCard !== false,
+    showPivot: !!raw.showPivot
+  };
+};
+
+export const loadCustomMetrics = (): CustomMetric[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(CUSTOM_METRICS_STORAGE_KEY) || '[]');
+    return Array.isArray(parsed) ? parsed.map(sanitizeCustomMetric).filter((m): m is CustomMetric => !!m) : [];
+  } catch (e) {
+    console.warn('Métricas personalizadas inválidas, ignorando.', e);
+    return [];
+  }
+};
+
+export const saveCustomMetrics = (metrics: CustomMetric[]): CustomMetric[] => {
+  const valid = metrics.map(sanitizeCustomMetric).filter((m): m is CustomMetric => !!m);
+  localStorage.setItem(CUSTOM_METRICS_STORAGE_KEY, JSON.stringify(valid));
+  return valid;
+};
+
+export const createMetricId = (): string => `metric-${Date.now().toString(36)}`;
+
+// --- EXPORT ---
+
+const csvNumber = (value: number) => value.toLocaleString('pt-BR', { maximumFractionDigits: 2 });
+
+interface PivotExportData {
+  rows: { sector: string, months: Record<string, KPIStats>, total: KPIStats }[];
+  monthTotals: Record<string, KPIStats>;
+  grandTotal: KPIStats;
+}
+
+// Matriz por setor em formato longo: uma linha por indicador x setor, KPIs base e métricas personalizadas
+export const buildSectorPivotCSV = (pivot: PivotExportData, period: ReferencePeriod, customMetrics: CustomMetric[]): string => {
+  const months = getPeriodMonths(period);
+  const metrics: { label: string, value: (kpis: KPIStats) => number }[] = [
+    ...KPI_DEFINITIONS.map(def => ({ label: def.label, value: (kpis: KPIStats) => kpis[def.key] })),
+    ...customMetrics.map(m => ({ label: m.label, value: (kpis: KPIStats) => evaluateCustomMetric(m, kpis) }))
+  ];
+  const headers = ['Indicador', 'Setor', ...months.map(formatMonthShort), period.baseline.shortLabel];
+  const lines = metrics.flatMap(metric => [
+    ...pivot.rows.map(row => [metric.label, row.sector, ...months.map(m => row.months[m] ? csvNumber(metric.value(row.months[m])) : ''), csvNumber(metric.value(row.total))]),
+    [metric.label, 'TOTAL', ...months.map(m => pivot.monthTotals[m] ? csvNumber(metric.value(pivot.monthTotals[m])) : ''), csvNumber(metric.value(pivot.grandTotal))]
+  ]);
+  return buildCSV([headers, ...lines]);
+};
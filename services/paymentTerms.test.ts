@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { ReferencePeriod } from '../types';
+import { getPaymentTermsBreakdown, getUnparsedPaymentTerms, parsePaymentTerms } from './paymentTerms';
+import { makeRecord } from './__fixtures__/records';
+
+const days = (raw: string, date = '') => parsePaymentTerms(raw, date).installments.map(i => i.days);
+
+describe('parsePaymentTerms', () => {
+  it('lê listas de prazos com separadores e qualificadores', () => {
+    expect(parsePaymentTerms('30/60/90')).toMatchObject({ kind: 'days', label: '30/60/90 dias', avgDays: 60 });
+    expect(days('30-60-90 DDF')).toEqual([30, 60, 90]);
+    expect(days('28 DDL')).toEqual([28]);
+    expect(days('Boleto 30/60')).toEqual([30, 60]);
+  });
+
+  it('reconhece pagamento à vista em suas grafias', () => {
+    for (const raw of ['À VISTA', 'a vista', 'AVISTA', 'Pix', 'Antecipado']) {
+      expect(parsePaymentTerms(raw)).toMatchObject({ kind: 'cash', label: 'À vista', avgDays: 0 });
+    }
+  });
+
+  it('trata entrada como parcela de 0 dias', () => {
+    expect(days('ENTRADA + 30/60')).toEqual([0, 30, 60]);
+  });
+
+  it('completa a quantidade de parcelas informada', () => {
+    expect(days('3X')).toEqual([30, 60, 90]);
+    expect(days('3 x 30')).toEqual([30, 60, 90]);
+    expect(days('4x 30/60')).toEqual([30, 60, 90, 120]);
+  });
+
+  it('conta prazos fora o mês a partir do fim do mês da nota', () => {
+    const schedule = parsePaymentTerms('30 DFM', '2025-03-10');
+    expect(schedule.label).toBe('30 dias fora o mês');
+    expect(schedule.installments).toEqual([{ days: 51, dueDate: '2025-04-30' }]);
+  });
+
+  it('calcula vencimentos a partir da data da nota', () => {
+    expect(parsePaymentTerms('30/60', '2025-01-31').installments).toEqual([
+      { days: 30, dueDate: '2025-03-02' },
+      { days: 60, dueDate: '2025-04-01' }
+    ]);
+    expect(parsePaymentTerms('30/60').installments.map(i => i.dueDate)).toEqual(['', '']);
+  });
+
+  it('agrupa vencimentos explícitos pela quantidade e prazo médio arredondado', () => {
+    const schedule = parsePaymentTerms('10/02/2025 - 12/03/2025', '2025-01-10');
+    expect(schedule.kind).toBe('dates');
+    expect(schedule.installments.map(i => i.days)).toEqual([31, 61]);
+    expect(schedule.label).toBe('2x por vencimento (~45 dias)');
+    expect(parsePaymentTerms('10/02/2025').label).toBe('1x por vencimento');
+  });
+
+  it('marca como não reconhecida a condição com texto desconhecido ou inválido', () => {
+    for (const raw of ['CONSIGNADO', '30/60 ou 90 conforme acordo', '31/02/2025', '2025']) {
+      expect(parsePaymentTerms(raw)).toMatchObject({ kind: 'unparsed', installments: [], avgDays: 0, label: raw });
+    }
+    expect(parsePaymentTerms('').label).toBe('Não informada');
+  });
+});
+
+describe('getUnparsedPaymentTerms', () => {
+  it('lista só as condições de vendas que o parser não entendeu', () => {
+    const data = [
+      makeRecord({ paymentTerms: 'CONSIGNADO' }),
+      makeRecord({ paymentTerms: '30/60' }),
+      makeRecord({ paymentTerms: 'TROCA', operClass: 'DV' }),
+      makeRecord({ paymentTerms: ' CONSIGNADO ' })
+    ];
+    expect(getUnparsedPaymentTerms(data)).toEqual(['CONSIGNADO']);
+  });
+});
+
+describe('getPaymentTermsBreakdown', () => {
+  it('soma o mês de referência e a média mensal da baseline por condição', () => {
+    const period = {
+      currentMonth: '2025-03',
+      previousMonths: ['2025-01', '2025-02'],
+      baseline: { mode: 'trailing', label: '', shortLabel: '', ranges: [{ start: '2025-01-01', end: '2025-01-31' }, { start: '2025-02-01', end: '2025-02-28' }] }
+    } as ReferencePeriod;
+    const data = [
+      makeRecord({ date: '2025-03-05', paymentTerms: '30/60', amount: 300, orderId: '1' }),
+      makeRecord({ date: '2025-03-06', paymentTerms: '30-60', amount: 100, orderId: '2', cnpj: 'B' }),
+      makeRecord({ date: '2025-03-07', paymentTerms: 'À VISTA', amount: 100, orderId: '3' }),
+      makeRecord({ date: '2025-02-10', paymentTerms: '30/60', amount: 200, orderId: '4' })
+    ];
+
+    const [termRow, cashRow] = getPaymentTermsBreakdown(data, period);
+    expect(termRow).toMatchObject({ label: '30/60 dias', kind: 'days', installmentCount: 2, avgDays: 45, revenue: 400, orders: 2, clients: 2, share: 80, baselineRevenue: 100, rawValues: ['30-60', '30/60'] });
+    expect(cashRow).toMatchObject({ label: 'À vista', revenue: 100, share: 20, baselineRevenue: 0 });
+  });
+});
@@ -0,0 +1,194 @@
+import { SaleRecord, ReferencePeriod, PaymentTermKind, PaymentInstallment, PaymentSchedule, PaymentTermsRow } from '../types';
+import { isDateInRange, toMonthKey } from './periodService';
+import { normalizeHeader } from './columnMapping';
+
+// --- PAYMENT TERMS (CONDIÇÃO DE PAGAMENTO) ---
+// Aceita "À VISTA", listas de prazos ("30-60-90", "30/60/90 DDF", "28 DDL", "ENTRADA + 30/60"),
+// "3X" (parcelas mensais), prazos fora o mês ("30 DFM") e vencimentos "dd/mm/aaaa".
+// O que sobrar de texto desconhecido torna a condição "unparsed": fica fora das médias e aparece na lista de revisão.
+
+export const PAYMENT_TERM_KIND_LABELS: Record<PaymentTermKind, string> = {
+  cash: 'À vista',
+  days: 'Prazo',
+  dates: 'Vencimentos',
+  unparsed: 'Não reconhecida'
+};
+
+const MAX_TERM_DAYS = 720; // Acima disso é ano, código ou valor, não prazo
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DATE_TERM_ROUNDING = 15;
+
+const CASH_WORDS = new Set(['vista', 'avista', 'antecipado', 'antecipada', 'dinheiro', 'pix', 'entrada', 'ent']);
+// Qualificadores e meios de pagamento que não mudam o prazo
+const IGNORED_WORDS = new Set([
+  'a', 'o', 'de', 'e', 'com', 'ddl', 'ddf', 'dd', 'df', 'dias', 'dia', 'd', 'boleto', 'bol', 'bancario', 'duplicata', 'dup',
+  'cheque', 'ch', 'cartao', 'deposito', 'ted', 'prazo', 'cond', 'pagto', 'pagamento', 'parcelado', 'parcelas', 'parcela'
+]);
+const MONTH_END_WORDS = new Set(['dfm', 'fm', 'fora', 'mes']);
+
+interface ParsedTerms {
+  kind: PaymentTermKind;
+  days: number[]; // Prazos em dias (kind cash/days)
+  dueDates: string[]; // Vencimentos YYYY-MM-DD (kind dates)
+  fromMonthEnd: boolean; // Prazos contados a partir do fim do mês da nota
+}
+
+const UNPARSED: ParsedTerms = { kind: 'unparsed', days: [], dueDates: [], fromMonthEnd: false };
+
+const toIsoDate = (day: number, month: number, year: number): string | null => {
+  const date = new Date(year, month - 1, day, 12);
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) return null;
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+};
+
+const parseStructure = (raw: string): ParsedTerms => {
+  let text = normalizeHeader(raw);
+  if (!text) return UNPARSED;
+
+  // Vencimentos explícitos vencem qualquer outro texto ("Boleto 10/01/2025 - 10/02/2025").
+  // Ano com 4 dígitos obrigatório: "10/12/25" é lista de prazos, não data.
+  const dueDates: string[] = [];
+  for (const match of text.matchAll(/(\d{1,2})\/(\d{1,2})\/(\d{4})/g)) {
+    const iso = toIsoDate(Number(match[1]), Number(match[2]), Number(match[3]));
+    if (!iso) return UNPARSED;
+    dueDates.push(iso);
+  }
+  if (dueDates.length > 0) return { kind: 'dates', days: [], dueDates, fromMonthEnd: false };
+
+  text = text.replace(/a\s+vista/g, 'vista').replace(/(\d)([a-z])/g, '$1 $2');
+  const days: number[] = [];
+  let installmentCount = 0;
+  let fromMonthEnd = false;
+
+  for (const token of text.split(/[\s\/\-+,;.()]+/).filter(Boolean)) {
+    if (/^\d+$/.test(token)) {
+      const value = Number(token);
+      if (value > MAX_TERM_DAYS) return UNPARSED;
+      days.push(value);
+    } else if (/^x$|^vezes$/.test(token) && days.length > 0) {
+      // "3 x" / "3 vezes": o número anterior é a quantidade de parcelas, não um prazo
+      installmentCount = days.pop()!;
+    } else if (CASH_WORDS.has(token)) {
+      days.push(0);
+    } else if (MONTH_END_WORDS.has(token)) {
+      fromMonthEnd = true;
+    } else if (!IGNORED_WORDS.has(token)) {
+      return UNPARSED;
+    }
+  }
+
+  // Quantidade maior que a lista ("3X", "3 x 30", "3x 30/60"): completa no mesmo intervalo, 30 dias se não houver
+  if (installmentCount > days.length) {
+    const last = days[days.length - 1] || 0;
+    const step = (days.length >= 2 ? last - days[days.length - 2] : last) || 30;
+    while (days.length < installmentCount) days.push((days[days.length - 1] || 0) + step);
+  }
+  if (days.length === 0) return UNPARSED;
+  if (days.every(d => d === 0)) return { kind: 'cash', days: [0], dueDates: [], fromMonthEnd: false };
+  return { kind: 'days', days, dueDates: [], fromMonthEnd };
+};
+
+const structureCache = new Map<string, ParsedTerms>();
+
+const getStructure = (raw: string): ParsedTerms => {
+  let parsed = structureCache.get(raw);
+  if (!parsed) {
+    parsed = parseStructure(raw);
+    structureCache.set(raw, parsed);
+  }
+  return parsed;
+};
+
+const parseIsoDate = (date: string): Date | null => {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) return null;
+  const [y, m, d] = date.split('-').map(Number);
+  return new Date(y, m - 1, d, 12);
+};
+
+const toIso = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+// Prazos em dias a partir da emissão (`invoiceDate`, YYYY-MM-DD). Sem data da nota, vencimentos explícitos
+// ficam com 0 dias e prazos não ganham data de vencimento.
+export const parsePaymentTerms = (raw: string, invoiceDate = ''): PaymentSchedule => {
+  const parsed = getStructure(raw || '');
+  const base = parseIsoDate(invoiceDate);
+  let installments: PaymentInstallment[] = [];
+
+  if (parsed.kind === 'dates') {
+    installments = parsed.dueDates.map(dueDate => ({
+      dueDate,
+      days: base ? Math.round((parseIsoDate(dueDate)!.getTime() - base.getTime()) / DAY_MS) : 0
+    }));
+  } else if (parsed.kind !== 'unparsed') {
+    const monthEndOffset = parsed.fromMonthEnd && base ? new Date(base.getFullYear(), base.getMonth() + 1, 0).getDate() - base.getDate() : 0;
+    installments = parsed.days.map(d => {
+      const days = d + monthEndOffset;
+      return { days, dueDate: base ? toIso(new Date(base.getTime() + days * DAY_MS)) : '' };
+    });
+  }
+
+  const avgDays = installments.length > 0 ? installments.reduce((acc, i) => acc + i.days, 0) / installments.length : 0;
+  let label: string;
+  if (parsed.kind === 'cash') label = PAYMENT_TERM_KIND_LABELS.cash;
+  else if (parsed.kind === 'unparsed') label = (raw || '').trim() || 'Não informada';
+  // Vencimentos mudam a cada nota: agrupa pela quantidade e pelo prazo médio arredondado a 15 dias
+  else if (parsed.kind === 'dates') label = `${installments.length}x por vencimento${base ? ` (~${Math.round(avgDays / DATE_TERM_ROUNDING) * DATE_TERM_ROUNDING} dias)` : ''}`;
+  else label = `${parsed.days.join('/')} dias${parsed.fromMonthEnd ? ' fora o mês' : ''}`;
+
+  return { raw, kind: parsed.kind, label, installments, avgDays };
+};
+
+// Condições de pagamento das vendas que o parser não entendeu, para revisão do cadastro
+export const getUnparsedPaymentTerms = (data: SaleRecord[]): string[] => {
+  const values = new Set<string>();
+  data.forEach(r => {
+    if (r.operClass === 'VD' && r.paymentTerms?.trim() && getStructure(r.paymentTerms).kind === 'unparsed') values.add(r.paymentTerms.trim());
+  });
+  return Array.from(values).sort((a, b) => a.localeCompare(b));
+};
+
+// Vendas por condição de pagamento: mês de referência vs média mensal do baseline
+export const getPaymentTermsBreakdown = (data: SaleRecord[], period: ReferencePeriod): PaymentTermsRow[] => {
+  const sales = data.filter(r => r.operClass === 'VD');
+  const current = sales.filter(r => toMonthKey(r.date) === period.currentMonth);
+  const currentTotal = current.reduce((acc, r) => acc + r.amount, 0);
+  const rangeCount = period.baseline.ranges.length;
+
+  const groups: Record<string, { schedule: PaymentSchedule, revenue: number, baseline: number, weightedDays: number, weight: number, orders: Set<string>, clients: Set<string>, raw: Set<string> }> = {};
+  const groupFor = (r: SaleRecord) => {
+    const schedule = parsePaymentTerms(r.paymentTerms, r.date);
+    const group = groups[schedule.label] = groups[schedule.label] || { schedule, revenue: 0, baseline: 0, weightedDays: 0, weight: 0, orders: new Set(), clients: new Set(), raw: new Set() };
+    if (r.paymentTerms?.trim()) group.raw.add(r.paymentTerms.trim());
+    if (schedule.kind !== 'unparsed') {
+      group.weightedDays += schedule.avgDays * r.amount;
+      group.weight += r.amount;
+    }
+    return group;
+  };
+
+  current.forEach(r => {
+    const group = groupFor(r);
+    group.revenue += r.amount;
+    if (r.orderId) group.orders.add(r.orderId);
+    group.clients.add(r.cnpj);
+  });
+  period.baseline.ranges.forEach(range => {
+    sales.filter(r => isDateInRange(r.date, range)).forEach(r => { groupFor(r).baseline += r.amount / rangeCount; });
+  });
+
+  return Object.values(groups)
+    .map(g => ({
+      label: g.schedule.label,
+      kind: g.schedule.kind,
+      installmentCount: g.schedule.installments.length,
+      avgDays: g.weight > 0 ? g.weightedDays / g.weight : 0,
+      revenue: g.revenue,
+      orders: g.orders.size,
+      clients: g.clients.size,
+      share: currentTotal > 0 ? (g.revenue / currentTotal) * 100 : 0,
+      baselineRevenue: g.baseline,
+      rawValues: Array.from(g.raw).sort()
+    }))
+    .sort((a, b) => b.revenue - a.revenue || b.baselineRevenue - a.baselineRevenue);
+};
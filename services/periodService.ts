@@ -0,0 +1,157 @@
+import { SaleRecord, ReferencePeriod, PeriodSelection, ComparisonBaseline, DateRange, BaselineMode } from '../types';
+
+// --- PERIOD MODEL ---
+// Mês de referência (atual) + N meses fechados anteriores usados como base de comparação.
+
+export const MONTH_NAMES = ['Jan', 'Fev', 'Mar', 'Abr', 'Mai', 'Jun', 'Jul', 'Ago', 'Set', 'Out', 'Nov', 'Dez'];
+export const MONTH_NAMES_LONG = ['Janeiro', 'Fevereiro', 'Março', 'Abril', 'Maio', 'Junho', 'Julho', 'Agosto', 'Setembro', 'Outubro', 'Novembro', 'Dezembro'];
+
+export const DEFAULT_CLOSED_MONTHS = 3;
+
+export const DEFAULT_PERIOD_SELECTION: PeriodSelection = {
+  mode: 'auto',
+  month: '',
+  closedMonths: DEFAULT_CLOSED_MONTHS,
+  baselineMode: 'trailing',
+  customStart: '',
+  customEnd: ''
+};
+
+export const BASELINE_MODE_LABELS: Record<BaselineMode, string> = {
+  trailing: 'Média dos meses fechados',
+  previousMonth: 'Mês anterior',
+  sameMonthLastYear: 'Mesmo mês do ano anterior',
+  customRange: 'Intervalo personalizado'
+};
+
+export const toMonthKey = (date: string): string => date.substring(0, 7);
+
+export const isMonthKey = (value: string): boolean => /^\d{4}-(0[1-9]|1[0-2])$/.test(value);
+
+export const isDateKey = (value: string): boolean => /^\d{4}-(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])$/.test(value);
+
+// "2025-11" + (-3) -> "2025-08" (atravessa viradas de ano)
+export const shiftMonth = (monthKey: string, delta: number): string => {
+  const [year, month] = monthKey.split('-').map(Number);
+  const index = year * 12 + (month - 1) + delta;
+  const newYear = Math.floor(index / 12);
+  const newMonth = (index % 12) + 1;
+  return `${newYear}-${String(newMonth).padStart(2, '0')}`;
+};
+
+export const getAvailableMonths = (data: SaleRecord[]): string[] => {
+  return Array.from(new Set(data.map(r => toMonthKey(r.date)))).filter(Boolean).sort();
+};
+
+// Último mês com vendas na base; sem dados, usa o mês corrente do calendário
+export const detectLatestMonth = (data: SaleRecord[]): string => {
+  let latest = '';
+  data.forEach(r => {
+    if (r.date > latest) latest = r.date;
+  });
+  if (latest) return toMonthKey(latest);
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`;
+};
+
+// --- DATE RANGES ---
+
+// Datas no formato ISO comparam corretamente como string; "-31" cobre o fim de qualquer mês
+export const monthToRange = (monthKey: string): DateRange => ({ start: `${monthKey}-01`, end: `${monthKey}-31` });
+
+export const isDateInRange = (date: string, range: DateRange): boolean => date >= range.start && date <= range.end;
+
+// Quebra um intervalo arbitrário em fatias mensais (recortadas nas pontas)
+export const splitRangeByMonth = (range: DateRange): DateRange[] => {
+  const ranges: DateRange[] = [];
+  let month = toMonthKey(range.start);
+  const lastMonth = toMonthKey(range.end);
+  while (month <= lastMonth) {
+    const full = monthToRange(month);
+    ranges.push({
+      start: full.start < range.start ? range.start : full.start,
+      end: full.end > range.end ? range.end : full.end
+    });
+    month = shiftMonth(month, 1);
+  }
+  return ranges;
+};
+
+const formatDateBR = (date: string): string => date.split('-').reverse().join('/');
+
+// --- BASELINE ---
+
+export const buildBaseline = (currentMonth: string, selection: PeriodSelection): ComparisonBaseline => {
+  const closedMonths = Math.max(1, Math.floor(selection.closedMonths));
+  switch (selection.baselineMode) {
+    case 'previousMonth': {
+      const month = shiftMonth(currentMonth, -1);
+      return { mode: 'previousMonth', label: `Mês anterior (${formatMonthShort(month)})`, shortLabel: formatMonthShort(month), ranges: [monthToRange(month)] };
+    }
+    case 'sameMonthLastYear': {
+      const month = shiftMonth(currentMonth, -12);
+      const label = `${formatMonthShort(month)}/${month.split('-')[0]}`;
+      return { mode: 'sameMonthLastYear', label, shortLabel: label, ranges: [monthToRange(month)] };
+    }
+    case 'customRange': {
+      if (isDateKey(selection.customStart) && isDateKey(selection.customEnd) && selection.customStart <= selection.customEnd) {
+        const label = `${formatDateBR(selection.customStart)} a ${formatDateBR(selection.customEnd)}`;
+        return { mode: 'customRange', label: `Média ${label}`, shortLabel: 'Média (Intervalo)', ranges: splitRangeByMonth({ start: selection.customStart, end: selection.customEnd }) };
+      }
+      // Intervalo incompleto: cai para a média móvel
+      break;
+    }
+  }
+  const months: string[] = [];
+  for (let i = closedMonths; i >= 1; i--) months.push(shiftMonth(currentMonth, -i));
+  return {
+    mode: 'trailing',
+    label: `Média (${closedMonths} ${closedMonths === 1 ? 'mês' : 'meses'})`,
+    shortLabel: `Média (${formatMonthRange(months)})`,
+    ranges: months.map(monthToRange)
+  };
+};
+
+export const buildReferencePeriod = (currentMonth: string, selection: PeriodSelection = DEFAULT_PERIOD_SELECTION): ReferencePeriod => {
+  const count = Math.max(1, Math.floor(selection.closedMonths));
+  const previousMonths: string[] = [];
+  for (let i = count; i >= 1; i--) {
+    previousMonths.push(shiftMonth(currentMonth, -i));
+  }
+  return { currentMonth, previousMonths, baseline: buildBaseline(currentMonth, selection) };
+};
+
+export const resolveReferencePeriod = (data: SaleRecord[], selection: PeriodSelection): ReferencePeriod => {
+  const month = selection.mode === 'manual' && isMonthKey(selection.month) ? selection.month : detectLatestMonth(data);
+  return buildReferencePeriod(month, selection);
+};
+
+// Meses exibidos nas matrizes: fechados + referência
+export const getPeriodMonths = (period: ReferencePeriod): string[] => [...period.previousMonths, period.currentMonth];
+
+// Intervalo de meses que precisa estar carregado para calcular o período e o baseline
+export const getPeriodRange = (period: ReferencePeriod): { startMonth: string, endMonth: string } => {
+  const baselineMonths = period.baseline.ranges.flatMap(r => [toMonthKey(r.start), toMonthKey(r.end)]);
+  const months = [...getPeriodMonths(period), ...baselineMonths].sort();
+  return { startMonth: months[0], endMonth: months[months.length - 1] };
+};
+
+// --- LABELS ---
+
+export const formatMonthShort = (monthKey: string): string => {
+  const month = parseInt(monthKey.split('-')[1], 10);
+  return MONTH_NAMES[month - 1] || monthKey;
+};
+
+export const formatMonthLong = (monthKey: string): string => {
+  const [year, month] = monthKey.split('-');
+  const name = MONTH_NAMES_LONG[parseInt(month, 10) - 1];
+  return name ? `${name} ${year}` : monthKey;
+};
+
+// ['2025-08','2025-09','2025-10'] -> "Ago-Out"
+export const formatMonthRange = (months: string[]): string => {
+  if (months.length === 0) return '-';
+  if (months.length === 1) return formatMonthShort(months[0]);
+  return `${formatMonthShort(months[0])}-${formatMonthShort(months[months.length - 1])}`;
+};
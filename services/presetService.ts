@@ -0,0 +1,108 @@
+import { DashboardTab, FilterDimension, FilterPreset } from '../types';
+import { FILTER_URL_PARAMS, DASHBOARD_TABS } from './urlState';
+
+// --- FILTER PRESETS ---
+// Seleções nomeadas (canal/região/divisão + filtros adicionais + aba), salvas neste navegador.
+
+const PRESETS_STORAGE_KEY = 'painel.filterPresets';
+const DEFAULT_PRESET_STORAGE_KEY = 'painel.defaultFilterPreset';
+const PRESETS_EXPORT_VERSION = 1;
+
+// Descarta campos desconhecidos e normaliza valores vindos do storage ou de um JSON importado
+const sanitizePreset = (value: any): FilterPreset | null => {
+  if (!value || typeof value !== 'object' || typeof value.name !== 'string' || !value.name.trim()) return null;
+  const readLists = (source: any): Record<FilterDimension, string[]> => Object.fromEntries((Object.keys(FILTER_URL_PARAMS) as FilterDimension[]).map(dim => [
+    dim,
+    source && Array.isArray(source[dim]) ? source[dim].filter((v: unknown) => typeof v === 'string') : []
+  ])) as Record<FilterDimension, string[]>;
+  const exclude = readLists(value.exclude);
+  return {
+    name: value.name.trim(),
+    filters: readLists(value.filters),
+    exclude: Object.fromEntries((Object.keys(exclude) as FilterDimension[]).filter(dim => exclude[dim].length > 0).map(dim => [dim, exclude[dim]])),
+    tab: DASHBOARD_TABS.includes(value.tab) ? value.tab : 'clients',
+    updatedAt: typeof value.updatedAt === 'string' ? value.updatedAt : new Date().toISOString()
+  };
+};
+
+const sortPresets = (presets: FilterPreset[]) => [...presets].sort((a, b) => a.name.localeCompare(b.name));
+
+export const loadFilterPresets = (): FilterPreset[] => {
+  try {
+    const raw = localStorage.getItem(PRESETS_STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed.map(sanitizePreset).filter((p): p is FilterPreset => !!p) : [];
+  } catch (e) {
+    console.warn('Invalid filter presets in storage', e);
+    return [];
+  }
+};
+
+const storeFilterPresets = (presets: FilterPreset[]) => {
+  localStorage.setItem(PRESETS_STORAGE_KEY, JSON.stringify(presets));
+};
+
+export const saveFilterPreset = (name: string, filters: Record<FilterDimension, string[]>, exclude: Partial<Record<FilterDimension, string[]>>, tab: DashboardTab): FilterPreset[] => {
+  const preset: FilterPreset = { name: name.trim(), filters, exclude, tab, updatedAt: new Date().toISOString() };
+  const updated = sortPresets([...loadFilterPresets().filter(p => p.name !== preset.name), preset]);
+  storeFilterPresets(updated);
+  return updated;
+};
+
+// Renomear para um nome existente substitui o preset de destino
+export const renameFilterPreset = (oldName: string, newName: string): FilterPreset[] => {
+  const target = newName.trim();
+  const presets = loadFilterPresets();
+  const preset = presets.find(p => p.name === oldName);
+  if (!preset || !target || target === oldName) return presets;
+  const updated = sortPresets([
+    ...presets.filter(p => p.name !== oldName && p.name !== target),
+    { ...preset, name: target, updatedAt: new Date().toISOString() }
+  ]);
+  storeFilterPresets(updated);
+  if (getDefaultPresetName() === oldName) setDefaultPresetName(target);
+  return updated;
+};
+
+export const deleteFilterPreset = (name: string): FilterPreset[] => {
+  const updated = loadFilterPresets().filter(p => p.name !== name);
+  storeFilterPresets(updated);
+  if (getDefaultPresetName() === name) setDefaultPresetName('');
+  return updated;
+};
+
+export const getDefaultPresetName = (): string => localStorage.getItem(DEFAULT_PRESET_STORAGE_KEY) || '';
+
+export const setDefaultPresetName = (name: string) => {
+  if (name) localStorage.setItem(DEFAULT_PRESET_STORAGE_KEY, name);
+  else localStorage.removeItem(DEFAULT_PRESET_STORAGE_KEY);
+};
+
+export const getDefaultPreset = (): FilterPreset | undefined => {
+  const name = getDefaultPresetName();
+  return name ? loadFilterPresets().find(p => p.name === name) : undefined;
+};
+
+// --- IMPORT / EXPORT ---
+
+export const exportFilterPresets = (presets: FilterPreset[]): string =>
+  JSON.stringify({ version: PRESETS_EXPORT_VERSION, exportedAt: new Date().toISOString(), presets }, null, 2);
+
+// Aceita o formato exportado ou uma lista simples; presets com o mesmo nome são substituídos
+export const importFilterPresets = (json: string): { presets: FilterPreset[], imported: number } => {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(json);
+  } catch (e) {
+    throw new Error('Arquivo não é um JSON válido');
+  }
+  const list = Array.isArray(parsed) ? parsed : parsed?.presets;
+  if (!Array.isArray(list)) throw new Error('Nenhum preset encontrado no arquivo');
+  const incoming = list.map(sanitizePreset).filter((p): p is FilterPreset => !!p);
+  if (incoming.length === 0) throw new Error('Nenhum preset válido encontrado no arquivo');
+
+  const names = new Set(incoming.map(p => p.name));
+  const updated = sortPresets([...loadFilterPresets().filter(p => !names.has(p.name)), ...incoming]);
+  storeFilterPresets(updated);
+  return { presets: updated, imported: incoming.length };
+};
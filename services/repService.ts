@@ -0,0 +1,134 @@
+import { SaleRecord, ReferencePeriod, RepScorecard, KPIStats, CustomMetric, KpiRules } from '../types';
+import { calculateKPIs, calculateBaselineKPIs } from './dataService';
+import { isDateInRange, toMonthKey, formatMonthLong } from './periodService';
+import { getReturnRate } from './returnsService';
+import { evaluateCustomMetric } from './metricService';
+import { buildCSV } from './csvExport';
+
+// --- SALES REP SCORECARD ---
+
+// Mesma regra da positivação: cliente com saldo líquido positivo (ou com venda, na variante bruta)
+const getPositivatedClients = (records: SaleRecord[], rules: KpiRules): Set<string> => {
+  const net: Record<string, number> = {};
+  (rules.positivacao === 'gross' ? records.filter(r => r.operClass === 'VD') : records).forEach(r => { net[r.cnpj] = (net[r.cnpj] || 0) + r.amount; });
+  return new Set(Object.keys(net).filter(cnpj => net[cnpj] > 0));
+};
+
+const mostFrequent = (values: string[]): string => {
+  const counts: Record<string, number> = {};
+  values.forEach(v => { if (v) counts[v] = (counts[v] || 0) + 1; });
+  return Object.entries(counts).sort((a, b) => b[1] - a[1])[0]?.[0] || '';
+};
+
+const groupByRep = (data: SaleRecord[]): Record<string, SaleRecord[]> => {
+  const groups: Record<string, SaleRecord[]> = {};
+  data.forEach(r => {
+    if (!r.salesRep || r.salesRep === 'N/A') return;
+    (groups[r.salesRep] = groups[r.salesRep] || []).push(r);
+  });
+  return groups;
+};
+
+// Ranking por faturamento do mês dentro da região predominante de cada rep
+const getRegionRanking = (data: SaleRecord[], period: ReferencePeriod, rules: KpiRules): Record<string, { region: string, rank: number, size: number }> => {
+  const byRegion: Record<string, { rep: string, revenue: number }[]> = {};
+  Object.entries(groupByRep(data)).forEach(([rep, records]) => {
+    const region = mostFrequent(records.map(r => r.region));
+    const revenue = calculateKPIs(records.filter(r => toMonthKey(r.date) === period.currentMonth), rules).totalRevenue;
+    (byRegion[region] = byRegion[region] || []).push({ rep, revenue });
+  });
+
+  const ranking: Record<string, { region: string, rank: number, size: number }> = {};
+  Object.entries(byRegion).forEach(([region, reps]) => {
+    reps.sort((a, b) => b.revenue - a.revenue).forEach(({ rep }, i) => {
+      ranking[rep] = { region, rank: i + 1, size: reps.length };
+    });
+  });
+  return ranking;
+};
+
+// `rankingData` é a base do ranking regional: deve vir sem os filtros de representante e região,
+// senão cada rep filtrado é comparado só com os demais do filtro (ou consigo mesmo)
+export const getRepScorecards = (data: SaleRecord[], period: ReferencePeriod, rules: KpiRules, rankingData: SaleRecord[] = data): RepScorecard[] => {
+  const groups = groupByRep(data);
+  const ranking = getRegionRanking(rankingData, period, rules);
+
+  const cards = Object.entries(groups).map(([rep, records]) => {
+    const currentRecords = records.filter(r => toMonthKey(r.date) === period.currentMonth);
+    const baselineRangesRecords = period.baseline.ranges.map(range => records.filter(r => isDateInRange(r.date, range)));
+
+    const currentClients = getPositivatedClients(currentRecords, rules);
+    const baselineClients = new Set<string>();
+    baselineRangesRecords.forEach(rangeRecords => getPositivatedClients(rangeRecords, rules).forEach(c => baselineClients.add(c)));
+
+    const baselineReturnRates = baselineRangesRecords.map(getReturnRate);
+    const rank = ranking[rep];
+    return {
+      id: rep,
+      region: rank ? rank.region : mostFrequent(records.map(r => r.region)),
+      sectors: Array.from(new Set(records.map(r => r.sector))).filter(Boolean).sort(),
+      current: calculateKPIs(currentRecords, rules),
+      baseline: calculateBaselineKPIs(records, period.baseline, rules),
+      returnRate: getReturnRate(currentRecords),
+      baselineReturnRate: baselineReturnRates.length > 0 ? baselineReturnRates.reduce((a, b) => a + b, 0) / baselineReturnRates.length : 0,
+      gainedClients: Array.from(currentClients).filter(c => !baselineClients.has(c)),
+      lostClients: Array.from(baselineClients).filter(c => !currentClients.has(c)),
+      regionRank: rank ? rank.rank : 0,
+      regionSize: rank ? rank.size : 0
+    };
+  });
+
+  return cards.sort((a, b) => b.current.totalRevenue - a.current.totalRevenue);
+};
+
+// --- EXPORT ---
+
+const SCORECARD_METRICS: { key: keyof KPIStats, label: string }[] = [
+  { key: 'totalRevenue', label: 'Faturamento' },
+  { key: 'positivacao', label: 'Positivação' },
+  { key: 'skuPerPdv', label: 'SKU x PDV' },
+  { key: 'averageTicket', label: 'Ticket Médio' },
+  { key: 'totalOrders', label: 'Pedidos' },
+  { key: 'avgTerm', label: 'Prazo Médio (dias)' },
+  { key: 'avgInstallments', label: 'Parcelas Médias' }
+];
+
+const csvNumber = (value: number) => value.toLocaleString('pt-BR', { maximumFractionDigits: 2 });
+
+// Scorecard de um rep: indicadores (mês x baseline) e listas de clientes ganhos/perdidos
+export const buildRepScorecardCSV = (card: RepScorecard, period: ReferencePeriod, clientNames: Record<string, string>): string => {
+  const lines: (string | number)[][] = [
+    ['Representante', card.id],
+    ['Região', `${card.region} (${card.regionRank}º de ${card.regionSize})`],
+    ['Setores', card.sectors.join(', ')],
+    ['Mês de referência', formatMonthLong(period.currentMonth)],
+    ['Baseline', period.baseline.label],
+    [],
+    ['Indicador', 'Mês', 'Baseline', 'Variação %'],
+    ...SCORECARD_METRICS.map(m => {
+      const current = card.current[m.key];
+      const base = card.baseline[m.key];
+      return [m.label, csvNumber(current), csvNumber(base), base !== 0 ? csvNumber(((current - base) / base) * 100) : '-'];
+    }),
+    ['Taxa de Devolução %', csvNumber(card.returnRate), csvNumber(card.baselineReturnRate), '-'],
+    [],
+    ['Clientes ganhos', card.gainedClients.length],
+    ...card.gainedClients.map(cnpj => [cnpj, clientNames[cnpj] || '']),
+    [],
+    ['Clientes perdidos', card.lostClients.length],
+    ...card.lostClients.map(cnpj => [cnpj, clientNames[cnpj] || ''])
+  ];
+  return buildCSV(lines);
+};
+
+// Uma linha por rep, para a exportação da aba
+export const buildRepScorecardsTableCSV = (cards: RepScorecard[], customMetrics: CustomMetric[] = []): string => {
+  const headers = ['Representante', 'Região', 'Ranking na Região', ...SCORECARD_METRICS.flatMap(m => [`${m.label} (Mês)`, `${m.label} (Baseline)`]), 'Devolução % (Mês)', 'Devolução % (Baseline)', 'Clientes Ganhos', 'Clientes Perdidos', ...customMetrics.flatMap(m => [`${m.label} (Mês)`, `${m.label} (Baseline)`])];
+  const rows = cards.map(card => [
+    card.id, card.region, `${card.regionRank}/${card.regionSize}`,
+    ...SCORECARD_METRICS.flatMap(m => [csvNumber(card.current[m.key]), csvNumber(card.baseline[m.key])]),
+    csvNumber(card.returnRate), csvNumber(card.baselineReturnRate), card.gainedClients.length, card.lostClients.length,
+    ...customMetrics.flatMap(m => [csvNumber(evaluateCustomMetric(m, card.current)), csvNumber(evaluateCustomMetric(m, card.baseline))])
+  ]);
+  return buildCSV([headers, ...rows]);
+};
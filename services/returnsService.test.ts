@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { ReferencePeriod } from '../types';
+import { linkReturnsToSales } from './returnsService';
+import { makeRecord } from './__fixtures__/records';
+
+const period = { currentMonth: '2025-03', previousMonths: ['2025-02'], baseline: { mode: 'previousMonth', label: 'Fev/2025', shortLabel: 'Fev/2025', ranges: [{ start: '2025-02-01', end: '2025-02-28' }] } } as ReferencePeriod;
+
+describe('linkReturnsToSales', () => {
+  it('vincula pelo pedido e soma as linhas da venda de origem', () => {
+    const history = [
+      makeRecord({ date: '2025-02-10', orderId: '500', amount: 300 }),
+      makeRecord({ date: '2025-02-10', orderId: '500', amount: 200 }),
+      makeRecord({ date: '2025-02-20', orderId: '600', amount: 900 }),
+      makeRecord({ date: '2025-03-05', orderId: '500', amount: -100, operClass: 'DV' })
+    ];
+    const [link] = linkReturnsToSales(history, period);
+    expect(link).toMatchObject({ match: 'order', originalOrderId: '500', originalDate: '2025-02-10', originalAmount: 500, amount: 100 });
+  });
+
+  it('sem número de pedido, usa a venda mais recente do produto e só o valor dela', () => {
+    const history = [
+      makeRecord({ date: '2025-02-10', orderId: 'UNK-0', amount: 300 }),
+      makeRecord({ date: '2025-02-20', orderId: 'UNK-1', amount: 250 }),
+      makeRecord({ date: '2025-03-05', orderId: 'UNK-2', amount: -100, operClass: 'DV' })
+    ];
+    const [link] = linkReturnsToSales(history, period);
+    expect(link).toMatchObject({ match: 'product', originalOrderId: '', originalDate: '2025-02-20', originalAmount: 250 });
+  });
+
+  it('não casa ids gerados para linhas sem pedido de outro arquivo', () => {
+    const history = [
+      makeRecord({ date: '2025-02-10', orderId: 'UNK-3', amount: 300 }),
+      makeRecord({ date: '2025-02-25', orderId: '700', amount: 80 }),
+      makeRecord({ date: '2025-03-05', orderId: 'UNK-3', amount: -100, operClass: 'DV' })
+    ];
+    const [link] = linkReturnsToSales(history, period);
+    expect(link).toMatchObject({ match: 'product', originalOrderId: '700', originalAmount: 80 });
+  });
+
+  it('devolução sem venda anterior fica sem vínculo', () => {
+    const [link] = linkReturnsToSales([makeRecord({ date: '2025-03-05', amount: -100, operClass: 'DV' })], period);
+    expect(link).toMatchObject({ match: 'none', originalOrderId: '', originalAmount: 0 });
+  });
+});
@@ -0,0 +1,119 @@
+import { SaleRecord, ReferencePeriod, ReturnDimension, ReturnBreakdownRow, ReturnLink } from '../types';
+import { isDateInRange, toMonthKey, getPeriodMonths, formatMonthLong } from './periodService';
+import { hasOrderId } from './dataService';
+
+// --- RETURNS (DEVOLUÇÃO) ANALYSIS ---
+
+const THRESHOLD_STORAGE_KEY = 'painel.returnRateThreshold';
+export const DEFAULT_RETURN_RATE_THRESHOLD = 5;
+
+export const RETURN_DIMENSION_LABELS: Record<ReturnDimension, string> = {
+  product: 'Produto',
+  supplier: 'Fornecedor',
+  client: 'Cliente',
+  rep: 'Representante',
+  month: 'Mês'
+};
+
+export const getReturnRateThreshold = (): number => {
+  const stored = parseFloat(localStorage.getItem(THRESHOLD_STORAGE_KEY) || '');
+  return Number.isFinite(stored) && stored >= 0 ? stored : DEFAULT_RETURN_RATE_THRESHOLD;
+};
+
+export const setReturnRateThreshold = (value: number) => {
+  localStorage.setItem(THRESHOLD_STORAGE_KEY, String(value));
+};
+
+// Devolução sobre venda bruta, em %
+export const getReturnRate = (records: SaleRecord[]): number => {
+  const gross = records.filter(r => r.operClass === 'VD').reduce((acc, r) => acc + r.amount, 0);
+  const returned = records.filter(r => r.operClass === 'DV').reduce((acc, r) => acc + Math.abs(r.amount), 0);
+  return gross > 0 ? (returned / gross) * 100 : 0;
+};
+
+const DIMENSION_KEYS: Record<Exclude<ReturnDimension, 'month'>, { key: (r: SaleRecord) => string, name: (r: SaleRecord) => string }> = {
+  product: { key: r => r.productCode, name: r => r.productDesc || r.productCode },
+  supplier: { key: r => r.supplier, name: r => r.supplier },
+  client: { key: r => r.cnpj, name: r => r.companyName || r.cnpj },
+  rep: { key: r => r.salesRep, name: r => r.salesRep }
+};
+
+const buildRow = (id: string, name: string, current: SaleRecord[], baselineRanges: SaleRecord[][], threshold: number): ReturnBreakdownRow => {
+  const returns = current.filter(r => r.operClass === 'DV');
+  const baselineRates = baselineRanges.map(getReturnRate);
+  const returnRate = getReturnRate(current);
+  return {
+    id,
+    name,
+    salesValue: current.filter(r => r.operClass === 'VD').reduce((acc, r) => acc + r.amount, 0),
+    returnValue: returns.reduce((acc, r) => acc + Math.abs(r.amount), 0),
+    returnCount: returns.length,
+    returnRate,
+    baselineReturnRate: baselineRates.length > 0 ? baselineRates.reduce((a, b) => a + b, 0) / baselineRates.length : 0,
+    flagged: returns.length > 0 && returnRate > threshold
+  };
+};
+
+// Mês de referência por entidade (com taxa da baseline), ou a série mensal do período
+export const getReturnsBreakdown = (data: SaleRecord[], period: ReferencePeriod, dimension: ReturnDimension, threshold: number): ReturnBreakdownRow[] => {
+  if (dimension === 'month') {
+    const baselineRanges = period.baseline.ranges.map(range => data.filter(r => isDateInRange(r.date, range)));
+    return getPeriodMonths(period).map(month =>
+      buildRow(month, formatMonthLong(month), data.filter(r => toMonthKey(r.date) === month), baselineRanges, threshold)
+    );
+  }
+
+  const { key, name } = DIMENSION_KEYS[dimension];
+  const groups: Record<string, SaleRecord[]> = {};
+  data.forEach(r => {
+    const id = key(r);
+    if (id) (groups[id] = groups[id] || []).push(r);
+  });
+
+  return Object.entries(groups)
+    .map(([id, records]) => {
+      const current = records.filter(r => toMonthKey(r.date) === period.currentMonth);
+      const baselineRanges = period.baseline.ranges.map(range => records.filter(r => isDateInRange(r.date, range)));
+      return buildRow(id, name(records[0]), current, baselineRanges, threshold);
+    })
+    .filter(row => row.returnCount > 0)
+    .sort((a, b) => b.returnValue - a.returnValue);
+};
+
+// Vincula as devoluções do mês de referência às vendas de origem. `history` deve cobrir meses
+// anteriores ao período, pois a venda devolvida costuma ser de um mês antes.
+export const linkReturnsToSales = (history: SaleRecord[], period: ReferencePeriod): ReturnLink[] => {
+  const salesByClientProduct: Record<string, SaleRecord[]> = {};
+  history.forEach(r => {
+    if (r.operClass !== 'VD') return;
+    const k = `${r.cnpj}|${r.productCode}`;
+    (salesByClientProduct[k] = salesByClientProduct[k] || []).push(r);
+  });
+
+  return history
+    .filter(r => r.operClass === 'DV' && toMonthKey(r.date) === period.currentMonth)
+    .map((r): ReturnLink => {
+      const candidates = (salesByClientProduct[`${r.cnpj}|${r.productCode}`] || []).filter(s => s.date <= r.date);
+      const sameOrder = hasOrderId(r) ? candidates.find(s => s.orderId === r.orderId) : undefined;
+      const latest = candidates.reduce<SaleRecord | undefined>((acc, s) => !acc || s.date > acc.date ? s : acc, undefined);
+      const original = sameOrder || latest;
+      return {
+        returnId: r.id,
+        date: r.date,
+        cnpj: r.cnpj,
+        companyName: r.companyName,
+        productCode: r.productCode,
+        productDesc: r.productDesc,
+        salesRep: r.salesRep,
+        orderId: r.orderId,
+        amount: Math.abs(r.amount),
+        quantity: Math.abs(r.quantity),
+        match: sameOrder ? 'order' : latest ? 'product' : 'none',
+        originalOrderId: original && hasOrderId(original) ? original.orderId : '',
+        originalDate: original?.date || '',
+        // Sem número de pedido não há como agrupar as linhas da venda: vale só a linha vinculada
+        originalAmount: !original ? 0 : hasOrderId(original) ? candidates.filter(s => s.orderId === original.orderId).reduce((acc, s) => acc + s.amount, 0) : original.amount
+      };
+    })
+    .sort((a, b) => b.amount - a.amount);
+};
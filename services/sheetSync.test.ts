@@ -0,0 +1,140 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CachedDataset, DataSourceConfig, SaleRecord, SheetSyncState } from '../types';
+import { syncGoogleSheet } from './sheetSync';
+import { toMonthKey } from './periodService';
+import { GvizStandIn, startGvizStandIn } from './__fixtures__/gvizServer';
+
+const SHEET_ID = '1AbCdEfGhIjKlMnOp';
+
+let gviz: GvizStandIn;
+
+beforeAll(async () => {
+  gviz = await startGvizStandIn();
+  // Falhas de consulta esperadas nos cenários de fallback
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+afterAll(() => gviz.close());
+beforeEach(() => { gviz.requests.length = 0; });
+
+const sheetSource = (scenario: string): DataSourceConfig => ({
+  id: 'sheet-test',
+  name: 'Planilha de teste',
+  kind: 'googleSheets',
+  sheetId: SHEET_ID,
+  baseUrl: gviz.baseUrl(scenario)
+});
+
+// Cache da carga completa do cenário "vendas" (jan-mar/2025), como se a planilha tivesse mudado desde então
+const cachedFor = async (config: DataSourceConfig, syncState: Partial<SheetSyncState> = {}): Promise<CachedDataset> => {
+  const { result, sync } = await syncGoogleSheet(sheetSource('vendas'));
+  gviz.requests.length = 0;
+  return { sourceId: config.id, source: config, records: result.records, report: result.report, savedAt: '2025-03-21T12:00:00.000Z', sync: { ...sync, ...syncState } };
+};
+
+const queries = () => gviz.requests.map(url => url.searchParams.get('tq') || '');
+
+const totalsByMonth = (records: SaleRecord[]) => records.reduce<Record<string, { rows: number, amount: number }>>((acc, r) => {
+  const month = acc[toMonthKey(r.date)] = acc[toMonthKey(r.date)] || { rows: 0, amount: 0 };
+  month.rows++;
+  month.amount += r.amount;
+  return acc;
+}, {});
+
+describe('syncGoogleSheet', () => {
+  it('faz a carga completa e guarda o resumo mensal da planilha', async () => {
+    const { mode, result, sync } = await syncGoogleSheet(sheetSource('vendas'));
+
+    expect(mode).toBe('full');
+    expect(result.records).toHaveLength(7);
+    expect(queries()).toEqual(['', expect.stringMatching(/^select year\(A\), month\(A\), count\(A\), sum\(L\) /)]);
+    expect(sync.lastDate).toBe('2025-03-20');
+    expect(sync.headers[0]).toBe('Data NFE');
+    expect(sync.monthSummary).toEqual({
+      '2025-01': { rows: 3, amount: 600 },
+      '2025-02': { rows: 2, amount: 400 },
+      '2025-03': { rows: 2, amount: 600 }
+    });
+  });
+
+  it('busca só a partir do mês da última nota e substitui esses meses', async () => {
+    const config = sheetSource('vendas-abril');
+    const { mode, result, sync, refreshedMonths } = await syncGoogleSheet(config, await cachedFor(config));
+
+    expect(mode).toBe('incremental');
+    expect(queries()[1]).toBe("select * where A >= date '2025-03-01'");
+    expect(refreshedMonths).toEqual(['2025-03', '2025-04']);
+    expect(totalsByMonth(result.records)).toEqual({
+      '2025-01': { rows: 3, amount: 600 },
+      '2025-02': { rows: 2, amount: 400 },
+      '2025-03': { rows: 3, amount: 700 },
+      '2025-04': { rows: 2, amount: 300 }
+    });
+    expect(new Set(result.records.map(r => r.id)).size).toBe(result.records.length);
+    expect(sync.lastDate).toBe('2025-04-15');
+    expect(sync.monthSummary?.['2025-04']).toEqual({ rows: 2, amount: 300 });
+  });
+
+  it('rebusca mês antigo cujo total mudou na planilha', async () => {
+    const config = sheetSource('vendas-editada');
+    const { mode, result, refreshedMonths } = await syncGoogleSheet(config, await cachedFor(config));
+
+    expect(mode).toBe('incremental');
+    expect(queries()[1]).toBe("select * where A >= date '2025-03-01' or (A >= date '2025-01-01' and A < date '2025-02-01')");
+    expect(refreshedMonths).toEqual(['2025-01', '2025-03']);
+    expect(totalsByMonth(result.records)['2025-01']).toEqual({ rows: 3, amount: 650 });
+    expect(result.report.warnings.at(-1)).toContain('alterações detectadas em');
+  });
+
+  it('volta à carga completa quando a planilha recusa a consulta incremental', async () => {
+    const config = sheetSource('vendas-texto');
+    const { mode, result, sync } = await syncGoogleSheet(config, await cachedFor(config));
+
+    expect(mode).toBe('full');
+    expect(queries()).toEqual([expect.stringMatching(/^select year/), expect.stringMatching(/^select \* where/), '']);
+    expect(result.records).toHaveLength(10);
+    expect(sync.lastDate).toBe('2025-04-15');
+    expect(sync.textDateColumn).toBe(true);
+    expect(sync.monthSummary).toBeUndefined();
+  });
+
+  it('não repete a consulta incremental depois de saber que a data é texto', async () => {
+    const config = sheetSource('vendas-texto');
+    const cached = await cachedFor(config);
+    const { result, sync } = await syncGoogleSheet(config, cached);
+    gviz.requests.length = 0;
+
+    const next = await syncGoogleSheet(config, { ...cached, records: result.records, sync });
+
+    expect(next.mode).toBe('full');
+    expect(queries()).toEqual(['']);
+    expect(next.sync.textDateColumn).toBe(true);
+  });
+
+  it('descarta a marca de data como texto quando o cabeçalho muda', async () => {
+    const config = sheetSource('vendas-colunas');
+    const { mode, sync } = await syncGoogleSheet(config, await cachedFor(config, { textDateColumn: true }));
+
+    expect(mode).toBe('full');
+    expect(queries()).toEqual(['', expect.stringMatching(/^select year\(B\)/)]);
+    expect(sync.textDateColumn).toBe(false);
+  });
+
+  it('volta à carga completa quando as colunas da planilha mudaram de ordem', async () => {
+    const config = sheetSource('vendas-colunas');
+    const { mode, result, sync } = await syncGoogleSheet(config, await cachedFor(config));
+
+    expect(mode).toBe('full');
+    expect(sync.headers.slice(0, 2)).toEqual(['Valor', 'Data NFE']);
+    expect(queries().at(-1)).toMatch(/^select year\(B\), month\(B\), count\(B\), sum\(A\) /);
+    expect(totalsByMonth(result.records)['2025-03']).toEqual({ rows: 3, amount: 700 });
+  });
+
+  it('faz a carga completa quando o cache é de outra aba', async () => {
+    const config = sheetSource('vendas');
+    const cached = await cachedFor(config);
+    const { mode } = await syncGoogleSheet({ ...config, sheetName: 'Outra aba' }, cached);
+
+    expect(mode).toBe('full');
+    expect(queries()[0]).toBe('');
+  });
+});
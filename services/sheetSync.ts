@@ -0,0 +1,170 @@
+import Papa from 'papaparse';
+import { CachedDataset, DataSourceConfig, ImportResult, MonthConflictResolution, SheetMonthSummary, SheetSyncState } from '../types';
+import { buildGvizUrl, fetchText, parseSourceCSV } from './dataSources';
+import { suggestColumnMapping, loadMappingProfiles } from './columnMapping';
+import { parseAmount } from './dataService';
+import { mergeDatasets } from './datasetMerge';
+import { toMonthKey, shiftMonth, formatMonthShort } from './periodService';
+
+// --- INCREMENTAL GOOGLE SHEETS SYNC ---
+// Busca só as linhas a partir do mês da última nota sincronizada e compara os totais mensais
+// da planilha com os da sincronização anterior para rebaixar meses antigos editados.
+// As consultas usam config.baseUrl quando informado, o que permite apontar para uma gravação local do gviz.
+
+export interface SheetSyncResult {
+  result: ImportResult;
+  sync: SheetSyncState;
+  mode: 'full' | 'incremental';
+  refreshedMonths: string[];
+}
+
+// Tolerância para diferenças de arredondamento na soma devolvida pelo gviz
+const AMOUNT_TOLERANCE = 0.01;
+
+const readRawHeaders = (csvText: string): string[] => {
+  const result = Papa.parse(csvText, { header: false, preview: 1, skipEmptyLines: true });
+  return ((result.data[0] || []) as string[]).map(h => (h || '').toString());
+};
+
+const isSameHeaders = (a: string[], b: string[]): boolean => a.join('\u0001') === b.join('\u0001');
+
+// 0 -> A, 25 -> Z, 26 -> AA (identificadores de coluna do gviz)
+const toColumnLetter = (index: number): string => {
+  let letter = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letter = String.fromCharCode(65 + ((n - 1) % 26)) + letter;
+  }
+  return letter;
+};
+
+const resolveColumn = (config: DataSourceConfig, headers: string[], field: 'date' | 'amount'): string | undefined => {
+  const profile = config.mappingProfile ? loadMappingProfiles().find(p => p.name === config.mappingProfile) : undefined;
+  const header = suggestColumnMapping(headers.filter(h => h.trim().length > 0), profile)[field]?.[0];
+  const index = header ? headers.indexOf(header) : -1;
+  return index >= 0 ? toColumnLetter(index) : undefined;
+};
+
+const getLastDate = (result: ImportResult): string =>
+  result.records.reduce((max, r) => r.date > max ? r.date : max, '');
+
+const monthStart = (month: string) => `date '${month}-01'`;
+
+// Soma pode falhar se a coluna de valor for texto na planilha; nesse caso compara só a contagem de linhas
+const fetchMonthSummary = async (config: DataSourceConfig, dateCol: string, amountCol?: string): Promise<Record<string, SheetMonthSummary> | undefined> => {
+  const attempts = amountCol ? [true, false] : [false];
+  for (const withAmount of attempts) {
+    const query = `select year(${dateCol}), month(${dateCol}), count(${dateCol})${withAmount ? `, sum(${amountCol})` : ''} ` +
+      `where ${dateCol} is not null group by year(${dateCol}), month(${dateCol}) ` +
+      `format year(${dateCol}) '0', month(${dateCol}) '0', count(${dateCol}) '0'`;
+    try {
+      const text = await fetchText(buildGvizUrl(config, query));
+      const rows = (Papa.parse(text, { header: false, skipEmptyLines: true }).data as string[][]).slice(1);
+      const summary: Record<string, SheetMonthSummary> = {};
+      rows.forEach(([year, month, count, amount]) => {
+        // month() do gviz é base 0
+        const key = `${year}-${String(Number(month) + 1).padStart(2, '0')}`;
+        summary[key] = { rows: Number(count) || 0, amount: withAmount ? parseAmount(amount) : undefined };
+      });
+      return summary;
+    } catch (error) {
+      console.warn(`Resumo mensal indisponível para "${config.name}"${withAmount ? ' (com soma)' : ''}:`, error);
+    }
+  }
+  return undefined;
+};
+
+const isSameSummary = (a: SheetMonthSummary | undefined, b: SheetMonthSummary | undefined): boolean => {
+  if (!a || !b) return false;
+  if (a.rows !== b.rows) return false;
+  if (a.amount === undefined || b.amount === undefined || isNaN(a.amount) || isNaN(b.amount)) return true;
+  return Math.abs(a.amount - b.amount) <= AMOUNT_TOLERANCE;
+};
+
+// `textDateHeaders`: cabeçalho com que a coluna de data se mostrou texto; a marca só vale enquanto o cabeçalho não mudar.
+// Com ela o resumo mensal também fica de fora (year() não aceita texto e o resumo só serve à carga incremental).
+const fullSync = async (config: DataSourceConfig, textDateHeaders?: string[]): Promise<SheetSyncResult> => {
+  const text = await fetchText(buildGvizUrl(config));
+  const result = parseSourceCSV(config, text);
+  const headers = readRawHeaders(text);
+  const textDateColumn = !!textDateHeaders && isSameHeaders(textDateHeaders, headers);
+  const dateCol = textDateColumn ? undefined : resolveColumn(config, headers, 'date');
+  const monthSummary = dateCol ? await fetchMonthSummary(config, dateCol, resolveColumn(config, headers, 'amount')) : undefined;
+  return { result, sync: { headers, lastDate: getLastDate(result), monthSummary, textDateColumn }, mode: 'full', refreshedMonths: [] };
+};
+
+// Sincronização anterior reaproveitável: mesma planilha/aba/perfil e estado de sync completo
+const canSyncIncrementally = (config: DataSourceConfig, cached?: CachedDataset): cached is CachedDataset & { sync: SheetSyncState } =>
+  !!cached?.sync && !!cached.sync.lastDate && cached.records.length > 0 &&
+  cached.source.sheetId === config.sheetId &&
+  (cached.source.sheetName || '') === (config.sheetName || '') &&
+  (cached.source.baseUrl || '') === (config.baseUrl || '') &&
+  (cached.source.mappingProfile || '') === (config.mappingProfile || '');
+
+export const syncGoogleSheet = async (config: DataSourceConfig, cached?: CachedDataset): Promise<SheetSyncResult> => {
+  if (!config.sheetId) throw new Error('ID da planilha não informado');
+  if (!canSyncIncrementally(config, cached)) return fullSync(config);
+
+  const { headers, lastDate, monthSummary: previousSummary, textDateColumn } = cached.sync;
+  // Consulta por data já recusada antes: nenhuma consulta estreitaria o resultado
+  if (textDateColumn) return fullSync(config, headers);
+
+  const dateCol = resolveColumn(config, headers, 'date');
+  if (!dateCol) return fullSync(config);
+
+  const summary = await fetchMonthSummary(config, dateCol, resolveColumn(config, headers, 'amount'));
+  const tailMonth = toMonthKey(lastDate);
+
+  // Meses anteriores ao trecho incremental cujos totais mudaram (ou sumiram) desde a última sincronização
+  const changedMonths = summary && previousSummary
+    ? Array.from(new Set([...Object.keys(summary), ...Object.keys(previousSummary)]))
+        .filter(month => month < tailMonth && !isSameSummary(summary[month], previousSummary[month]))
+        .sort()
+    : [];
+
+  const conditions = [
+    `${dateCol} >= ${monthStart(tailMonth)}`,
+    ...changedMonths.map(month => `(${dateCol} >= ${monthStart(month)} and ${dateCol} < ${monthStart(shiftMonth(month, 1))})`)
+  ];
+  let text: string;
+  try {
+    text = await fetchText(buildGvizUrl(config, `select * where ${conditions.join(' or ')}`));
+  } catch (error) {
+    // Coluna de data como texto na planilha não aceita comparação com date: volta à carga completa.
+    // Se a planilha inteira carrega logo em seguida, a falha foi da consulta e as próximas sincronizações já não a tentam
+    console.warn(`Consulta incremental falhou para "${config.name}", carregando a planilha inteira:`, error);
+    return fullSync(config, headers);
+  }
+
+  // Colunas reorganizadas invalidam as letras usadas nas consultas
+  const incomingHeaders = readRawHeaders(text);
+  if (!isSameHeaders(incomingHeaders, headers)) return fullSync(config);
+
+  const increment = parseSourceCSV(config, text);
+
+  // Todo mês consultado é substituído pelo conteúdo atual da planilha (inclusive linhas apagadas)
+  const existingMonths = new Set(cached.records.map(r => toMonthKey(r.date)));
+  const refreshedMonths = Array.from(new Set([
+    ...Array.from(existingMonths).filter(month => month >= tailMonth),
+    ...changedMonths,
+    ...increment.records.map(r => toMonthKey(r.date))
+  ])).sort();
+  const resolutions: Record<string, MonthConflictResolution> = Object.fromEntries(refreshedMonths.map(month => [month, 'replace' as MonthConflictResolution]));
+  const merge = mergeDatasets(cached.records, increment.records, resolutions, `sync-${Date.now().toString(36)}`);
+
+  const report = {
+    ...increment.report,
+    warnings: [
+      ...increment.report.warnings,
+      `Sincronização incremental: ${increment.records.length.toLocaleString('pt-BR')} linhas recebidas, meses atualizados: ${refreshedMonths.map(formatMonthShort).join(', ') || '-'}` +
+        (changedMonths.length > 0 ? ` (alterações detectadas em ${changedMonths.map(formatMonthShort).join(', ')})` : '') +
+        (summary ? '' : '. Resumo mensal indisponível: edições em meses anteriores não foram verificadas')
+    ]
+  };
+  const result: ImportResult = { records: merge.records, report };
+  return {
+    result,
+    sync: { headers, lastDate: getLastDate(result) || lastDate, monthSummary: summary || previousSummary },
+    mode: 'incremental',
+    refreshedMonths
+  };
+};
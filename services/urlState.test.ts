@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { DashboardUrlState } from '../types';
+import { buildDashboardQuery, createEmptyFilters, getFilterDimensions, parseDashboardUrl } from './urlState';
+import { DEFAULT_PERIOD_SELECTION } from './periodService';
+
+const stateWith = (extra: Partial<DashboardUrlState> = {}): DashboardUrlState => ({
+  filters: getFilterDimensions(createEmptyFilters()),
+  exclude: {},
+  tab: 'clients',
+  detail: [],
+  search: '',
+  page: 1,
+  period: DEFAULT_PERIOD_SELECTION,
+  ...extra
+});
+
+describe('buildDashboardQuery / parseDashboardUrl', () => {
+  it('devolve o mesmo estado depois de ida e volta pelo link', () => {
+    const state = stateWith({
+      filters: { ...getFilterDimensions(createEmptyFilters()), region: ['SUL', 'SUDESTE'], supplier: ['Fornecedor, Filial 2'] },
+      exclude: { salesRep: ['Ana & Bia'] },
+      tab: 'returns',
+      detail: [{ type: 'client', id: '11.111.111/0001-11' }, { type: 'product', id: 'P:001' }],
+      search: 'arroz integral',
+      page: 3,
+      period: { mode: 'manual', month: '2025-04', closedMonths: 6, baselineMode: 'customRange', customStart: '2025-01-01', customEnd: '2025-02-28' }
+    });
+
+    const query = buildDashboardQuery(state);
+
+    expect(query).toContain('regiao=SUL&regiao=SUDESTE');
+    expect(query).toContain('excluir_rep=');
+    expect(parseDashboardUrl(query)).toEqual(state);
+  });
+
+  it('omite o que está no padrão e lê o link vazio como ausente', () => {
+    expect(buildDashboardQuery(stateWith())).toBe('');
+    expect(parseDashboardUrl('')).toBeNull();
+    expect(parseDashboardUrl('?utm_source=email')).toBeNull();
+  });
+
+  it('troca por padrões os valores inválidos do link', () => {
+    const parsed = parseDashboardUrl('?aba=inexistente&pagina=-2&mes=2025-13&base=outra&fechados=40&de=ontem&detalhe=x:1&detalhe=rep:&regiao=%20SUL%20&regiao=SUL');
+
+    expect(parsed).toEqual(stateWith({
+      filters: { ...getFilterDimensions(createEmptyFilters()), region: ['SUL'] }
+    }));
+  });
+});
@@ -0,0 +1,152 @@
+import { DashboardTab, DashboardUrlState, FilterDimension, FilterState, PeriodSelection, SaleRecord, BaselineMode, EntityRef, EntityType } from '../types';
+import { DEFAULT_PERIOD_SELECTION, BASELINE_MODE_LABELS, isMonthKey, isDateKey } from './periodService';
+
+// --- URL STATE ---
+// Filtros, aba, busca, página e período no query string, para o link abrir o painel no mesmo ponto.
+// Parâmetros em português e repetidos por valor (?regiao=SUL&regiao=SUDESTE): valores podem conter vírgulas.
+// Exclusões usam o mesmo nome com prefixo (?excluir_fornecedor=X).
+
+export const FILTER_URL_PARAMS: Record<FilterDimension, string> = {
+  channel: 'canal',
+  region: 'regiao',
+  division: 'divisao',
+  sector: 'setor',
+  salesRep: 'rep',
+  supplier: 'fornecedor',
+  productCode: 'produto',
+  cnpj: 'cliente',
+  networkName: 'rede',
+  city: 'cidade',
+  state: 'uf',
+  paymentTerms: 'prazo'
+};
+
+export const DASHBOARD_TABS: DashboardTab[] = ['clients', 'products', 'suppliers', 'redes', 'reps', 'churn', 'returns', 'mix', 'terms'];
+
+const EXCLUDE_PARAM_PREFIX = 'excluir_';
+
+const ENTITY_TYPES: EntityType[] = ['client', 'product', 'supplier', 'network', 'rep'];
+
+const PARAMS = {
+  tab: 'aba',
+  detail: 'detalhe',
+  search: 'busca',
+  page: 'pagina',
+  month: 'mes',
+  baseline: 'base',
+  closedMonths: 'fechados',
+  customStart: 'de',
+  customEnd: 'ate'
+};
+
+export const createEmptyFilters = (): FilterState => ({
+  division: [],
+  region: [],
+  sector: [],
+  salesRep: [],
+  channel: [],
+  supplier: [],
+  productCode: [],
+  cnpj: [],
+  networkName: [],
+  city: [],
+  state: [],
+  paymentTerms: [],
+  startMonth: '',
+  endMonth: '',
+  exclude: {}
+});
+
+export const getFilterDimensions = (filters: FilterState): Record<FilterDimension, string[]> =>
+  Object.fromEntries((Object.keys(FILTER_URL_PARAMS) as FilterDimension[]).map(dim => [dim, filters[dim]])) as Record<FilterDimension, string[]>;
+
+// Só dimensões com valores, para comparar e serializar sem ruído
+export const getFilterExclusions = (filters: FilterState): Partial<Record<FilterDimension, string[]>> =>
+  Object.fromEntries((Object.keys(FILTER_URL_PARAMS) as FilterDimension[])
+    .filter(dim => (filters.exclude[dim] || []).length > 0)
+    .map(dim => [dim, filters.exclude[dim]]));
+
+export const buildDashboardQuery = (state: DashboardUrlState): string => {
+  const params = new URLSearchParams();
+  (Object.keys(FILTER_URL_PARAMS) as FilterDimension[]).forEach(dim => {
+    state.filters[dim].forEach(value => params.append(FILTER_URL_PARAMS[dim], value));
+    (state.exclude[dim] || []).forEach(value => params.append(`${EXCLUDE_PARAM_PREFIX}${FILTER_URL_PARAMS[dim]}`, value));
+  });
+  if (state.tab !== 'clients') params.set(PARAMS.tab, state.tab);
+  state.detail.forEach(ref => params.append(PARAMS.detail, `${ref.type}:${ref.id}`));
+  if (state.search) params.set(PARAMS.search, state.search);
+  if (state.page > 1) params.set(PARAMS.page, String(state.page));
+
+  // Só o que difere do padrão, para manter o link curto
+  const { period } = state;
+  if (period.mode === 'manual' && period.month) params.set(PARAMS.month, period.month);
+  if (period.baselineMode !== DEFAULT_PERIOD_SELECTION.baselineMode) params.set(PARAMS.baseline, period.baselineMode);
+  if (period.closedMonths !== DEFAULT_PERIOD_SELECTION.closedMonths) params.set(PARAMS.closedMonths, String(period.closedMonths));
+  if (period.baselineMode === 'customRange') {
+    if (period.customStart) params.set(PARAMS.customStart, period.customStart);
+    if (period.customEnd) params.set(PARAMS.customEnd, period.customEnd);
+  }
+
+  const query = params.toString();
+  return query ? `?${query}` : '';
+};
+
+// Retorna null quando o link não traz nenhum parâmetro do painel
+export const parseDashboardUrl = (search: string): DashboardUrlState | null => {
+  const params = new URLSearchParams(search);
+  const filterParams = Object.values(FILTER_URL_PARAMS);
+  const known = [...filterParams, ...filterParams.map(p => `${EXCLUDE_PARAM_PREFIX}${p}`), ...Object.values(PARAMS)];
+  if (!known.some(key => params.has(key))) return null;
+
+  const readValues = (key: string) => Array.from(new Set(params.getAll(key).map(v => v.trim()).filter(Boolean)));
+  const dims = Object.keys(FILTER_URL_PARAMS) as FilterDimension[];
+  const filters = Object.fromEntries(dims.map(dim => [dim, readValues(FILTER_URL_PARAMS[dim])])) as Record<FilterDimension, string[]>;
+  const exclude = Object.fromEntries(dims
+    .map(dim => [dim, readValues(`${EXCLUDE_PARAM_PREFIX}${FILTER_URL_PARAMS[dim]}`)] as [FilterDimension, string[]])
+    .filter(([, values]) => values.length > 0));
+
+  const tab = params.get(PARAMS.tab) as DashboardTab;
+  const page = parseInt(params.get(PARAMS.page) || '1', 10);
+
+  const month = params.get(PARAMS.month) || '';
+  const baselineMode = params.get(PARAMS.baseline) as BaselineMode;
+  const closedMonths = parseInt(params.get(PARAMS.closedMonths) || '', 10);
+  const customStart = params.get(PARAMS.customStart) || '';
+  const customEnd = params.get(PARAMS.customEnd) || '';
+  const period: PeriodSelection = {
+    mode: isMonthKey(month) ? 'manual' : 'auto',
+    month: isMonthKey(month) ? month : '',
+    closedMonths: closedMonths >= 1 && closedMonths <= 12 ? closedMonths : DEFAULT_PERIOD_SELECTION.closedMonths,
+    baselineMode: baselineMode && Object.hasOwn(BASELINE_MODE_LABELS, baselineMode) ? baselineMode : DEFAULT_PERIOD_SELECTION.baselineMode,
+    customStart: isDateKey(customStart) ? customStart : '',
+    customEnd: isDateKey(customEnd) ? customEnd : ''
+  };
+
+  // "tipo:id" — o id pode conter ":" (só o primeiro separa)
+  const detail: EntityRef[] = params.getAll(PARAMS.detail)
+    .map(value => {
+      const separator = value.indexOf(':');
+      return { type: value.slice(0, separator) as EntityType, id: value.slice(separator + 1) };
+    })
+    .filter(ref => ENTITY_TYPES.includes(ref.type) && ref.id.length > 0);
+
+  return {
+    filters,
+    exclude,
+    tab: DASHBOARD_TABS.includes(tab) ? tab : 'clients',
+    detail,
+    search: params.get(PARAMS.search) || '',
+    page: page > 0 ? page : 1,
+    period
+  };
+};
+
+// Canal, região e divisão equivalem à tela de configuração: precisam existir na base carregada
+export const hasValidSetupSelection = (filters: Record<FilterDimension, string[]>, data: SaleRecord[]): boolean => {
+  const setupDims: FilterDimension[] = ['channel', 'region', 'division'];
+  return setupDims.every(dim => {
+    if (filters[dim].length === 0) return false;
+    const available = new Set(data.map(r => r[dim]));
+    return filters[dim].every(value => available.has(value));
+  });
+};
@@ -28,6 +28,116 @@ export interface SaleRecord {
   state?: string; // Coluna UF
 }
 
+// Campos do SaleRecord que podem ser lidos de uma coluna do CSV
+export type MappableField = Exclude<keyof SaleRecord, 'id'>;
+
+// Campo -> colunas candidatas, em ordem de prioridade (a primeira não vazia vence)
+export type ColumnMapping = Partial<Record<MappableField, string[]>>;
+
+export interface ColumnMappingProfile {
+  name: string;
+  mapping: ColumnMapping;
+  updatedAt: string; // ISO
+}
+
+export interface RejectedRow {
+  rowNumber: number; // Linha no arquivo (1 = cabeçalho)
+  reason: string;
+  raw: Record<string, string>;
+}
+
+export interface SuspiciousAmount {
+  rowNumber: number;
+  recordId: string;
+  amount: number;
+  reason: string;
+}
+
+// Diagnóstico gerado a cada importação (upload ou planilha)
+export interface ImportReport {
+  source: string;
+  importedAt: string; // ISO
+  totalRows: number;
+  acceptedRows: number;
+  rejectedRows: RejectedRow[];
+  defaultedFields: Partial<Record<MappableField, number>>; // Campo -> linhas com valor padrão
+  unknownChannels: Record<string, number>; // Valor de Canal -> linhas convertidas para VD
+  suspiciousAmounts: SuspiciousAmount[];
+  warnings: string[];
+}
+
+export interface ImportResult {
+  records: SaleRecord[];
+  report: ImportReport;
+}
+
+export type MonthConflictResolution = 'replace' | 'keepBoth';
+
+export interface MonthOverlap {
+  month: string; // "2025-11"
+  existingCount: number;
+  incomingCount: number;
+}
+
+export interface MergeResult {
+  records: SaleRecord[];
+  added: number;
+  duplicatesSkipped: number;
+  removed: number; // Registros antigos descartados por "substituir mês"
+  replacedMonths: string[];
+}
+
+export type DataSourceKind = 'googleSheets' | 'csvUrl' | 'localFile';
+
+export interface DataSourceConfig {
+  id: string;
+  name: string;
+  kind: DataSourceKind;
+  sheetId?: string; // googleSheets
+  sheetName?: string; // googleSheets - aba (vazio = primeira aba)
+  baseUrl?: string; // googleSheets - endpoint alternativo do gviz (ex: servidor local de testes)
+  url?: string; // csvUrl
+  fileName?: string; // localFile
+  mappingProfile?: string; // Perfil de mapeamento de colunas aplicado na importação
+}
+
+export type DataSourceStatus = 'idle' | 'loading' | 'ready' | 'error';
+
+export interface DataSourceState {
+  status: DataSourceStatus;
+  lastSyncAt?: string; // ISO
+  error?: string;
+  recordCount?: number;
+}
+
+// Totais por mês como a planilha os informa (gviz), usados para detectar edições em meses antigos
+export interface SheetMonthSummary {
+  rows: number;
+  amount?: number;
+}
+
+export interface SheetSyncState {
+  headers: string[]; // Cabeçalho bruto, na ordem das colunas (define as letras usadas nas consultas)
+  lastDate: string; // YYYY-MM-DD da nota mais recente sincronizada
+  monthSummary?: Record<string, SheetMonthSummary>;
+  textDateColumn?: boolean; // Coluna de data guardada como texto: o gviz não filtra por data, toda sincronização é completa
+}
+
+export interface CachedDataset {
+  sourceId: string;
+  source: DataSourceConfig;
+  records: SaleRecord[];
+  report: ImportReport;
+  savedAt: string; // ISO
+  sync?: SheetSyncState;
+}
+
+export interface CachedSession {
+  filters: FilterState;
+  isSetupComplete: boolean;
+  savedAt: string; // ISO
+}
+
 export interface FilterState {
   division: string[];
   region: string[];
@@ -35,8 +145,70 @@ export interface FilterState {
   salesRep: string[];
   channel: string[];
   supplier: string[];
+  productCode: string[];
+  cnpj: string[];
+  networkName: string[];
+  city: string[];
+  state: string[];
+  paymentTerms: string[];
   startMonth: string;
   endMonth: string;
+  exclude: Partial<Record<FilterDimension, string[]>>; // Valores removidos ("todos exceto")
+}
+
+// Dimensões filtráveis (o intervalo de meses é derivado do período de referência)
+export type FilterDimension = Exclude<keyof FilterState, 'startMonth' | 'endMonth' | 'exclude'>;
+
+export type FilterMode = 'include' | 'exclude';
+
+export type DashboardTab = 'clients' | 'products' | 'suppliers' | 'redes' | 'reps' | 'churn' | 'returns' | 'mix' | 'terms';
+
+// Estado do painel compartilhável por link
+export interface DashboardUrlState {
+  filters: Record<FilterDimension, string[]>;
+  exclude: Partial<Record<FilterDimension, string[]>>;
+  tab: DashboardTab;
+  detail: EntityRef[]; // Trilha de drill-down (vazia = tabelas)
+  search: string;
+  page: number;
+  period: PeriodSelection;
+}
+
+export interface FilterPreset {
+  name: string;
+  filters: Record<FilterDimension, string[]>;
+  exclude: Partial<Record<FilterDimension, string[]>>;
+  tab: DashboardTab;
+  updatedAt: string; // ISO
+}
+
+export type BaselineMode = 'trailing' | 'previousMonth' | 'sameMonthLastYear' | 'customRange';
+
+export interface DateRange {
+  start: string; // "2025-09-01" (inclusive)
+  end: string; // "2025-10-15" (inclusive)
+}
+
+export interface ComparisonBaseline {
+  mode: BaselineMode;
+  label: string; // Ex: "Média (3 meses)", "Nov/2024"
+  shortLabel: string; // Cabeçalho de coluna, ex: "Média (Ago-Out)"
+  ranges: DateRange[]; // Um intervalo por mês; o baseline é a média entre eles
+}
+
+export interface ReferencePeriod {
+  currentMonth: string; // "2025-11" - Mês de referência
+  previousMonths: string[]; // Meses fechados anteriores, em ordem crescente
+  baseline: ComparisonBaseline;
+}
+
+export interface PeriodSelection {
+  mode: 'auto' | 'manual'; // auto = último mês com vendas na base
+  month: string; // Mês escolhido pelo usuário (modo manual)
+  closedMonths: number; // Quantidade de meses fechados (média móvel)
+  baselineMode: BaselineMode;
+  customStart: string; // "2025-09-01" (modo customRange)
+  customEnd: string;
 }
 
 export interface KPIStats {
@@ -49,6 +221,43 @@ export interface KPIStats {
   avgTerm: number; // Prazo Médio (dias)
 }
 
+// --- REGISTRO DE INDICADORES ---
+// Variantes de regra dos KPIs base (o padrão é a regra original do painel)
+export interface KpiRules {
+  totalRevenue: 'net' | 'gross';
+  positivacao: 'net' | 'gross';
+  totalOrders: 'net' | 'gross';
+  skuPerPdv: 'net' | 'gross' | 'perOrder';
+}
+
+export type MetricFormat = 'currency' | 'number' | 'integer' | 'percent' | 'days';
+
+export interface KpiVariant {
+  id: string;
+  label: string;
+  description: string;
+}
+
+interface KpiDefinitionBase {
+  label: string;
+  description: string;
+  format: MetricFormat;
+}
+
+// Só os KPIs de KpiRules têm variantes; os demais derivam deles
+export type KpiDefinition =
+  | (KpiDefinitionBase & { key: keyof KpiRules, variants: KpiVariant[] })
+  | (KpiDefinitionBase & { key: Exclude<keyof KPIStats, keyof KpiRules>, variants?: undefined });
+
+export interface CustomMetric {
+  id: string;
+  label: string;
+  formula: string; // Ex: "faturamento / positivacao"
+  format: MetricFormat;
+  showCard: boolean;
+  showPivot: boolean;
+}
+
 export interface ChartDataPoint {
   name: string;
   value: number;
@@ -62,6 +271,13 @@ export interface MonthlyMetric {
   positivacao: number;
   ticketMedio: number;
   skuPdv: number;
+  kpis: KPIStats; // Todos os indicadores do mês (gráficos de evolução)
+}
+
+export interface SectorMonthlyMetric {
+  name: string;
+  sortKey: string;
+  sectors: Record<string, KPIStats>; // Setor -> indicadores do mês (só setores com registros)
 }
 
 // Interface for Detailed Table Rows
@@ -71,8 +287,8 @@ export interface EntityStats {
   revenue: number; // Total Revenue (filtered period) - Kept for compatibility
   
   // New props for Current vs Average comparison
-  currentRevenue: number; // Nov
-  averagePastRevenue: number; // (Ago+Set+Out)/3
+  currentRevenue: number; // Mês de referência
+  averagePastRevenue: number; // Baseline de comparação (média por mês)
   revenueTrend: number; // % change
 
   skuPerPdv: number;
@@ -84,6 +300,254 @@ export interface EntityStats {
   sector?: string;
 }
 
+export interface RepScorecard {
+  id: string; // Nome do representante
+  region: string; // Região predominante nas vendas do rep
+  sectors: string[];
+  current: KPIStats; // Mês de referência
+  baseline: KPIStats; // Baseline de comparação (média por mês)
+  returnRate: number; // % das vendas brutas devolvidas no mês de referência
+  baselineReturnRate: number;
+  gainedClients: string[]; // CNPJs positivados no mês e em nenhum mês da baseline
+  lostClients: string[]; // CNPJs positivados na baseline e não no mês
+  regionRank: number; // Posição por faturamento dentro da região (1 = maior)
+  regionSize: number;
+}
+
+// churned = positivado na baseline e não no mês; new = primeira compra no mês;
+// reactivated = positivado no mês, fora da baseline, mas com compras anteriores
+export type ChurnStatus = 'churned' | 'new' | 'reactivated';
+
+export interface ChurnClient {
+  cnpj: string;
+  companyName: string;
+  status: ChurnStatus;
+  salesRep: string; // Rep da compra mais recente
+  region: string;
+  sector: string;
+  lastPurchaseDate: string; // YYYY-MM-DD (última venda até o fim do mês de referência)
+  avgMonthlyRevenue: number; // Média dos meses com compra no histórico carregado
+  currentRevenue: number; // Mês de referência
+  baselineRevenue: number; // Baseline de comparação (média por mês)
+}
+
+export type ReturnDimension = 'product' | 'supplier' | 'client' | 'rep' | 'month';
+export type ReturnsView = ReturnDimension | 'links';
+
+export interface ReturnBreakdownRow {
+  id: string;
+  name: string;
+  salesValue: number; // Venda bruta (VD)
+  returnValue: number; // Devolução (DV), em valor absoluto
+  returnCount: number; // Linhas de devolução
+  returnRate: number; // % devolução sobre venda bruta
+  baselineReturnRate: number;
+  flagged: boolean; // Taxa acima do limite configurado
+}
+
+// Devolução vinculada à venda de origem: mesmo pedido, ou a última venda do mesmo produto ao cliente
+export type ReturnMatch = 'order' | 'product' | 'none';
+
+export interface ReturnLink {
+  returnId: string;
+  date: string;
+  cnpj: string;
+  companyName: string;
+  productCode: string;
+  productDesc: string;
+  salesRep: string;
+  orderId: string;
+  amount: number; // Valor absoluto devolvido
+  quantity: number;
+  match: ReturnMatch;
+  originalOrderId: string;
+  originalDate: string;
+  originalAmount: number;
+}
+
+// Cesta = itens de um mesmo pedido, ou tudo o que o cliente comprou no período
+export type BasketKey = 'order' | 'client';
+export type MixView = 'opportunities' | 'rules';
+
+// Regra "quem compra X também compra Y"
+export interface AssociationRule {
+  antecedent: string; // Código X
+  antecedentDesc: string;
+  consequent: string; // Código Y
+  consequentDesc: string;
+  pairCount: number; // Cestas com X e Y
+  support: number; // % das cestas com X e Y
+  confidence: number; // % das cestas com X que também têm Y
+  lift: number; // Confiança / frequência de Y (> 1 = associação acima do acaso)
+}
+
+// Cliente que compra X mas não Y, segundo uma regra
+export interface CrossSellOpportunity {
+  cnpj: string;
+  companyName: string;
+  salesRep: string;
+  productCode: string; // X (já compra)
+  productDesc: string;
+  suggestedCode: string; // Y (oportunidade)
+  suggestedDesc: string;
+  confidence: number;
+  lift: number;
+}
+
+export type AbcClass = 'A' | 'B' | 'C';
+
+// Cortes do faturamento acumulado, em %: até `a` = A, até `b` = B, resto = C (80/95 = curva 80/15/5)
+export interface AbcThresholds {
+  a: number;
+  b: number;
+}
+
+export interface AbcEntry {
+  id: string;
+  value: number;
+  cls: AbcClass;
+  share: number; // % do total
+  cumulativeShare: number; // % acumulado até esta entidade (ordem decrescente)
+}
+
+export interface AbcAnalysis {
+  entries: AbcEntry[]; // Mês de referência, maior faturamento primeiro
+  classes: Record<string, AbcClass>; // id -> classe no mês
+  baselineClasses: Record<string, AbcClass>; // id -> classe na baseline
+  summary: Record<AbcClass, { count: number, value: number, share: number }>;
+  // Migração baseline -> mês; 'none' = sem faturamento naquele período
+  migration: Record<AbcClass | 'none', Record<AbcClass | 'none', number>>;
+  moved: number; // Entidades com classe diferente da baseline (sem contar entradas e saídas)
+}
+
+// --- METAS ---
+export type GoalScope = 'rep' | 'sector' | 'region';
+export type GoalMetric = 'totalRevenue' | 'positivacao' | 'skuPerPdv';
+
+export interface SalesGoal {
+  month: string; // YYYY-MM
+  scope: GoalScope;
+  target: string; // Nome do rep, setor ou região
+  metric: GoalMetric;
+  value: number;
+}
+
+export interface GoalAttainment {
+  target: number;
+  actual: number;
+  attainment: number; // % atingido
+  gap: number; // Falta para a meta (0 quando atingida)
+  remainingDays: number; // Dias úteis restantes no mês
+  dailyRunRate: number; // Necessário por dia útil restante
+}
+
+// --- PROJEÇÃO DE FECHAMENTO ---
+export type ForecastMetric = 'totalRevenue' | 'totalOrders' | 'positivacao';
+
+export interface MetricForecast {
+  actual: number; // Realizado até a data de corte
+  projected: number; // Fechamento projetado
+  low: number; // Faixa de confiança (~80%)
+  high: number;
+  baseline: number; // Baseline de comparação (mês cheio)
+  method: 'curve' | 'runRate' | 'closed'; // Curva histórica, ritmo por dia útil ou mês já fechado
+}
+
+export interface MonthForecast {
+  month: string;
+  asOfDate: string; // Última data com venda no mês
+  elapsedDays: number; // Dias úteis decorridos (inclusive a data de corte)
+  totalDays: number; // Dias úteis do mês
+  curveMonths: number; // Meses históricos usados na curva
+  metrics: Record<ForecastMetric, MetricForecast>;
+}
+
+// --- CALENDÁRIO DE DIAS ÚTEIS ---
+export type HolidayScope = 'national' | 'state' | 'municipal' | 'company';
+
+export interface Holiday {
+  date: string; // "2025-11-20"
+  name: string;
+  scope: HolidayScope;
+}
+
+export interface CustomHoliday {
+  date: string; // "MM-DD" (todo ano) ou "YYYY-MM-DD" (só aquela data)
+  name: string;
+}
+
+export interface CalendarSettings {
+  state: string; // UF cujos feriados estaduais entram ('' = só nacionais)
+  includeOptional: boolean; // Carnaval e Corpus Christi (pontos facultativos)
+  municipalHolidays: CustomHoliday[];
+  companyDaysOff: CustomHoliday[]; // Recessos, emendas, inventário...
+}
+
+export interface BusinessDayKPIs {
+  businessDays: number;
+  revenuePerBusinessDay: number;
+  ordersPerBusinessDay: number;
+}
+
+export interface BusinessDayPace {
+  businessDay: number; // Corte: n-ésimo dia útil do mês de referência
+  current: BusinessDayKPIs; // Mês de referência até o corte
+  baseline: BusinessDayKPIs; // Média dos intervalos do baseline, inteiros
+  samePointRevenue: number; // Média do baseline até o mesmo dia útil
+  pace: number; // % do realizado vs samePointRevenue
+}
+
+// --- ALERTAS ---
+export type AlertSeverity = 'critical' | 'warning' | 'info';
+export type AlertRule = 'outlier' | 'drop' | 'term' | 'returns';
+
+export interface AlertSettings {
+  dropThreshold: number; // Queda % vs baseline (proporcional aos dias úteis decorridos)
+  zScore: number; // |z| mínimo para outlier
+  minBaselineRevenue: number; // Ignora entidades pequenas (R$ de baseline)
+  termIncreaseDays: number; // Aumento de prazo médio (dias) que vira alerta
+}
+
+export interface AnomalyAlert {
+  id: string; // Regra + alvo + métrica + mês: estável para dispensar
+  rule: AlertRule;
+  severity: AlertSeverity;
+  title: string;
+  explanation: string;
+  target: EntityRef | { type: 'sector', id: string }; // Setores abrem o painel filtrado
+  impact: number; // Baseline de faturamento do alvo (R$), para ordenar
+}
+
+// --- CONDIÇÕES DE PAGAMENTO ---
+// cash = à vista; days = lista de prazos (30/60/90); dates = vencimentos dd/mm/aaaa; unparsed = texto não reconhecido
+export type PaymentTermKind = 'cash' | 'days' | 'dates' | 'unparsed';
+
+export interface PaymentInstallment {
+  days: number; // Dias após a emissão da nota
+  dueDate: string; // YYYY-MM-DD ('' quando a nota não tem data)
+}
+
+export interface PaymentSchedule {
+  raw: string;
+  kind: PaymentTermKind;
+  label: string; // Condição normalizada para agrupar (ex: "30/60/90 dias")
+  installments: PaymentInstallment[]; // Vazio quando unparsed
+  avgDays: number; // Média simples dos prazos das parcelas
+}
+
+export interface PaymentTermsRow {
+  label: string;
+  kind: PaymentTermKind;
+  installmentCount: number;
+  avgDays: number;
+  revenue: number; // Vendas (VD) do mês de referência
+  orders: number;
+  clients: number;
+  share: number; // % do faturamento de vendas do mês
+  baselineRevenue: number; // Média mensal do baseline
+  rawValues: string[]; // Textos originais agrupados nesta condição
+}
+
 export interface SupplierStats extends EntityStats {
     skuCount: number;
 }
@@ -106,6 +570,39 @@ export interface TopItem {
   subValue: number;
 }
 
+export type EntityType = 'client' | 'product' | 'supplier' | 'network' | 'rep';
+
+export interface EntityRef {
+  type: EntityType;
+  id: string; // CNPJ, código do produto, nome do fornecedor/rede/representante
+}
+
+// Nota agrupada por pedido (vendas e devoluções separadas)
+export interface OrderSummary {
+  orderId: string;
+  date: string;
+  operClass: 'VD' | 'DV';
+  cnpj: string;
+  companyName: string;
+  salesRep: string;
+  paymentTerms: string;
+  amount: number;
+  itemCount: number;
+}
+
+export interface EntityDetail {
+  ref: EntityRef;
+  name: string;
+  subtitle: string;
+  currentKPIs: KPIStats;
+  baselineKPIs: KPIStats;
+  monthly: MonthlyMetric[];
+  topItemsType: EntityType; // Produtos dentro de clientes/fornecedores/redes/reps; clientes dentro de produtos
+  topItems: TopItem[];
+  orders: OrderSummary[];
+  returns: OrderSummary[];
+}
+
 export interface GeoStats {
   city: string;
   state: string;